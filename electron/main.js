@@ -1,9 +1,9 @@
 import { app, BrowserWindow, ipcMain, dialog, shell } from 'electron';
 import { join } from 'path';
 import { fileURLToPath } from 'url';
-import { PythonShell } from 'python-shell';
 import fs from 'fs';
 import Store from 'electron-store';
+import { analyzeStreamingHistory } from '../dist-electron/analytics.js';
 
 const __dirname = fileURLToPath(new URL('.', import.meta.url));
 
@@ -60,7 +60,7 @@ app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') app.quit();
 });
 
-// IPC handlers for Python script execution
+// IPC handlers for analyzing a streaming history file
 ipcMain.handle('select-file', async () => {
   const { canceled, filePaths } = await dialog.showOpenDialog({
     properties: ['openFile'],
@@ -71,23 +71,17 @@ ipcMain.handle('select-file', async () => {
   return filePaths[0];
 });
 
-ipcMain.handle('analyze-data', async (event, filePath) => {
+ipcMain.handle('analyze-data', async (event, filePath, options = {}) => {
   try {
-    // Copy the Python script to a temporary location
-    const pythonScript = join(app.getPath('temp'), 'spotify_analyzer.py');
-    fs.writeFileSync(pythonScript, fs.readFileSync(join(__dirname, '../src/python/spotify_analyzer.py')));
-    
-    // Run the Python script with the file path
-    const options = {
-      mode: 'json',
-      pythonOptions: ['-u'],
-      args: [filePath]
-    };
-    
-    const results = await PythonShell.run(pythonScript, options);
-    return results[0];
+    // Stream the file through the same analytics engine the app uses in the browser
+    const { size } = await fs.promises.stat(filePath);
+    return await analyzeStreamingHistory(fs.createReadStream(filePath), {
+      ...options,
+      totalBytes: size,
+      onProgress: (progress) => event.sender.send('analyze-data-progress', progress)
+    });
   } catch (error) {
-    console.error('Error running Python script:', error);
+    console.error('Error analyzing streaming history:', error);
     return { error: error.message };
   }
 });
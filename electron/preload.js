@@ -2,7 +2,13 @@ import { contextBridge, ipcRenderer } from 'electron';
 
 contextBridge.exposeInMainWorld('electronAPI', {
   selectFile: () => ipcRenderer.invoke('select-file'),
-  analyzeData: (filePath) => ipcRenderer.invoke('analyze-data', filePath),
+  analyzeData: (filePath, options) => ipcRenderer.invoke('analyze-data', filePath, options),
+  // Subscribe to progress while a file is analyzed; returns a function that unsubscribes
+  onAnalyzeProgress: (callback) => {
+    const listener = (event, progress) => callback(progress);
+    ipcRenderer.on('analyze-data-progress', listener);
+    return () => ipcRenderer.removeListener('analyze-data-progress', listener);
+  },
   
   // Spotify authentication
   getSpotifyCredentials: () => ipcRenderer.invoke('get-spotify-credentials'),
@@ -1,10 +1,9 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { FileUp, Music, User, ChevronDown, Plus, Trash2, Settings, X } from 'lucide-react';
 import Dashboard from './components/Dashboard';
 import FileUploader from './components/FileUploader';
 import SampleData from './data/sampleData';
 import SpotifyConnectButton from './components/SpotifyConnectButton';
-import { extractSpotifyIdFromUri } from './utils/spotifyUtils';
 import { 
   getActiveProfileId, 
   getActiveProfile, 
@@ -18,89 +17,52 @@ import {
   StorageStats
 } from './services/indexedDBProfileService';
 import ProfileApiSettings from './components/ProfileApiSettings';
-
-// Define interfaces for Spotify data
-interface SpotifyStreamingEntry {
-  ts: string;
-  ms_played: number;
-  master_metadata_track_name: string;
-  master_metadata_album_artist_name: string;
-  master_metadata_album_album_name?: string;
-  spotify_track_uri?: string;
-  platform?: string;
-  shuffle?: boolean;
-  skipped?: boolean;
-  offline?: boolean;
-  offline_timestamp?: string | null;
-  incognito_mode?: boolean;
-  reason_start?: string;
-  reason_end?: string;
-}
-
-// Define the interface for our Spotify stats
-interface SpotifyStats {
-  stats: {
-    total_stats: {
-      total_listening_hours: number;
-      total_listening_minutes: number;
-      total_tracks_played: number;
-      unique_artists: number;
-      unique_albums: number;
-      unique_tracks: number;
-      average_track_length_seconds: number;
-    };
-    listening_patterns: {
-      peak_hour: number;
-      peak_day: string;
-      hourly_distribution: Record<string, number>;
-      daily_distribution: Record<string, number>;
-      monthly_distribution: Record<string, number>;
-    };
-    behavior_stats: {
-      skip_rate: number;
-      offline_rate: number;
-      shuffle_rate: number;
-    };
-    session_stats: {
-      average_session_minutes: number;
-      average_tracks_per_session: number;
-      total_sessions: number;
-    };
-    platform_stats: Record<string, number>;
-    top_content: {
-      top_artists: Record<string, number>;
-      top_tracks: Record<string, number>;
-      top_albums: Record<string, number>;
-    };
-  };
-  trends: {
-    daily_stats: {
-      dates: string[];
-      hours_played: number[];
-      tracks_played: number[];
-      skip_rate: number[];
-      offline_rate: number[];
-      shuffle_rate: number[];
-    };
-    rolling_averages: {
-      dates: string[];
-      hours_played: number[];
-      tracks_played: number[];
-      skip_rate: number[];
-      offline_rate: number[];
-      shuffle_rate: number[];
-    };
-  };
-  rawData: SpotifyStreamingEntry[]; // Add raw data to the interface
-}
+import ProfileSelector from './components/ProfileSelector';
+import ImportProgress from './components/ImportProgress';
+import { importStreamingFiles, isSupportedImportFile, ImportFileProgress } from './services/streamingDataImporter';
+import { ParseCancelledError } from './services/streamingParserClient';
+import { QuarantinedRecord, mergeQuarantine } from './services/streamingDataValidator';
+import { ImportBatch } from './services/importBatchService';
+import {
+  StreamingEntry,
+  SpotifyStats,
+  ContentKind,
+  PlayCountingPolicy,
+  DEFAULT_PLAY_COUNTING_POLICY,
+  EntityAliases,
+  EMPTY_ENTITY_ALIASES,
+  TimezoneSettings,
+  getDefaultTimezoneSettings,
+  DEFAULT_SESSION_GAP_MINUTES,
+  AnalysisOptions,
+  normalizeStreamingData,
+  mergeStreamingData,
+  analyzeSpotifyData,
+  MergeReport,
+  DateRange,
+  ALL_TIME,
+  isAllTime
+} from './analytics';
 
 function App() {
   const [data, setData] = useState<SpotifyStats | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [rawData, setRawData] = useState<SpotifyStreamingEntry[]>([]);
+  const [rawData, setRawData] = useState<StreamingEntry[]>([]);
   const [isAppending, setIsAppending] = useState<boolean>(false);
+  const [importProgress, setImportProgress] = useState<ImportFileProgress[]>([]);
+  const [mergeReport, setMergeReport] = useState<MergeReport | null>(null);
+  const [contentKind, setContentKind] = useState<ContentKind | 'all'>('all');
+  const [quarantine, setQuarantine] = useState<QuarantinedRecord[]>([]);
+  const [importBatches, setImportBatches] = useState<ImportBatch[]>([]);
+  const [playCountingPolicy, setPlayCountingPolicy] = useState<PlayCountingPolicy>(DEFAULT_PLAY_COUNTING_POLICY);
+  const [entityAliases, setEntityAliases] = useState<EntityAliases>(EMPTY_ENTITY_ALIASES);
+  const [timezoneSettings, setTimezoneSettings] = useState<TimezoneSettings>(getDefaultTimezoneSettings);
+  const [sessionGapMinutes, setSessionGapMinutes] = useState<number>(DEFAULT_SESSION_GAP_MINUTES);
+  const [correctOfflinePlays, setCorrectOfflinePlays] = useState<boolean>(true);
+  const [dateRange, setDateRange] = useState<DateRange>(ALL_TIME);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const importAbortRef = useRef<AbortController | null>(null);
   
   // Profile management state
   const [currentProfileId, setCurrentProfileId] = useState<string | null>(null);
@@ -110,8 +72,32 @@ function App() {
   const [profiles, setProfiles] = useState<ProfileSummary[]>([]);
   const [storageStats, setStorageStats] = useState<StorageStats | null>(null);
   const [showApiSettings, setShowApiSettings] = useState(false);
+  const [showProfileManager, setShowProfileManager] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
+  // The profile settings every statistic depends on
+  const analysisOptions = useMemo<AnalysisOptions>(() => ({
+    policy: playCountingPolicy,
+    aliases: entityAliases,
+    timezone: timezoneSettings,
+    sessionGapMinutes,
+    correctOfflinePlays
+  }), [playCountingPolicy, entityAliases, timezoneSettings, sessionGapMinutes, correctOfflinePlays]);
+
+  // Stats limited to one kind of content or a date range are derived from the raw data on demand
+  const displayData = useMemo(() => {
+    if (!data || (contentKind === 'all' && isAllTime(dateRange)) || rawData.length === 0) {
+      return data;
+    }
+    return analyzeSpotifyData(normalizeStreamingData(rawData), { ...analysisOptions, contentKind, dateRange });
+  }, [data, rawData, contentKind, dateRange, analysisOptions]);
+
+  // Years of the whole history, for the date range picker
+  const historyYears = useMemo(() => {
+    const dates = data?.trends?.daily_stats?.dates || [];
+    return Array.from(new Set(dates.map(date => Number(date.slice(0, 4))))).sort((a, b) => a - b);
+  }, [data]);
+
   const loadProfiles = async () => {
     const allProfiles = await getProfileSummaries();
     setProfiles(allProfiles);
@@ -120,17 +106,23 @@ function App() {
     setStorageStats(stats);
   };
 
-  const processSpotifyData = React.useCallback((jsonData: SpotifyStreamingEntry[]) => {
+  const processSpotifyData = React.useCallback((
+    inputData: StreamingEntry[],
+    options: AnalysisOptions = {}
+  ) => {
     try {
       // Basic validation to check if this is Spotify data
-      if (!Array.isArray(jsonData)) {
+      if (!Array.isArray(inputData)) {
         throw new Error("Invalid data format. Expected an array of streaming history entries.");
       }
       
-      if (jsonData.length === 0) {
+      if (inputData.length === 0) {
         throw new Error("The file contains no streaming history data.");
       }
       
+      // Convert account data exports (StreamingHistory_music_N.json) to the extended format
+      const jsonData = normalizeStreamingData(inputData);
+      
       // Check for required fields in the first item
       const firstItem = jsonData[0];
       const requiredFields = ['ts', 'ms_played', 'master_metadata_track_name', 'master_metadata_album_artist_name'];
@@ -143,7 +135,7 @@ function App() {
       
       // Process the data (simplified version of what the Python script would do)
       // In a real app, this would be more comprehensive
-      const processedData = analyzeSpotifyData(jsonData);
+      const processedData = analyzeSpotifyData(jsonData, options);
       return processedData;
     } catch (err) {
       if (err instanceof Error) {
@@ -158,11 +150,30 @@ function App() {
     // Set the active profile first
     setActiveProfile(profileId);
     const activeProfile = await getActiveProfile();
+    setQuarantine(activeProfile?.quarantine || []);
+    setImportBatches(activeProfile?.importBatches || []);
+    const policy = activeProfile?.playCountingPolicy || DEFAULT_PLAY_COUNTING_POLICY;
+    const aliases = activeProfile?.entityAliases || EMPTY_ENTITY_ALIASES;
+    const timezone = activeProfile?.timezoneSettings || getDefaultTimezoneSettings();
+    const sessionGap = activeProfile?.sessionGapMinutes || DEFAULT_SESSION_GAP_MINUTES;
+    const correctOffline = activeProfile?.correctOfflinePlays ?? true;
+    setPlayCountingPolicy(policy);
+    setEntityAliases(aliases);
+    setTimezoneSettings(timezone);
+    setSessionGapMinutes(sessionGap);
+    setCorrectOfflinePlays(correctOffline);
+    setDateRange(activeProfile?.dateRange || ALL_TIME);
     if (activeProfile?.streamingData) {
       // Check if data is already processed (has stats property) or raw JSON
       if (Array.isArray(activeProfile.streamingData)) {
         // Raw JSON data - process it
-        const processedData = processSpotifyData(activeProfile.streamingData);
+        const processedData = processSpotifyData(activeProfile.streamingData, {
+          policy,
+          aliases,
+          timezone,
+          sessionGapMinutes: sessionGap,
+          correctOfflinePlays: correctOffline
+        });
         setData(processedData);
         setRawData(activeProfile.streamingData);
       } else if (activeProfile.streamingData && typeof activeProfile.streamingData === 'object' && 'stats' in activeProfile.streamingData) {
@@ -174,7 +185,7 @@ function App() {
       // Load sample data for first-time users to showcase features
       const sampleDataWithRaw = {
         ...SampleData,
-        rawData: [] as SpotifyStreamingEntry[] // Add empty raw data for sample data
+        rawData: [] as StreamingEntry[] // Add empty raw data for sample data
       };
       setData(sampleDataWithRaw as SpotifyStats);
       updateProfile(profileId, { streamingData: sampleDataWithRaw });
@@ -217,307 +228,15 @@ function App() {
   }, []);
 
 
-  const analyzeSpotifyData = (jsonData: SpotifyStreamingEntry[]) => {
-    // This is a simplified version of the Python analysis
-    // In a real app, this would be much more comprehensive
-    
-    // Convert timestamps to Date objects and extract Spotify IDs
-    const data = jsonData.map(item => {
-      // Extract Spotify ID from URI if available
-      let spotifyId = null;
-      if (item.spotify_track_uri) {
-        spotifyId = extractSpotifyIdFromUri(item.spotify_track_uri);
-      }
-      
-      return {
-        ...item,
-        timestamp: new Date(item.ts),
-        skipped: item.skipped || false,
-        offline: item.offline || false,
-        shuffle: item.shuffle || false,
-        spotify_id: spotifyId
-      };
-    });
-    
-    // Calculate basic stats
-    const totalMs = data.reduce((sum, item) => sum + (item.ms_played || 0), 0);
-    const totalHours = totalMs / (1000 * 60 * 60);
-    const totalMinutes = totalMs / (1000 * 60);
-    
-    // Count unique artists, albums, tracks
-    const uniqueArtists = new Set(data.map(item => item.master_metadata_album_artist_name).filter(Boolean)).size;
-    const uniqueAlbums = new Set(data.map(item => item.master_metadata_album_album_name).filter(Boolean)).size;
-    const uniqueTracks = new Set(data.map(item => item.master_metadata_track_name).filter(Boolean)).size;
-    
-    // Calculate average track length
-    const avgTrackLength = totalMs / data.length / 1000;
-    
-    // Count skips, offline plays, shuffle plays
-    const skipCount = data.filter(item => item.skipped).length;
-    const offlineCount = data.filter(item => item.offline).length;
-    const shuffleCount = data.filter(item => item.shuffle).length;
-    
-    const skipRate = (skipCount / data.length) * 100;
-    const offlineRate = (offlineCount / data.length) * 100;
-    const shuffleRate = (shuffleCount / data.length) * 100;
-    
-    // Get hourly distribution
-    const hourlyDistribution: Record<string, number> = {};
-    data.forEach(item => {
-      const hour = item.timestamp.getHours();
-      hourlyDistribution[hour] = (hourlyDistribution[hour] || 0) + 1;
-    });
-    
-    // Get daily distribution
-    const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-    const dailyDistribution: Record<string, number> = {};
-    data.forEach(item => {
-      const day = days[item.timestamp.getDay()];
-      dailyDistribution[day] = (dailyDistribution[day] || 0) + 1;
-    });
-    
-    // Get monthly distribution
-    const monthlyDistribution: Record<string, number> = {};
-    data.forEach(item => {
-      const month = item.timestamp.getMonth() + 1; // 1-12
-      monthlyDistribution[month] = (monthlyDistribution[month] || 0) + 1;
-    });
-    
-    // Find peak hour and day
-    let peakHour = 0;
-    let maxHourCount = 0;
-    Object.entries(hourlyDistribution).forEach(([hour, count]) => {
-      if (count > maxHourCount) {
-        maxHourCount = count;
-        peakHour = parseInt(hour);
-      }
-    });
-    
-    let peakDay = 'Monday';
-    let maxDayCount = 0;
-    Object.entries(dailyDistribution).forEach(([day, count]) => {
-      if (count > maxDayCount) {
-        maxDayCount = count;
-        peakDay = day;
-      }
-    });
-    
-    // Get platform stats
-    const platformStats: Record<string, number> = {};
-    data.forEach(item => {
-      if (item.platform) {
-        // Simplify platform names
-        let platform = item.platform;
-        if (platform.includes('Android')) platform = 'Android Phone';
-        else if (platform.includes('iOS') || platform.includes('iPhone')) platform = 'iOS Phone';
-        else if (platform.includes('Windows')) platform = 'Windows Desktop';
-        else if (platform.includes('Mac')) platform = 'Mac Desktop';
-        else if (platform.includes('Web')) platform = 'Web Player';
-        
-        platformStats[platform] = (platformStats[platform] || 0) + 1;
-      }
-    });
-    
-    // Get top artists, tracks, albums
-    const artistCounts: Record<string, number> = {};
-    const trackCounts: Record<string, number> = {};
-    const albumCounts: Record<string, number> = {};
-    
-    data.forEach(item => {
-      if (item.master_metadata_album_artist_name) {
-        artistCounts[item.master_metadata_album_artist_name] = 
-          (artistCounts[item.master_metadata_album_artist_name] || 0) + 1;
-      }
-      
-      if (item.master_metadata_track_name) {
-        trackCounts[item.master_metadata_track_name] = 
-          (trackCounts[item.master_metadata_track_name] || 0) + 1;
-      }
-      
-      if (item.master_metadata_album_album_name) {
-        albumCounts[item.master_metadata_album_album_name] = 
-          (albumCounts[item.master_metadata_album_album_name] || 0) + 1;
-      }
-    });
-    
-    // Sort and get top 10
-    const topArtists: Record<string, number> = {};
-    Object.entries(artistCounts)
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 10)
-      .forEach(([name, count]) => {
-        topArtists[name] = count;
-      });
-    
-    const topTracks: Record<string, number> = {};
-    Object.entries(trackCounts)
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 10)
-      .forEach(([name, count]) => {
-        topTracks[name] = count;
-      });
-    
-    const topAlbums: Record<string, number> = {};
-    Object.entries(albumCounts)
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 10)
-      .forEach(([name, count]) => {
-        topAlbums[name] = count;
-      });
-    
-    // Generate daily trends (simplified)
-    const dateMap = new Map();
-    data.forEach(item => {
-      const dateStr = item.timestamp.toISOString().split('T')[0];
-      if (!dateMap.has(dateStr)) {
-        dateMap.set(dateStr, {
-          ms_played: 0,
-          tracks: 0,
-          skipped: 0,
-          offline: 0,
-          shuffle: 0
-        });
-      }
-      
-      const dateStats = dateMap.get(dateStr);
-      dateStats.ms_played += item.ms_played;
-      dateStats.tracks += 1;
-      dateStats.skipped += item.skipped ? 1 : 0;
-      dateStats.offline += item.offline ? 1 : 0;
-      dateStats.shuffle += item.shuffle ? 1 : 0;
-    });
-    
-    // Convert to arrays for charting
-    const dates: string[] = [];
-    const hoursPlayed: number[] = [];
-    const tracksPlayed: number[] = [];
-    const skipRates: number[] = [];
-    const offlineRates: number[] = [];
-    const shuffleRates: number[] = [];
-    
-    // Sort dates
-    Array.from(dateMap.entries())
-      .sort((a, b) => a[0].localeCompare(b[0]))
-      .forEach(([date, stats]) => {
-        dates.push(date);
-        hoursPlayed.push(Number((stats.ms_played / (1000 * 60 * 60)).toFixed(2)));
-        tracksPlayed.push(stats.tracks);
-        skipRates.push(Number(((stats.skipped / stats.tracks) * 100).toFixed(2)));
-        offlineRates.push(Number(((stats.offline / stats.tracks) * 100).toFixed(2)));
-        shuffleRates.push(Number(((stats.shuffle / stats.tracks) * 100).toFixed(2)));
-      });
-    
-    // Calculate 7-day rolling averages (simplified)
-    const rollingHours: number[] = [];
-    const rollingTracks: number[] = [];
-    const rollingSkipRates: number[] = [];
-    const rollingOfflineRates: number[] = [];
-    const rollingShuffleRates: number[] = [];
-    
-    for (let i = 0; i < dates.length; i++) {
-      const window = 7;
-      const start = Math.max(0, i - window + 1);
-      const end = i + 1;
-      
-      const windowHours = hoursPlayed.slice(start, end);
-      const windowTracks = tracksPlayed.slice(start, end);
-      const windowSkipRates = skipRates.slice(start, end);
-      const windowOfflineRates = offlineRates.slice(start, end);
-      const windowShuffleRates = shuffleRates.slice(start, end);
-      
-      const avgHours = windowHours.reduce((sum, val) => sum + val, 0) / windowHours.length;
-      const avgTracks = windowTracks.reduce((sum, val) => sum + val, 0) / windowTracks.length;
-      const avgSkipRate = windowSkipRates.reduce((sum, val) => sum + val, 0) / windowSkipRates.length;
-      const avgOfflineRate = windowOfflineRates.reduce((sum, val) => sum + val, 0) / windowOfflineRates.length;
-      const avgShuffleRate = windowShuffleRates.reduce((sum, val) => sum + val, 0) / windowShuffleRates.length;
-      
-      rollingHours.push(Number(avgHours.toFixed(2)));
-      rollingTracks.push(Math.round(avgTracks));
-      rollingSkipRates.push(Number(avgSkipRate.toFixed(2)));
-      rollingOfflineRates.push(Number(avgOfflineRate.toFixed(2)));
-      rollingShuffleRates.push(Number(avgShuffleRate.toFixed(2)));
-    }
-    
-    // Construct the final data structure
-    return {
-      stats: {
-        total_stats: {
-          total_listening_hours: Number(totalHours.toFixed(2)),
-          total_listening_minutes: Number(totalMinutes.toFixed(2)),
-          total_tracks_played: data.length,
-          unique_artists: uniqueArtists,
-          unique_albums: uniqueAlbums,
-          unique_tracks: uniqueTracks,
-          average_track_length_seconds: Number(avgTrackLength.toFixed(2))
-        },
-        listening_patterns: {
-          peak_hour: peakHour,
-          peak_day: peakDay,
-          hourly_distribution: hourlyDistribution,
-          daily_distribution: dailyDistribution,
-          monthly_distribution: monthlyDistribution
-        },
-        behavior_stats: {
-          skip_rate: Number(skipRate.toFixed(2)),
-          offline_rate: Number(offlineRate.toFixed(2)),
-          shuffle_rate: Number(shuffleRate.toFixed(2))
-        },
-        session_stats: {
-          average_session_minutes: 30, // Simplified
-          average_tracks_per_session: 8, // Simplified
-          total_sessions: Math.ceil(data.length / 8) // Simplified
-        },
-        platform_stats: platformStats,
-        top_content: {
-          top_artists: topArtists,
-          top_tracks: topTracks,
-          top_albums: topAlbums
-        }
-      },
-      trends: {
-        daily_stats: {
-          dates,
-          hours_played: hoursPlayed,
-          tracks_played: tracksPlayed,
-          skip_rate: skipRates,
-          offline_rate: offlineRates,
-          shuffle_rate: shuffleRates
-        },
-        rolling_averages: {
-          dates,
-          hours_played: rollingHours,
-          tracks_played: rollingTracks,
-          skip_rate: rollingSkipRates,
-          offline_rate: rollingOfflineRates,
-          shuffle_rate: rollingShuffleRates
-        }
-      },
-      rawData: jsonData // Include the raw data in the result
-    };
-  };
-
-  // Function to remove duplicates from an array of Spotify streaming history entries
-  const removeDuplicates = (data: SpotifyStreamingEntry[]): SpotifyStreamingEntry[] => {
-    // Create a Set to track unique entries based on timestamp + track + ms_played
-    const seen = new Set();
-    return data.filter(item => {
-      // Create a unique key for each entry
-      const key = `${item.ts}-${item.master_metadata_track_name}-${item.ms_played}`;
-      if (seen.has(key)) {
-        return false; // Skip this duplicate
-      }
-      seen.add(key);
-      return true;
-    });
-  };
-
-  const handleFileSelect = async (file: File | null, append: boolean = false) => {
+  const handleFileSelect = async (files: File[] | null, append: boolean = false) => {
     try {
       setLoading(true);
       setError(null);
       setIsAppending(append);
+      setImportProgress([]);
+      setMergeReport(null);
       
-      if (!file) {
+      if (!files || files.length === 0) {
         // Load sample data if no file is provided
         setTimeout(async () => {
           const sampleDataWithRaw = {
@@ -526,10 +245,12 @@ function App() {
           };
           setData(sampleDataWithRaw);
           setRawData([]); // Reset raw data since we're using sample data
+          setQuarantine([]);
+          setImportBatches([]);
           
           // Save sample data to current profile
           if (currentProfileId) {
-            await updateProfile(currentProfileId, { streamingData: sampleDataWithRaw });
+            await updateProfile(currentProfileId, { streamingData: sampleDataWithRaw, quarantine: [], importBatches: [] });
             await loadProfiles(); // Refresh profile summaries
           }
           
@@ -538,100 +259,216 @@ function App() {
         return;
       }
       
-      // Check file type
-      if (!file.name.endsWith('.json')) {
-        setError('Please upload a JSON file.');
+      // Check file types
+      if (!files.some(isSupportedImportFile)) {
+        setError('Please upload JSON files or a Spotify data ZIP archive.');
         setLoading(false);
         return;
       }
       
-      // Read the file
-      const reader = new FileReader();
+      // Import the files one after another (ZIP archives are unpacked into their streaming history files)
+      const abortController = new AbortController();
+      importAbortRef.current = abortController;
+      const { data: combinedData, quarantine: rejectedRecords, batches, mergeReport: report } = await importStreamingFiles(
+        files,
+        append ? rawData : [],
+        { onProgress: setImportProgress, signal: abortController.signal, existingBatches: importBatches }
+      );
+      importAbortRef.current = null;
+      setMergeReport(report);
+      const updatedQuarantine = append ? mergeQuarantine(quarantine, rejectedRecords) : rejectedRecords;
+      const updatedBatches = append ? [...importBatches, ...batches] : batches;
+      
+      // Process the combined data
+      const processedData = processSpotifyData(combinedData, analysisOptions);
+      setRawData(combinedData);
+      setData(processedData);
+      setQuarantine(updatedQuarantine);
+      setImportBatches(updatedBatches);
       
-      reader.onload = async (e) => {
+      // Save processed data to current profile
+      if (currentProfileId) {
         try {
-          const content = e.target?.result as string;
-          const jsonData = JSON.parse(content);
-          
-          // Process the data
-          let combinedData: SpotifyStreamingEntry[] = [];
-          
-          if (append && rawData.length > 0) {
-            // Combine with existing data
-            combinedData = [...rawData, ...jsonData];
-            
-            // Remove duplicates
-            combinedData = removeDuplicates(combinedData);
-            
-            // Update raw data store
-            setRawData(combinedData);
-            
-            // Process the combined data
-            const processedData = processSpotifyData(combinedData);
-            setData(processedData);
+          await updateProfile(currentProfileId, {
+            streamingData: processedData,
+            quarantine: updatedQuarantine,
+            importBatches: updatedBatches
+          });
+          await loadProfiles(); // Refresh profile summaries
+        } catch (storageError) {
+          if (storageError instanceof Error) {
+            setError(storageError.message);
           } else {
-            // Process new data only
-            setRawData(jsonData);
-            const processedData = processSpotifyData(jsonData);
-            setData(processedData);
-          }
-          
-          // Save processed data to current profile
-          if (currentProfileId) {
-            try {
-              const dataToSave = append ? processSpotifyData(combinedData) : processSpotifyData(jsonData);
-              await updateProfile(currentProfileId, { streamingData: dataToSave });
-              await loadProfiles(); // Refresh profile summaries
-            } catch (storageError) {
-              if (storageError instanceof Error) {
-                setError(storageError.message);
-              } else {
-                setError('Failed to save data');
-              }
-              console.error('Storage error:', storageError);
-              return; // Don't continue processing if save failed
-            }
+            setError('Failed to save data');
           }
-        } catch (err) {
-          if (err instanceof Error) {
-            setError(err.message);
-          } else {
-            setError('An error occurred while processing the file.');
-          }
-          console.error(err);
-        } finally {
-          setLoading(false);
-          setIsAppending(false);
+          console.error('Storage error:', storageError);
         }
-      };
-      
-      reader.onerror = () => {
-        setError('Failed to read the file.');
-        setLoading(false);
-        setIsAppending(false);
-      };
-      
-      reader.readAsText(file);
+      }
       
+      setLoading(false);
+      setIsAppending(false);
     } catch (err) {
-      if (err instanceof Error) {
-        setError(err.message);
-      } else {
-        setError('An error occurred while processing the file.');
+      importAbortRef.current = null;
+      // A cancelled import leaves the existing data untouched and the import summary already says so
+      if (!(err instanceof ParseCancelledError)) {
+        if (err instanceof Error) {
+          setError(err.message);
+        } else {
+          setError('An error occurred while processing the file.');
+        }
+        console.error(err);
       }
       setLoading(false);
       setIsAppending(false);
+    }
+  };
+
+  const handleCancelImport = () => {
+    importAbortRef.current?.abort();
+  };
+
+  const handleReadmitRecords = async (items: { id: string; record: unknown }[]) => {
+    try {
+      // Re-admitted records stay part of the import they arrived with, so undoing it removes them too
+      const batchIds = new Map(quarantine.map(item => [item.id, item.batchId]));
+      const admittedEntries = normalizeStreamingData(items.map(item => item.record)).map((entry, index) => {
+        const batchId = batchIds.get(items[index].id);
+        return batchId ? { ...entry, import_batch_ids: [batchId] } : entry;
+      });
+      const combinedData = mergeStreamingData(rawData, admittedEntries);
+      const readmittedIds = new Set(items.map(item => item.id));
+      const remaining = quarantine.filter(item => !readmittedIds.has(item.id));
+
+      const processedData = processSpotifyData(combinedData, analysisOptions);
+      setRawData(combinedData);
+      setData(processedData);
+      setQuarantine(remaining);
+
+      if (currentProfileId) {
+        await updateProfile(currentProfileId, { streamingData: processedData, quarantine: remaining });
+        await loadProfiles(); // Refresh profile summaries
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to re-admit records');
+      console.error(err);
+    }
+  };
+
+  const handleApplyPlayCountingPolicy = async (policy: PlayCountingPolicy) => {
+    try {
+      const processedData = processSpotifyData(rawData, { ...analysisOptions, policy });
+      setPlayCountingPolicy(policy);
+      setData(processedData);
+
+      if (currentProfileId) {
+        await updateProfile(currentProfileId, { streamingData: processedData, playCountingPolicy: policy });
+        await loadProfiles(); // Refresh profile summaries
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply the play-counting policy');
       console.error(err);
     }
   };
 
+  const handleEntityAliasesChange = async (aliases: EntityAliases) => {
+    try {
+      const processedData = processSpotifyData(rawData, { ...analysisOptions, aliases });
+      setEntityAliases(aliases);
+      setData(processedData);
+
+      if (currentProfileId) {
+        await updateProfile(currentProfileId, { streamingData: processedData, entityAliases: aliases });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update name aliases');
+      console.error(err);
+    }
+  };
+
+  const handleTimezoneSettingsChange = async (timezone: TimezoneSettings) => {
+    try {
+      const processedData = processSpotifyData(rawData, { ...analysisOptions, timezone });
+      setTimezoneSettings(timezone);
+      setData(processedData);
+
+      if (currentProfileId) {
+        await updateProfile(currentProfileId, { streamingData: processedData, timezoneSettings: timezone });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update timezone settings');
+      console.error(err);
+    }
+  };
+
+  const handleSessionGapChange = async (gapMinutes: number) => {
+    try {
+      const processedData = processSpotifyData(rawData, { ...analysisOptions, sessionGapMinutes: gapMinutes });
+      setSessionGapMinutes(gapMinutes);
+      setData(processedData);
+
+      if (currentProfileId) {
+        await updateProfile(currentProfileId, { streamingData: processedData, sessionGapMinutes: gapMinutes });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the session gap');
+      console.error(err);
+    }
+  };
+
+  const handleOfflineCorrectionChange = async (enabled: boolean) => {
+    try {
+      const processedData = processSpotifyData(rawData, { ...analysisOptions, correctOfflinePlays: enabled });
+      setCorrectOfflinePlays(enabled);
+      setData(processedData);
+
+      if (currentProfileId) {
+        await updateProfile(currentProfileId, { streamingData: processedData, correctOfflinePlays: enabled });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the offline correction');
+      console.error(err);
+    }
+  };
+
+  const handleDateRangeChange = async (range: DateRange) => {
+    setDateRange(range);
+    try {
+      if (currentProfileId) {
+        await updateProfile(currentProfileId, { dateRange: range });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the date range');
+      console.error(err);
+    }
+  };
+
+  const saveQuarantine = async (updatedQuarantine: QuarantinedRecord[]) => {
+    setQuarantine(updatedQuarantine);
+    if (currentProfileId) {
+      await updateProfile(currentProfileId, { quarantine: updatedQuarantine });
+    }
+  };
+
+  const handleDiscardRecords = (ids: string[]) => {
+    const discardedIds = new Set(ids);
+    saveQuarantine(quarantine.filter(item => !discardedIds.has(item.id)));
+  };
+
+  const handleUpdateQuarantinedRecord = (updated: QuarantinedRecord) => {
+    saveQuarantine(quarantine.map(item => item.id === updated.id ? updated : item));
+  };
+
   const handleReset = async () => {
     setData(null);
     setError(null);
     setRawData([]);
+    setImportProgress([]);
+    setMergeReport(null);
+    setQuarantine([]);
+    setImportBatches([]);
     // Clear current profile data
     if (currentProfileId) {
-      await updateProfile(currentProfileId, { streamingData: null });
+      await updateProfile(currentProfileId, { streamingData: null, quarantine: [], importBatches: [] });
       await loadProfiles(); // Refresh profile summaries
     }
   };
@@ -688,12 +525,35 @@ function App() {
 
   const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      const file = e.target.files[0];
-      if (file.name.endsWith('.json')) {
-        handleFileSelect(file, true);
+      const files = Array.from(e.target.files);
+      if (files.some(isSupportedImportFile)) {
+        handleFileSelect(files, true);
       } else {
-        setError('Please upload a JSON file.');
+        setError('Please upload JSON files or a Spotify data ZIP archive.');
       }
+      // Clear the input so the same files can be selected again
+      e.target.value = '';
+    }
+  };
+
+  const handleProfileSelected = async (profileId: string | null) => {
+    if (profileId) {
+      await loadProfiles();
+      await handleSwitchProfile(profileId);
+      return;
+    }
+
+    // The active profile was deleted, fall back to another one
+    const remaining = await getProfileSummaries();
+    const nextProfileId = remaining[0]?.id || (await createProfile('Personal Account')).id;
+    await loadProfiles();
+    await handleSwitchProfile(nextProfileId);
+  };
+
+  const handleProfileDataChanged = async (profileId: string) => {
+    await loadProfiles(); // Refresh profile summaries
+    if (profileId === currentProfileId) {
+      await loadProfileData(profileId);
     }
   };
 
@@ -821,6 +681,16 @@ function App() {
                           <span>Create New Profile</span>
                         </button>
                       )}
+                      <button
+                        onClick={() => {
+                          setShowProfileManager(true);
+                          setShowProfileDropdown(false);
+                        }}
+                        className="w-full flex items-center space-x-2 p-2 text-gray-300 hover:text-white hover:bg-gray-700 rounded-md transition-colors"
+                      >
+                        <Settings className="h-4 w-4" />
+                        <span>Manage Profiles & Imports</span>
+                      </button>
                     </div>
                   </div>
                 </div>
@@ -859,7 +729,8 @@ function App() {
                       type="file" 
                       ref={fileInputRef}
                       className="hidden" 
-                      accept=".json" 
+                      accept=".json,.zip" 
+                      multiple
                       onChange={handleFileInputChange}
                     />
                     <button
@@ -890,7 +761,21 @@ function App() {
           </div>
         )}
 
-        {loading ? (
+        {importProgress.length > 0 && (
+          <ImportProgress
+            progress={importProgress}
+            mergeReport={mergeReport}
+            profileName={getCurrentProfile()?.name}
+            isComplete={!loading}
+            onDismiss={() => {
+              setImportProgress([]);
+              setMergeReport(null);
+            }}
+            onCancel={handleCancelImport}
+          />
+        )}
+
+        {loading && importProgress.length > 0 ? null : loading ? (
           <div className="flex flex-col items-center justify-center h-96">
             <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-green-500 mb-4"></div>
             <p className="text-xl">
@@ -899,13 +784,35 @@ function App() {
           </div>
         ) : data ? (
           <Dashboard 
-            data={data} 
-            onAddMoreData={(file) => handleFileSelect(file, true)}
+            data={displayData || data} 
+            contentKind={contentKind}
+            onContentKindChange={rawData.length > 0 ? setContentKind : undefined}
+            onAddMoreData={(files) => handleFileSelect(files, true)}
             hasExistingData={rawData.length > 0}
+            quarantine={quarantine}
+            onReadmitRecords={rawData.length > 0 || quarantine.length > 0 ? handleReadmitRecords : undefined}
+            onDiscardRecords={handleDiscardRecords}
+            onUpdateQuarantinedRecord={handleUpdateQuarantinedRecord}
+            playCountingPolicy={playCountingPolicy}
+            onPlayCountingPolicyChange={rawData.length > 0 ? handleApplyPlayCountingPolicy : undefined}
+            entityAliases={entityAliases}
+            onEntityAliasesChange={rawData.length > 0 ? handleEntityAliasesChange : undefined}
+            timezoneSettings={timezoneSettings}
+            onTimezoneSettingsChange={rawData.length > 0 ? handleTimezoneSettingsChange : undefined}
+            sessionGapMinutes={sessionGapMinutes}
+            onSessionGapChange={rawData.length > 0 ? handleSessionGapChange : undefined}
+            correctOfflinePlays={correctOfflinePlays}
+            onOfflineCorrectionChange={rawData.length > 0 ? handleOfflineCorrectionChange : undefined}
+            dateRange={dateRange}
+            historyYears={historyYears}
+            onDateRangeChange={rawData.length > 0 ? handleDateRangeChange : undefined}
+            historyData={rawData}
+            profiles={profiles}
+            currentProfileId={currentProfileId}
           />
         ) : (
           <FileUploader 
-            onFileSelect={handleFileSelect} 
+            onFilesSelect={handleFileSelect} 
           />
         )}
       </main>
@@ -916,6 +823,28 @@ function App() {
         </div>
       </footer>
 
+      {/* Profile Manager Modal */}
+      {showProfileManager && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-end mb-2">
+              <button
+                onClick={() => setShowProfileManager(false)}
+                className="text-gray-400 hover:text-white transition-colors"
+                title="Close"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+            <ProfileSelector
+              currentProfileId={currentProfileId}
+              onProfileSelected={handleProfileSelected}
+              onProfileDataChanged={handleProfileDataChanged}
+            />
+          </div>
+        </div>
+      )}
+
       {/* API Settings Modal */}
       {showApiSettings && currentProfileId && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
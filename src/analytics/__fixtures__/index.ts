@@ -0,0 +1,110 @@
+import { StreamingEntry, AccountStreamingEntry } from '../types';
+
+/**
+ * Streaming history fixtures for the analytics engine tests
+ * Rows follow the extended streaming history export; timestamps are UTC.
+ */
+
+/**
+ * An extended history row of a music track, with playback details
+ */
+export const createEntry = (overrides: Partial<StreamingEntry> = {}): StreamingEntry => ({
+  ts: '2024-03-04T12:00:00Z',
+  ms_played: 200000,
+  master_metadata_track_name: 'Song',
+  master_metadata_album_artist_name: 'Artist',
+  master_metadata_album_album_name: 'Album',
+  spotify_track_uri: 'spotify:track:song',
+  platform: 'Android OS 14 API 34 (Google, Pixel 8)',
+  conn_country: 'DE',
+  reason_start: 'trackdone',
+  reason_end: 'trackdone',
+  shuffle: false,
+  skipped: false,
+  offline: false,
+  offline_timestamp: null,
+  content_kind: 'track',
+  ...overrides
+});
+
+/**
+ * A podcast episode row
+ */
+export const createEpisode = (overrides: Partial<StreamingEntry> = {}): StreamingEntry => createEntry({
+  master_metadata_track_name: '',
+  master_metadata_album_artist_name: '',
+  master_metadata_album_album_name: undefined,
+  spotify_track_uri: null,
+  episode_name: 'Episode 1',
+  episode_show_name: 'The Show',
+  spotify_episode_uri: 'spotify:episode:one',
+  content_kind: 'episode',
+  ...overrides
+});
+
+/**
+ * One listening day of an extended history export: an evening session, a skip and a
+ * late-night session after a long pause
+ */
+export const EXTENDED_HISTORY: StreamingEntry[] = [
+  createEntry({
+    ts: '2024-03-04T18:03:20Z',
+    ms_played: 200000,
+    master_metadata_track_name: 'Blue',
+    master_metadata_album_artist_name: 'Ocean',
+    master_metadata_album_album_name: 'Colors',
+    spotify_track_uri: 'spotify:track:blue',
+    reason_start: 'clickrow',
+    shuffle: true
+  }),
+  createEntry({
+    ts: '2024-03-04T18:06:40Z',
+    ms_played: 200000,
+    master_metadata_track_name: 'Blue - Remastered 2011',
+    master_metadata_album_artist_name: 'Ocean',
+    master_metadata_album_album_name: 'Colors',
+    spotify_track_uri: 'spotify:track:blue-remaster'
+  }),
+  createEntry({
+    ts: '2024-03-04T18:06:50Z',
+    ms_played: 10000,
+    master_metadata_track_name: 'Red',
+    master_metadata_album_artist_name: 'Fire',
+    master_metadata_album_album_name: 'Heat',
+    spotify_track_uri: 'spotify:track:red',
+    reason_end: 'fwdbtn',
+    skipped: true
+  }),
+  createEntry({
+    ts: '2024-03-04T18:10:10Z',
+    ms_played: 200000,
+    master_metadata_track_name: 'Green',
+    master_metadata_album_artist_name: 'Ocean',
+    master_metadata_album_album_name: 'Colors',
+    spotify_track_uri: 'spotify:track:green',
+    reason_start: 'fwdbtn'
+  }),
+  createEntry({
+    ts: '2024-03-04T23:03:20Z',
+    ms_played: 200000,
+    master_metadata_track_name: 'Blue',
+    master_metadata_album_artist_name: 'Ocean',
+    master_metadata_album_album_name: 'Colors',
+    spotify_track_uri: 'spotify:track:blue',
+    offline: true
+  }),
+  createEpisode({
+    ts: '2024-03-04T23:53:20Z',
+    ms_played: 1800000,
+    reason_end: 'endplay'
+  })
+];
+
+/**
+ * Rows of the basic account data export (StreamingHistory_music_N.json and _podcast_N.json)
+ */
+export const ACCOUNT_HISTORY: AccountStreamingEntry[] = [
+  { endTime: '2019-03-04 12:34', artistName: 'Ocean', trackName: 'Blue', msPlayed: 200000 },
+  { endTime: '2019-03-04 12:38', artistName: 'Fire', trackName: 'Red', msPlayed: 5000 },
+  { endTime: '2019-03-04 20:00', podcastName: 'The Show', episodeName: 'Episode 1', msPlayed: 1800000 }
+];
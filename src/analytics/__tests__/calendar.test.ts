@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { groupListeningDays, getCalendarWeeks, getHeatLevel } from '../calendar';
+import { createLocalTimeResolver } from '../timezone';
+import { EXTENDED_HISTORY } from '../__fixtures__';
+
+const localTime = createLocalTimeResolver({ timeZone: 'UTC', overrides: [] });
+
+describe('groupListeningDays', () => {
+  it('counts plays and minutes under the play-counting policy', () => {
+    const day = groupListeningDays(EXTENDED_HISTORY, { localTime }).get('2024-03-04');
+
+    // The 10 second skip is not a play, but its time still counts
+    expect(day).toMatchObject({ plays: 5, minutes: 43.5, uniqueArtists: 1 });
+    expect(day?.entries).toHaveLength(6);
+  });
+
+  it('leaves time from short rows out when the policy says so', () => {
+    const policy = { minMsPlayed: 30000, minTrackFraction: 0, completedReasons: [], countShortPlayTime: false };
+    const day = groupListeningDays(EXTENDED_HISTORY, { localTime, policy }).get('2024-03-04');
+
+    expect(day).toMatchObject({ plays: 5, minutes: 43.3 });
+  });
+
+  it('picks the top track by canonical entity', () => {
+    const day = groupListeningDays(EXTENDED_HISTORY, { localTime }).get('2024-03-04');
+
+    // "Blue" and "Blue - Remastered 2011" are one track
+    expect(day?.topTrack).toEqual({ id: 'track:artist:ocean::blue', name: 'Blue', artist: 'Ocean', plays: 3 });
+  });
+
+  it('applies the profile\'s aliases', () => {
+    const aliases = { merges: { 'track:artist:ocean::blue': 'track:artist:ocean::green' }, splits: [] };
+    const day = groupListeningDays(EXTENDED_HISTORY, { localTime, aliases }).get('2024-03-04');
+
+    expect(day?.topTrack).toMatchObject({ id: 'track:artist:ocean::green', plays: 4 });
+  });
+
+  it('groups days by the listener\'s local date', () => {
+    const tokyo = createLocalTimeResolver({ timeZone: 'Asia/Tokyo', overrides: [] });
+    const days = groupListeningDays(EXTENDED_HISTORY, { localTime: tokyo });
+
+    expect(Array.from(days.keys())).toEqual(['2024-03-05']);
+  });
+});
+
+describe('calendar layout', () => {
+  it('lays a year out in Sunday-first weeks', () => {
+    const weeks = getCalendarWeeks(2024);
+
+    expect(weeks).toHaveLength(53);
+    expect(weeks[0]).toEqual([null, '2024-01-01', '2024-01-02', '2024-01-03', '2024-01-04', '2024-01-05', '2024-01-06']);
+    expect(weeks.flat().filter(Boolean)).toHaveLength(366);
+  });
+
+  it('scales heat levels against the busiest day', () => {
+    expect([0, 1, 50, 100].map(value => getHeatLevel(value, 100))).toEqual([0, 1, 2, 4]);
+    expect(getHeatLevel(5, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { createOutcomeClassifier, analyzeCompletion } from '../completion';
+import { createEntityNames } from '../entityNames';
+import { createEntry } from '../__fixtures__';
+
+const skip = (ms: number) => createEntry({ ms_played: ms, reason_end: 'fwdbtn', skipped: true });
+
+describe('createOutcomeClassifier', () => {
+  it('treats a lone short skip as a skip', () => {
+    const entry = createEntry({ ms_played: 3000, reason_end: 'fwdbtn', skipped: null });
+    expect(createOutcomeClassifier([entry])(entry)).toEqual({ skipped: true, completed: false });
+  });
+
+  it('never completes a track that was only ever skipped', () => {
+    const skips = Array.from({ length: 12 }, (_, index) => skip(4500 + index * 100));
+    const getOutcome = createOutcomeClassifier(skips);
+
+    expect(skips.map(entry => getOutcome(entry))).toEqual(skips.map(() => ({ skipped: true, completed: false })));
+  });
+
+  it('lets skip signals win over the length rule', () => {
+    const full = createEntry({ ms_played: 200000, reason_end: 'endplay' });
+    const backAtTheEnd = createEntry({ ms_played: 199000, reason_end: 'backbtn' });
+    const getOutcome = createOutcomeClassifier([full, backAtTheEnd]);
+
+    expect(getOutcome(backAtTheEnd)).toEqual({ skipped: true, completed: false });
+  });
+
+  it('completes plays that reach most of a reliable length', () => {
+    const finished = createEntry({ ms_played: 200000, reason_end: 'trackdone' });
+    const nearlyFinished = createEntry({ ms_played: 185000, reason_end: 'endplay' });
+    const stopped = createEntry({ ms_played: 60000, reason_end: 'endplay' });
+    const getOutcome = createOutcomeClassifier([finished, nearlyFinished, stopped]);
+
+    expect(getOutcome(finished)).toEqual({ skipped: false, completed: true });
+    expect(getOutcome(nearlyFinished)).toEqual({ skipped: false, completed: true });
+    expect(getOutcome(stopped)).toEqual({ skipped: false, completed: false });
+  });
+
+  it('needs more than one observation before using the length', () => {
+    const stopped = createEntry({ ms_played: 60000, reason_end: 'endplay' });
+    expect(createOutcomeClassifier([stopped])(stopped)).toEqual({ skipped: false, completed: false });
+  });
+
+  it('ignores rows without playback details', () => {
+    const basic = createEntry({ data_fidelity: 'basic' });
+    expect(createOutcomeClassifier([basic])(basic)).toBeNull();
+  });
+});
+
+describe('analyzeCompletion', () => {
+  it('ranks a track that is always skipped as most skipped', () => {
+    const skips = Array.from({ length: 12 }, () => skip(5000));
+    const names = createEntityNames(skips);
+    const getOutcome = createOutcomeClassifier(skips);
+    const stats = analyzeCompletion(
+      skips.map(entry => ({
+        month: '2024-03',
+        artistId: names.getArtistId(entry),
+        trackId: names.getTrackId(entry),
+        outcome: getOutcome(entry)
+      })),
+      names
+    );
+
+    expect(stats.most_skipped_tracks).toMatchObject([{ name: 'Song', starts: 12, skip_rate: 100, completion_rate: 0 }]);
+    expect(stats.always_finished_artists).toMatchObject([{ name: 'Artist', completion_rate: 0 }]);
+    expect(stats.skip_rate_trend).toEqual({ months: ['2024-03'], skip_rate: [100], completion_rate: [0] });
+  });
+});
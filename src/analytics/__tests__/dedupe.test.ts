@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { removeDuplicates, mergeStreamingDataWithReport, getImportBatchIds } from '../dedupe';
+import { EXTENDED_HISTORY, createEntry } from '../__fixtures__';
+
+describe('dedupe', () => {
+  it('keeps distinct plays', () => {
+    expect(removeDuplicates(EXTENDED_HISTORY)).toHaveLength(EXTENDED_HISTORY.length);
+  });
+
+  it('drops the same play from an overlapping export', () => {
+    const shifted = EXTENDED_HISTORY.map(entry => ({
+      ...entry,
+      ts: new Date(new Date(entry.ts).getTime() + 2000).toISOString()
+    }));
+    const { data, report } = mergeStreamingDataWithReport(EXTENDED_HISTORY, shifted);
+
+    expect(data).toHaveLength(EXTENDED_HISTORY.length);
+    expect(report).toMatchObject({ added: 0, duplicates: EXTENDED_HISTORY.length });
+  });
+
+  it('replaces an API-synced approximation with the export row of the same play', () => {
+    const synced = createEntry({ ts: '2024-03-04T11:57:00Z', platform: 'api_sync', ms_played: 200000 });
+    const exported = createEntry({ ts: '2024-03-04T12:00:00Z', ms_played: 195000 });
+    const { data, report } = mergeStreamingDataWithReport([synced], [exported]);
+
+    expect(data).toEqual([exported]);
+    expect(report.replaced).toEqual([{ removed: synced, replacement: exported }]);
+  });
+
+  it('matches account data rows to extended rows within a minute', () => {
+    const basic = createEntry({ ts: '2024-03-04T12:00:00Z', spotify_track_uri: undefined, data_fidelity: 'basic' });
+    const extended = createEntry({ ts: '2024-03-04T12:00:40Z' });
+    const { data } = mergeStreamingDataWithReport([basic], [extended]);
+
+    expect(data).toEqual([extended]);
+  });
+
+  it('keeps quick restarts of a track within one export', () => {
+    const restarts = [
+      createEntry({ ts: '2024-03-04T12:00:00Z', ms_played: 2000, reason_end: 'backbtn' }),
+      createEntry({ ts: '2024-03-04T12:00:02Z', ms_played: 2000, reason_end: 'backbtn' })
+    ];
+
+    expect(removeDuplicates(restarts)).toHaveLength(2);
+    expect(removeDuplicates([...restarts, restarts[0]])).toHaveLength(2);
+  });
+
+  it('only applies the tolerance between different imports', () => {
+    const first = createEntry({ ts: '2024-03-04T12:00:00Z', ms_played: 2000, import_batch_ids: ['first'] });
+    const restart = createEntry({ ts: '2024-03-04T12:00:02Z', ms_played: 2000, import_batch_ids: ['first'] });
+    const overlap = createEntry({ ts: '2024-03-04T12:00:01Z', ms_played: 2000, import_batch_ids: ['second'] });
+
+    expect(mergeStreamingDataWithReport([first], [restart]).data).toHaveLength(2);
+    expect(mergeStreamingDataWithReport([first], [overlap]).data).toHaveLength(1);
+  });
+
+  it('keeps plays of different tracks at the same time', () => {
+    const other = createEntry({ spotify_track_uri: 'spotify:track:other', master_metadata_track_name: 'Other' });
+    expect(removeDuplicates([createEntry(), other])).toHaveLength(2);
+  });
+
+  it('records every import batch that contained a play', () => {
+    const first = createEntry({ import_batch_ids: ['first'] });
+    const second = createEntry({ ts: '2024-03-04T12:00:02Z', import_batch_ids: ['second'] });
+    const { data } = mergeStreamingDataWithReport([first], [second]);
+
+    expect(data).toHaveLength(1);
+    expect(getImportBatchIds(data[0])).toEqual(['first', 'second']);
+  });
+
+  it('keeps the batches of a replaced row', () => {
+    const synced = createEntry({ ts: '2024-03-04T11:57:00Z', platform: 'api_sync', ms_played: 200000, import_batch_id: 'sync' });
+    const exported = createEntry({ ts: '2024-03-04T12:00:00Z', ms_played: 195000, import_batch_ids: ['export'] });
+    const { data } = mergeStreamingDataWithReport([synced], [exported]);
+
+    expect(data).toEqual([{ ...exported, import_batch_ids: ['export', 'sync'] }]);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { detectStreamingDataFormat, normalizeStreamingData, getContentKind } from '../normalize';
+import { validateStreamingEntry } from '../validation';
+import {
+  EMPTY_ENTITY_ALIASES,
+  createEntityNames,
+  mergeEntities,
+  splitEntityVariant,
+  stripNameSuffixes
+} from '../entityNames';
+import { ACCOUNT_HISTORY, EXTENDED_HISTORY, createEntry } from '../__fixtures__';
+
+describe('normalizeStreamingData', () => {
+  // Account data times must not depend on the timezone of the machine that imports them
+  const machineTimeZone = process.env.TZ;
+  beforeAll(() => {
+    process.env.TZ = 'America/New_York';
+  });
+  afterAll(() => {
+    if (machineTimeZone === undefined) {
+      delete process.env.TZ;
+    } else {
+      process.env.TZ = machineTimeZone;
+    }
+  });
+
+  it('detects the export format', () => {
+    expect(detectStreamingDataFormat(EXTENDED_HISTORY)).toBe('extended');
+    expect(detectStreamingDataFormat(ACCOUNT_HISTORY)).toBe('account');
+    expect(detectStreamingDataFormat([{ foo: 1 }])).toBe('unknown');
+    expect(detectStreamingDataFormat([])).toBe('unknown');
+  });
+
+  it('converts account data rows to basic streaming entries', () => {
+    const [track, , episode] = normalizeStreamingData(ACCOUNT_HISTORY);
+
+    expect(track).toEqual({
+      ts: '2019-03-04T12:34:00.000Z',
+      ms_played: 200000,
+      master_metadata_track_name: 'Blue',
+      master_metadata_album_artist_name: 'Ocean',
+      content_kind: 'track',
+      data_fidelity: 'basic'
+    });
+    expect(episode.content_kind).toBe('episode');
+    expect(episode.episode_show_name).toBe('The Show');
+  });
+
+  it('passes account data rows that aren\'t objects through to validation', () => {
+    const [track, empty, number] = normalizeStreamingData([ACCOUNT_HISTORY[0], null, 5]);
+
+    expect(track.data_fidelity).toBe('basic');
+    expect(empty).toBeNull();
+    expect(number).toBe(5);
+    expect(validateStreamingEntry(empty)).toMatchObject([{ reason: 'not_an_object' }]);
+    expect(validateStreamingEntry(number)).toMatchObject([{ reason: 'not_an_object' }]);
+  });
+
+  it('tags extended rows with their content kind', () => {
+    const rows = EXTENDED_HISTORY.map(entry => ({ ...entry, content_kind: undefined }));
+    expect(normalizeStreamingData(rows).map(getContentKind)).toEqual(['track', 'track', 'track', 'track', 'track', 'episode']);
+    expect(getContentKind(createEntry({ content_kind: undefined, audiobook_title: 'Book' }))).toBe('audiobook');
+  });
+});
+
+describe('entity names', () => {
+  it('strips remaster, live and featuring suffixes', () => {
+    expect(stripNameSuffixes('Song - Remastered 2011')).toBe('Song');
+    expect(stripNameSuffixes('Song (Live at Wembley) (feat. Someone)')).toBe('Song');
+    expect(stripNameSuffixes('Live')).toBe('Live');
+  });
+
+  it('resolves spelling variants to one canonical ID named after the most common spelling', () => {
+    const entries = [
+      createEntry({ master_metadata_track_name: 'Café' }),
+      createEntry({ master_metadata_track_name: 'Café' }),
+      createEntry({ master_metadata_track_name: 'CAFE (feat. X)' })
+    ];
+    const names = createEntityNames(entries);
+    const ids = entries.map(names.getTrackId);
+
+    expect(new Set(ids).size).toBe(1);
+    expect(names.getName(ids[0] as string)).toBe('Café');
+    expect(names.getArtistOf(ids[0] as string)).toBe('artist:artist');
+  });
+
+  it('merges entities through aliases and splits variants back out', () => {
+    const entries = [
+      createEntry({ master_metadata_track_name: 'Blue' }),
+      createEntry({ master_metadata_track_name: 'Blue - Live' }),
+      createEntry({ master_metadata_track_name: 'Green' })
+    ];
+    const merged = mergeEntities(EMPTY_ENTITY_ALIASES, ['track:artist:artist::green'], 'track:artist:artist::blue');
+    const mergedNames = createEntityNames(entries, merged);
+    expect(new Set(entries.map(mergedNames.getTrackId))).toEqual(new Set(['track:artist:artist::blue']));
+
+    const live = mergedNames.getVariants('track:artist:artist::blue').find(variant => variant.name === 'Blue - Live');
+    const split = splitEntityVariant(merged, 'track:artist:artist::blue', live!);
+    const splitNames = createEntityNames(entries, split);
+    expect(splitNames.getTrackId(entries[1])).toBe('track:artist:artist::blue - live');
+    expect(splitNames.getTrackId(entries[2])).toBe('track:artist:artist::blue');
+  });
+});
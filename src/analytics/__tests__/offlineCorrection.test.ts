@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { correctOfflineTimestamps, getCorrectedTimestamp, parseOfflineTimestamp } from '../offlineCorrection';
+import { createEntry } from '../__fixtures__';
+
+// The device played the track at 09:00 and synced at 18:00
+const PLAYED_AT = Date.parse('2024-03-04T09:00:00Z');
+const offlineEntry = (offlineTimestamp: string | number | null) => createEntry({
+  ts: '2024-03-04T18:00:00Z',
+  ms_played: 180000,
+  offline: true,
+  offline_timestamp: offlineTimestamp
+});
+
+describe('offline correction', () => {
+  it('reads offline_timestamp in seconds and milliseconds', () => {
+    expect(parseOfflineTimestamp(PLAYED_AT / 1000)).toBe(PLAYED_AT);
+    expect(parseOfflineTimestamp(PLAYED_AT)).toBe(PLAYED_AT);
+    expect(parseOfflineTimestamp(String(PLAYED_AT))).toBe(PLAYED_AT);
+    expect(parseOfflineTimestamp(0)).toBeNull();
+    expect(parseOfflineTimestamp(null)).toBeNull();
+  });
+
+  it('moves an offline play to when it ended on the device', () => {
+    expect(getCorrectedTimestamp(offlineEntry(PLAYED_AT / 1000))).toBe('2024-03-04T09:03:00Z');
+  });
+
+  it('distrusts timestamps after the sync or from a broken clock', () => {
+    expect(getCorrectedTimestamp(offlineEntry(Date.parse('2024-03-05T09:00:00Z')))).toBeNull();
+    expect(getCorrectedTimestamp(offlineEntry(Date.parse('1970-01-02T00:00:00Z')))).toBeNull();
+    expect(getCorrectedTimestamp(offlineEntry(Date.parse('2023-01-01T00:00:00Z')))).toBeNull();
+  });
+
+  it('corrects and counts offline entries', () => {
+    const entries = [offlineEntry(PLAYED_AT), offlineEntry(1), createEntry()];
+    const { entries: corrected, report } = correctOfflineTimestamps(entries);
+
+    expect(corrected.map(entry => entry.ts)).toEqual(['2024-03-04T09:03:00Z', '2024-03-04T18:00:00Z', '2024-03-04T12:00:00Z']);
+    expect(report).toEqual({ enabled: true, offline_entries: 2, corrected: 1, implausible: 1 });
+  });
+
+  it('only counts corrections when turned off', () => {
+    const entries = [offlineEntry(PLAYED_AT)];
+    const { entries: unchanged, report } = correctOfflineTimestamps(entries, false);
+
+    expect(unchanged).toEqual(entries);
+    expect(report).toEqual({ enabled: false, offline_entries: 1, corrected: 1, implausible: 0 });
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { detectSessions, summarizeSessions } from '../sessions';
+import { createLocalTimeResolver } from '../timezone';
+import { EXTENDED_HISTORY } from '../__fixtures__';
+
+const localTime = createLocalTimeResolver({ timeZone: 'UTC', overrides: [] });
+
+describe('sessions', () => {
+  it('splits plays at pauses longer than the gap', () => {
+    const sessions = detectSessions(EXTENDED_HISTORY, { localTime });
+
+    expect(sessions).toHaveLength(2);
+    expect(sessions[0]).toMatchObject({
+      start: '2024-03-04T18:00:00.000Z',
+      end: '2024-03-04T18:10:10.000Z',
+      durationMinutes: 10.17,
+      plays: 4
+    });
+    expect(sessions[0].entries).toHaveLength(4);
+    expect(sessions[1].startLocal.hour).toBe(23);
+  });
+
+  it('counts only rows the play classifier accepts', () => {
+    const sessions = detectSessions(EXTENDED_HISTORY, { localTime, isPlay: entry => !entry.skipped });
+    expect(sessions[0].plays).toBe(3);
+  });
+
+  it('summarizes session lengths', () => {
+    const sessions = detectSessions(EXTENDED_HISTORY, { localTime, gapMinutes: 10 });
+    const summary = summarizeSessions(sessions, 10);
+
+    expect(summary.total_sessions).toBe(3);
+    expect(summary.gap_minutes).toBe(10);
+    expect(summary.length_distribution?.['< 15 min']).toBe(2);
+    expect(summary.length_distribution?.['30-60 min']).toBe(1);
+  });
+
+  it('returns no sessions for an empty history', () => {
+    expect(detectSessions([])).toEqual([]);
+    expect(summarizeSessions([]).total_sessions).toBe(0);
+  });
+});
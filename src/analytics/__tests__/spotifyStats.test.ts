@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeSpotifyData } from '../spotifyStats';
+import { EXTENDED_HISTORY, createEntry } from '../__fixtures__';
+
+const UTC = { timeZone: 'UTC', overrides: [] };
+
+describe('analyzeSpotifyData', () => {
+  it('counts plays and listening time under the default policy', () => {
+    const { stats } = analyzeSpotifyData(EXTENDED_HISTORY, { timezone: UTC });
+
+    // The 10 second skip is not a play, but its time still counts
+    expect(stats.total_stats.total_tracks_played).toBe(5);
+    expect(stats.total_stats.total_listening_minutes).toBe(43.5);
+    expect(stats.content_breakdown).toEqual({
+      track: { plays: 4, hours: 0.23 },
+      episode: { plays: 1, hours: 0.5 },
+      audiobook: { plays: 0, hours: 0 }
+    });
+  });
+
+  it('merges name variants into one entity in the top lists', () => {
+    const { stats } = analyzeSpotifyData(EXTENDED_HISTORY, { timezone: UTC });
+
+    expect(stats.top_content.top_tracks).toEqual({ Blue: 3, Green: 1 });
+    expect(stats.top_content.top_artists).toEqual({ Ocean: 4 });
+    expect(stats.total_stats.unique_tracks).toBe(2);
+  });
+
+  it('applies a per-profile alias table', () => {
+    const aliases = { merges: { 'track:artist:ocean::green': 'track:artist:ocean::blue' }, splits: [] };
+    const { stats } = analyzeSpotifyData(EXTENDED_HISTORY, { timezone: UTC, aliases });
+
+    expect(stats.top_content.top_tracks).toEqual({ Blue: 4 });
+  });
+
+  it('follows the play-counting policy', () => {
+    const policy = { minMsPlayed: 0, minTrackFraction: 0, completedReasons: ['trackdone'], countShortPlayTime: false };
+    const { stats } = analyzeSpotifyData(EXTENDED_HISTORY, { timezone: UTC, policy });
+
+    expect(stats.total_stats.total_tracks_played).toBe(6);
+    expect(stats.top_content.top_artists).toEqual({ Ocean: 4, Fire: 1 });
+  });
+
+  it('rates skips, shuffles and offline plays over every playback start', () => {
+    const { stats } = analyzeSpotifyData(EXTENDED_HISTORY, { timezone: UTC });
+
+    expect(stats.behavior_stats).toEqual({ skip_rate: 16.67, offline_rate: 16.67, shuffle_rate: 16.67 });
+  });
+
+  it('leaves API-synced rows out of playback details', () => {
+    // Rows synced before reasons were left unset still carry made-up ones
+    const synced = createEntry({ ts: '2024-03-05T10:00:00Z', platform: 'api_sync', reason_start: 'clickrow', reason_end: 'endplay' });
+    const { stats } = analyzeSpotifyData([...EXTENDED_HISTORY, synced], { timezone: UTC });
+
+    expect(stats.total_stats.total_tracks_played).toBe(6);
+    expect(stats.behavior_stats.skip_rate).toBe(16.67);
+    expect(stats.platform_stats).toEqual({ 'Android Phone': 6 });
+    expect(stats.playback_flow?.total_starts).toBe(6);
+    expect(stats.devices?.devices.map(device => device.name)).toEqual(['Google Pixel 8']);
+    expect(stats.completion_stats?.skip_rate_trend.months).toEqual(['2024-03']);
+  });
+
+  it('limits the statistics to one kind of content', () => {
+    const result = analyzeSpotifyData(EXTENDED_HISTORY, { timezone: UTC, contentKind: 'episode' });
+
+    expect(result.stats.total_stats.total_tracks_played).toBe(1);
+    expect(result.stats.podcast_stats?.top_shows).toEqual({ 'The Show': 0.5 });
+    expect(result.rawData).toHaveLength(1);
+  });
+
+  it('computes hours and dates in the listener\'s timezone', () => {
+    const utc = analyzeSpotifyData(EXTENDED_HISTORY, { timezone: UTC });
+    const newYork = analyzeSpotifyData(EXTENDED_HISTORY, { timezone: { timeZone: 'America/New_York', overrides: [] } });
+
+    expect(utc.stats.listening_patterns.hourly_distribution).toEqual({ 18: 3, 23: 2 });
+    expect(newYork.stats.listening_patterns.hourly_distribution).toEqual({ 13: 3, 18: 2 });
+  });
+
+  it('splits listening into sessions at long pauses', () => {
+    const { stats } = analyzeSpotifyData(EXTENDED_HISTORY, { timezone: UTC });
+
+    expect(stats.session_stats?.total_sessions).toBe(2);
+    expect(analyzeSpotifyData(EXTENDED_HISTORY, { timezone: UTC, sessionGapMinutes: 10 }).stats.session_stats?.total_sessions).toBe(3);
+  });
+
+  it('limits the statistics to a date range', () => {
+    const data = [
+      ...EXTENDED_HISTORY,
+      createEntry({ ts: '2023-06-01T10:00:00Z', master_metadata_track_name: 'Old', spotify_track_uri: 'spotify:track:old' })
+    ];
+    const result = analyzeSpotifyData(data, { timezone: UTC, dateRange: { preset: 'year', start: '2023-01-01', end: '2023-12-31' } });
+
+    expect(result.stats.total_stats.total_tracks_played).toBe(1);
+    expect(result.stats.top_content.top_tracks).toEqual({ Old: 1 });
+    expect(result.stats.date_range).toEqual({ start: '2023-01-01', end: '2023-12-31' });
+    expect(result.rawData).toHaveLength(1);
+  });
+
+  it('judges completions against track lengths from the whole history', () => {
+    const data = [
+      createEntry({ ts: '2023-06-01T10:00:00Z', ms_played: 200000, reason_end: 'endplay' }),
+      createEntry({ ts: '2023-06-02T10:00:00Z', ms_played: 200000, reason_end: 'endplay' }),
+      createEntry({ ts: '2024-03-04T10:00:00Z', ms_played: 100000, reason_end: 'endplay' }),
+      createEntry({ ts: '2024-03-05T10:00:00Z', ms_played: 95000, reason_end: 'endplay' })
+    ];
+    const { stats } = analyzeSpotifyData(data, { timezone: UTC, dateRange: { preset: 'year', start: '2024-01-01', end: '2024-12-31' } });
+
+    expect(stats.completion_stats?.skip_rate_trend.completion_rate).toEqual([0]);
+  });
+
+  it('dates discoveries and favorites from the whole history under a date range', () => {
+    const data = [
+      ...Array.from({ length: 50 }, (_, day) => createEntry({ ts: new Date(Date.UTC(2023, 0, 1 + day, 10)).toISOString() })),
+      createEntry({ ts: '2024-03-04T10:00:00Z' })
+    ];
+    const { stats } = analyzeSpotifyData(data, { timezone: UTC, dateRange: { preset: 'year', start: '2024-01-01', end: '2024-12-31' } });
+
+    expect(stats.discovery?.months).toEqual(['2024-03']);
+    expect(stats.discovery?.new_artists).toEqual([0]);
+    expect(stats.discovery?.favorite_lag).toMatchObject([
+      { name: 'Artist', discovered: '2023-01-01', favorite: '2023-02-19', lag_days: 49, plays: 51 }
+    ]);
+  });
+
+  it('returns empty statistics for an empty history', () => {
+    const { stats } = analyzeSpotifyData([], { timezone: UTC });
+
+    expect(stats.total_stats.total_tracks_played).toBe(0);
+    expect(stats.behavior_stats.skip_rate).toBe(0);
+  });
+});
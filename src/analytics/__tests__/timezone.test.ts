@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { createLocalTimeResolver, createTimezoneOverride, getTimeZoneAt, getTimeZoneOffset } from '../timezone';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('timezone', () => {
+  it('converts UTC timestamps to local dates and hours', () => {
+    const localTime = createLocalTimeResolver({ timeZone: 'Asia/Tokyo', overrides: [] });
+
+    expect(localTime('2024-03-04T18:30:00Z')).toEqual({
+      date: '2024-03-05',
+      month: '2024-03',
+      year: 2024,
+      monthOfYear: 3,
+      hour: 3,
+      minute: 30,
+      dayOfWeek: 2
+    });
+  });
+
+  it('follows daylight saving time', () => {
+    expect(getTimeZoneOffset('Europe/Berlin', Date.parse('2024-01-15T12:00:00Z'))).toBe(HOUR_MS);
+    expect(getTimeZoneOffset('Europe/Berlin', Date.parse('2024-07-15T12:00:00Z'))).toBe(2 * HOUR_MS);
+
+    const localTime = createLocalTimeResolver({ timeZone: 'America/New_York', overrides: [] });
+    expect(localTime('2024-03-10T06:30:00Z').hour).toBe(1);
+    expect(localTime('2024-03-10T07:30:00Z').hour).toBe(3);
+  });
+
+  it('uses the latest override that covers a date', () => {
+    const settings = {
+      timeZone: 'Europe/Berlin',
+      overrides: [
+        createTimezoneOverride('2024-03-01', '2024-03-31', 'America/New_York'),
+        createTimezoneOverride('2024-03-10', '2024-03-12', 'Asia/Tokyo')
+      ]
+    };
+
+    expect(getTimeZoneAt(settings, '2024-02-28T12:00:00Z')).toBe('Europe/Berlin');
+    expect(getTimeZoneAt(settings, '2024-03-05T12:00:00Z')).toBe('America/New_York');
+    expect(getTimeZoneAt(settings, '2024-03-11T12:00:00Z')).toBe('Asia/Tokyo');
+    expect(createLocalTimeResolver(settings)('2024-03-11T12:00:00Z').hour).toBe(21);
+  });
+
+  it('falls back to UTC for an unknown timezone', () => {
+    expect(createLocalTimeResolver({ timeZone: 'Not/AZone', overrides: [] })('2024-03-04T18:30:00Z').hour).toBe(18);
+  });
+});
@@ -0,0 +1,121 @@
+import { StreamingEntry } from './types';
+import { getContentKind } from './normalize';
+import { PlayCountingPolicy, DEFAULT_PLAY_COUNTING_POLICY, createPlayClassifier, getCountedMs } from './playCounting';
+import { EntityAliases, createEntityNames } from './entityNames';
+import { LocalTime, createLocalTimeResolver } from './timezone';
+
+/**
+ * Group streaming history into calendar days for the listening heatmap
+ * Days are the listener's local dates. Minutes and plays follow the profile's play-counting policy,
+ * and artists and tracks are counted by canonical entity.
+ */
+export interface ListeningDay {
+  // YYYY-MM-DD
+  date: string;
+  plays: number;
+  minutes: number;
+  // Artists with at least one music play
+  uniqueArtists: number;
+  // Most played music track of the day, under its display name
+  topTrack: { id: string; name: string; artist: string; plays: number } | null;
+  // Every row of the day, in playback order
+  entries: StreamingEntry[];
+}
+
+export interface CalendarOptions {
+  policy?: PlayCountingPolicy;
+  aliases?: EntityAliases;
+  localTime?: (ts: string) => LocalTime;
+}
+
+export type CalendarMetric = 'minutes' | 'plays';
+
+export const CALENDAR_METRICS: { id: CalendarMetric; label: string }[] = [
+  { id: 'minutes', label: 'Minutes' },
+  { id: 'plays', label: 'Plays' }
+];
+
+// Color levels of a heatmap cell; level 0 is a day without listening
+export const CALENDAR_LEVELS = 5;
+
+/**
+ * Listening days by local date
+ */
+export const groupListeningDays = (entries: StreamingEntry[], options: CalendarOptions = {}): Map<string, ListeningDay> => {
+  const policy = options.policy || DEFAULT_PLAY_COUNTING_POLICY;
+  const isPlay = createPlayClassifier(entries, policy);
+  const localTime = options.localTime || createLocalTimeResolver();
+  const names = createEntityNames(entries, options.aliases);
+  const days = new Map<string, ListeningDay>();
+  const trackPlays = new Map<string, Map<string, number>>();
+  const artists = new Map<string, Set<string>>();
+
+  [...entries]
+    .sort((a, b) => a.ts.localeCompare(b.ts))
+    .forEach(entry => {
+      const date = localTime(entry.ts).date;
+      let day = days.get(date);
+      if (!day) {
+        day = { date, plays: 0, minutes: 0, uniqueArtists: 0, topTrack: null, entries: [] };
+        days.set(date, day);
+        trackPlays.set(date, new Map());
+        artists.set(date, new Set());
+      }
+
+      const counted = isPlay(entry);
+      day.entries.push(entry);
+      day.minutes += getCountedMs(entry, counted, policy) / (1000 * 60);
+      if (!counted) return;
+      day.plays++;
+
+      if (getContentKind(entry) !== 'track') return;
+      const artistId = names.getArtistId(entry);
+      const trackId = names.getTrackId(entry);
+      if (artistId) artists.get(date)!.add(artistId);
+      if (trackId) {
+        const tracks = trackPlays.get(date)!;
+        tracks.set(trackId, (tracks.get(trackId) || 0) + 1);
+      }
+    });
+
+  days.forEach(day => {
+    day.minutes = Number(day.minutes.toFixed(1));
+    day.uniqueArtists = artists.get(day.date)!.size;
+    const top = Array.from(trackPlays.get(day.date)!.entries())
+      .reduce<[string, number] | null>((best, track) => (!best || track[1] > best[1] ? track : best), null);
+    if (top) {
+      const artistId = names.getArtistOf(top[0]);
+      day.topTrack = { id: top[0], name: names.getName(top[0]), artist: artistId ? names.getName(artistId) : '', plays: top[1] };
+    }
+  });
+  return days;
+};
+
+/**
+ * The dates of a year as week columns starting on Sunday; days outside the year are null
+ */
+export const getCalendarWeeks = (year: number): (string | null)[][] => {
+  const weeks: (string | null)[][] = [];
+  const start = new Date(Date.UTC(year, 0, 1));
+  let week: (string | null)[] = Array(start.getUTCDay()).fill(null);
+
+  for (const day = start; day.getUTCFullYear() === year; day.setUTCDate(day.getUTCDate() + 1)) {
+    week.push(day.toISOString().slice(0, 10));
+    if (week.length === 7) {
+      weeks.push(week);
+      week = [];
+    }
+  }
+  if (week.length > 0) {
+    weeks.push([...week, ...Array(7 - week.length).fill(null)]);
+  }
+  return weeks;
+};
+
+/**
+ * Color level of a day, scaled against the busiest day shown
+ */
+export const getHeatLevel = (value: number, max: number): number => {
+  if (value <= 0 || max <= 0) return 0;
+  return Math.min(CALENDAR_LEVELS - 1, Math.ceil((value / max) * (CALENDAR_LEVELS - 1)));
+};
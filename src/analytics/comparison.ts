@@ -0,0 +1,84 @@
+import { SpotifyStats, StatDelta, RankingChange, PeriodComparison } from './types';
+
+/**
+ * Compare the statistics of two periods
+ * The first period is the baseline; changes describe how the second one differs from it.
+ */
+export const getStatDelta = (first: number, second: number): StatDelta => ({
+  first,
+  second,
+  change: Number((second - first).toFixed(2)),
+  change_percent: first !== 0 ? Number((((second - first) / first) * 100).toFixed(1)) : null
+});
+
+/**
+ * How a top list changed: entries of the second list in rank order, then those that dropped out
+ */
+export const compareRankings = (first: Record<string, number>, second: Record<string, number>): RankingChange[] => {
+  const rank = (counts: Record<string, number>) => new Map(
+    Object.entries(counts)
+      .sort((a, b) => b[1] - a[1])
+      .map(([name], index) => [name, index + 1])
+  );
+  const firstRanks = rank(first);
+  const secondRanks = rank(second);
+
+  const current: RankingChange[] = Array.from(secondRanks.entries()).map(([name, position]) => {
+    const previous = firstRanks.get(name) ?? null;
+    return {
+      name,
+      rank: position,
+      previous_rank: previous,
+      plays: second[name],
+      previous_plays: previous !== null ? first[name] : null,
+      status: previous === null ? 'new' : previous > position ? 'up' : previous < position ? 'down' : 'same'
+    };
+  });
+
+  const dropped: RankingChange[] = Array.from(firstRanks.entries())
+    .filter(([name]) => !secondRanks.has(name))
+    .map(([name, position]) => ({
+      name,
+      rank: null,
+      previous_rank: position,
+      plays: null,
+      previous_plays: first[name],
+      status: 'dropped'
+    }));
+
+  return [...current, ...dropped];
+};
+
+/**
+ * Compare totals, behavior rates and top lists of two periods
+ */
+export const comparePeriods = (first: SpotifyStats, second: SpotifyStats): PeriodComparison => {
+  const firstTotals = first.stats.total_stats;
+  const secondTotals = second.stats.total_stats;
+  const firstBehavior = first.stats.behavior_stats;
+  const secondBehavior = second.stats.behavior_stats;
+  const firstTop = first.stats.top_content;
+  const secondTop = second.stats.top_content;
+
+  return {
+    total_stats: {
+      total_listening_hours: getStatDelta(firstTotals.total_listening_hours, secondTotals.total_listening_hours),
+      total_tracks_played: getStatDelta(firstTotals.total_tracks_played, secondTotals.total_tracks_played),
+      unique_artists: getStatDelta(firstTotals.unique_artists, secondTotals.unique_artists),
+      unique_albums: getStatDelta(firstTotals.unique_albums, secondTotals.unique_albums),
+      unique_tracks: getStatDelta(firstTotals.unique_tracks, secondTotals.unique_tracks),
+      average_track_length_seconds: getStatDelta(firstTotals.average_track_length_seconds, secondTotals.average_track_length_seconds)
+    },
+    // Rates are percentages, so their change is in percentage points
+    behavior_stats: {
+      skip_rate: getStatDelta(firstBehavior.skip_rate, secondBehavior.skip_rate),
+      offline_rate: getStatDelta(firstBehavior.offline_rate, secondBehavior.offline_rate),
+      shuffle_rate: getStatDelta(firstBehavior.shuffle_rate, secondBehavior.shuffle_rate)
+    },
+    top_content: {
+      top_artists: compareRankings(firstTop.top_artists, secondTop.top_artists),
+      top_tracks: compareRankings(firstTop.top_tracks, secondTop.top_tracks),
+      top_albums: compareRankings(firstTop.top_albums, secondTop.top_albums)
+    }
+  };
+};
@@ -0,0 +1,176 @@
+import { StreamingEntry, CompletionEntry, CompletionStats } from './types';
+import { hasPlaybackDetails } from './normalize';
+import { getTrackKey } from './playCounting';
+import { EntityNames } from './entityNames';
+
+/**
+ * Skip and completion analytics per track and artist
+ * A playback start is skipped when Spotify flagged it or it ended on the forward or back
+ * button. Otherwise it is completed when it ran to the end or played nearly all of the track's
+ * inferred length, the longest play observed for the track. Only rows with playback details
+ * take part, since account data rows don't record how playback ended.
+ */
+export interface PlaybackOutcome {
+  skipped: boolean;
+  completed: boolean;
+}
+
+export interface CompletionCounts {
+  starts: number;
+  skips: number;
+  completions: number;
+}
+
+export interface CompletionRow {
+  // Local month (YYYY-MM)
+  month: string;
+  artistId: string | null;
+  trackId: string | null;
+  outcome: PlaybackOutcome | null;
+}
+
+// Share of the inferred track length that counts as finishing it
+export const COMPLETION_THRESHOLD = 0.9;
+
+// Fewer starts than this say little about a track or artist, so they aren't ranked
+export const MIN_STARTS_FOR_RANKING = 10;
+
+// Entries per ranking
+const RANKING_LIMIT = 10;
+
+const SKIP_REASONS = new Set(['fwdbtn', 'backbtn']);
+
+export interface InferredLength {
+  // Longest play of the track that wasn't a skip
+  ms: number;
+  observations: number;
+}
+
+const isExplicitSkip = (entry: StreamingEntry): boolean => {
+  return entry.skipped === true || SKIP_REASONS.has(entry.reason_end || '');
+};
+
+/**
+ * Infer each track's length as the longest play observed for it
+ * Skips don't count toward the length, so a track that was only ever skipped has none.
+ */
+export const inferMaxPlayedLengths = (entries: StreamingEntry[]): Map<string, InferredLength> => {
+  const lengths = new Map<string, InferredLength>();
+  for (const entry of entries) {
+    const key = getTrackKey(entry);
+    if (!key) continue;
+    const length = lengths.get(key) || { ms: 0, observations: 0 };
+    length.observations++;
+    if (!isExplicitSkip(entry)) {
+      length.ms = Math.max(length.ms, entry.ms_played || 0);
+    }
+    lengths.set(key, length);
+  }
+  return lengths;
+};
+
+/**
+ * Create a function that tells how a playback start ended
+ * @param entries - All rows of the profile, used to infer track lengths
+ * @returns The outcome, or null for rows without playback details
+ */
+export const createOutcomeClassifier = (entries: StreamingEntry[]): (entry: StreamingEntry) => PlaybackOutcome | null => {
+  const lengths = inferMaxPlayedLengths(entries);
+
+  return (entry: StreamingEntry) => {
+    if (!hasPlaybackDetails(entry)) return null;
+    if (isExplicitSkip(entry)) return { skipped: true, completed: false };
+    if (entry.reason_end === 'trackdone') return { skipped: false, completed: true };
+
+    // A length seen only once, or only in skips, says nothing about how long the track is
+    const key = getTrackKey(entry);
+    const length = key ? lengths.get(key) : undefined;
+    const reliable = !!length && length.observations > 1 && length.ms > 0;
+    return { skipped: false, completed: reliable && (entry.ms_played || 0) >= length.ms * COMPLETION_THRESHOLD };
+  };
+};
+
+export const emptyCompletionCounts = (): CompletionCounts => ({ starts: 0, skips: 0, completions: 0 });
+
+export const addOutcome = (counts: CompletionCounts, outcome: PlaybackOutcome) => {
+  counts.starts++;
+  counts.skips += outcome.skipped ? 1 : 0;
+  counts.completions += outcome.completed ? 1 : 0;
+};
+
+/**
+ * Skip and completion rates as percentages, or null without any starts
+ */
+export const getCompletionRates = (counts: CompletionCounts): { skipRate: number; completionRate: number } | null => {
+  if (counts.starts === 0) return null;
+  return {
+    skipRate: Number(((counts.skips / counts.starts) * 100).toFixed(2)),
+    completionRate: Number(((counts.completions / counts.starts) * 100).toFixed(2))
+  };
+};
+
+/**
+ * Rank tracks and artists by skips and completions, and trend the skip rate per month
+ * @param rows - Music rows with their outcomes
+ */
+export const analyzeCompletion = (
+  rows: CompletionRow[],
+  names: Pick<EntityNames, 'getName' | 'getArtistOf'>
+): CompletionStats => {
+  const byTrack = new Map<string, CompletionCounts>();
+  const byArtist = new Map<string, CompletionCounts>();
+  const byMonth = new Map<string, CompletionCounts>();
+
+  const add = (map: Map<string, CompletionCounts>, id: string, outcome: PlaybackOutcome) => {
+    let counts = map.get(id);
+    if (!counts) {
+      counts = emptyCompletionCounts();
+      map.set(id, counts);
+    }
+    addOutcome(counts, outcome);
+  };
+
+  rows.forEach(row => {
+    if (!row.outcome) return;
+    add(byMonth, row.month, row.outcome);
+    if (row.trackId) add(byTrack, row.trackId, row.outcome);
+    if (row.artistId) add(byArtist, row.artistId, row.outcome);
+  });
+
+  const toEntries = (map: Map<string, CompletionCounts>, withArtist: boolean): CompletionEntry[] => {
+    const entries: CompletionEntry[] = [];
+    map.forEach((counts, id) => {
+      const rates = getCompletionRates(counts);
+      if (!rates || counts.starts < MIN_STARTS_FOR_RANKING) return;
+      const artistId = withArtist ? names.getArtistOf(id) : null;
+      entries.push({
+        id,
+        name: names.getName(id),
+        artist: artistId ? names.getName(artistId) : undefined,
+        starts: counts.starts,
+        skip_rate: rates.skipRate,
+        completion_rate: rates.completionRate
+      });
+    });
+    return entries;
+  };
+
+  const months = Array.from(byMonth.keys()).sort();
+  const monthlyRates = months.map(month => getCompletionRates(byMonth.get(month) as CompletionCounts));
+
+  return {
+    // Ties go to the track skipped more often in absolute terms
+    most_skipped_tracks: toEntries(byTrack, true)
+      .filter(entry => entry.skip_rate > 0)
+      .sort((a, b) => b.skip_rate - a.skip_rate || b.starts - a.starts)
+      .slice(0, RANKING_LIMIT),
+    always_finished_artists: toEntries(byArtist, false)
+      .sort((a, b) => b.completion_rate - a.completion_rate || b.starts - a.starts)
+      .slice(0, RANKING_LIMIT),
+    skip_rate_trend: {
+      months,
+      skip_rate: monthlyRates.map(rates => rates?.skipRate ?? 0),
+      completion_rate: monthlyRates.map(rates => rates?.completionRate ?? 0)
+    }
+  };
+};
@@ -0,0 +1,83 @@
+import { StreamingEntry, DateBounds } from './types';
+import { LocalTime } from './timezone';
+
+/**
+ * Limit the statistics to a range of local dates
+ * Relative presets end at the last play of the history rather than today, since exports are
+ * usually analyzed some time after they were requested.
+ */
+export type DateRangePreset = 'all' | 'last-30-days' | 'year' | 'custom';
+
+export interface DateRange {
+  preset: DateRangePreset;
+  // First and last local day of a year or custom range (YYYY-MM-DD, inclusive); open when missing
+  start?: string;
+  end?: string;
+}
+
+export const ALL_TIME: DateRange = { preset: 'all' };
+
+// Days covered by the "last 30 days" preset
+export const RECENT_DAYS = 30;
+
+export const DATE_RANGE_PRESETS: { id: DateRangePreset; label: string }[] = [
+  { id: 'all', label: 'All time' },
+  { id: 'last-30-days', label: `Last ${RECENT_DAYS} days` },
+  { id: 'year', label: 'Year' },
+  { id: 'custom', label: 'Custom' }
+];
+
+export const isAllTime = (range?: DateRange | null): boolean => {
+  return !range || range.preset === 'all';
+};
+
+export const getYearRange = (year: number): DateRange => ({
+  preset: 'year',
+  start: `${year}-01-01`,
+  end: `${year}-12-31`
+});
+
+const addDays = (date: string, days: number): string => {
+  const time = new Date(`${date}T00:00:00Z`).getTime() + days * 24 * 60 * 60 * 1000;
+  return new Date(time).toISOString().slice(0, 10);
+};
+
+/**
+ * The first and last local date a range covers, or null when it covers everything
+ * @param lastDate - Local date of the last play in the history
+ */
+export const resolveDateRange = (range: DateRange | undefined, lastDate: string | null): DateBounds | null => {
+  if (!range || isAllTime(range)) return null;
+
+  if (range.preset === 'last-30-days') {
+    return lastDate ? { start: addDays(lastDate, -(RECENT_DAYS - 1)), end: lastDate } : null;
+  }
+
+  if (!range.start && !range.end) return null;
+  return {
+    start: range.start || '0000-01-01',
+    end: range.end || '9999-12-31'
+  };
+};
+
+/**
+ * Resolve a range against the entries it will filter
+ */
+export const getDateBounds = (
+  range: DateRange | undefined,
+  entries: StreamingEntry[],
+  localTime: (ts: string) => LocalTime
+): DateBounds | null => {
+  if (isAllTime(range)) return null;
+
+  const last = entries.reduce<StreamingEntry | null>(
+    (latest, entry) => !latest || new Date(entry.ts).getTime() > new Date(latest.ts).getTime() ? entry : latest,
+    null
+  );
+
+  return resolveDateRange(range, last ? localTime(last.ts).date : null);
+};
+
+export const isInDateBounds = (date: string, bounds: DateBounds | null): boolean => {
+  return !bounds || (date >= bounds.start && date <= bounds.end);
+};
@@ -0,0 +1,272 @@
+import { StreamingEntry } from './types';
+import { getContentKind, hasPlaybackDetails, isApproximateEntry } from './normalize';
+
+/**
+ * Recognise the same play across overlapping exports and API syncs
+ * Plays are matched on their Spotify URI (or names, for rows without one) and a timestamp
+ * tolerance window. When two rows describe the same play, the more authoritative one is kept:
+ * extended history rows over account data rows, and both over API-synced approximations.
+ * The tolerance only applies between different sources; within one export a row is only a
+ * duplicate if it is identical, so quick restarts of a track stay separate plays.
+ */
+export interface DedupOptions {
+  // Largest difference between the timestamps (and play times) of the same play in two exports
+  toleranceMs: number;
+}
+
+export const DEFAULT_DEDUP_OPTIONS: DedupOptions = {
+  toleranceMs: 5000
+};
+
+export type DedupOutcome = 'added' | 'duplicate' | 'replaced';
+
+export interface MergeReplacement {
+  removed: StreamingEntry;
+  replacement: StreamingEntry;
+}
+
+export interface MergeReport {
+  // Rows that were new
+  added: number;
+  // Rows dropped because a row at least as authoritative was already there
+  duplicates: number;
+  // Less authoritative rows that were swapped for a better row of the same play
+  replaced: MergeReplacement[];
+}
+
+// Account data timestamps are rounded to the minute
+const MINUTE_PRECISION_MS = 60 * 1000;
+
+// Sources of rows without an import batch: the rows an index starts with, and the rows added to it
+const EXISTING_SOURCE = 'existing';
+const ADDED_SOURCE = 'added';
+
+const getAuthority = (entry: StreamingEntry): number => {
+  if (isApproximateEntry(entry)) return 0;
+  return hasPlaybackDetails(entry) ? 2 : 1;
+};
+
+const getUri = (entry: StreamingEntry): string | null => {
+  return entry.spotify_track_uri || entry.spotify_episode_uri || entry.audiobook_chapter_uri || null;
+};
+
+const getNameKey = (entry: StreamingEntry): string => {
+  const title = entry.master_metadata_track_name || entry.episode_name || entry.audiobook_chapter_title || '';
+  const creator = entry.master_metadata_album_artist_name || entry.episode_show_name || entry.audiobook_title || '';
+  return `${getContentKind(entry)}::${title.trim().toLowerCase()}::${creator.trim().toLowerCase()}`;
+};
+
+/**
+ * Whether two rows with the same identity describe the same play
+ * @param sameSource - Whether both rows come from the same export or sync, where only identical rows match
+ */
+const isSamePlay = (
+  a: StreamingEntry,
+  aTime: number,
+  b: StreamingEntry,
+  bTime: number,
+  sameSource: boolean,
+  options: DedupOptions
+): boolean => {
+  if (sameSource) {
+    return aTime === bTime && (a.ms_played || 0) === (b.ms_played || 0);
+  }
+
+  let window = options.toleranceMs;
+  if (a.data_fidelity === 'basic' || b.data_fidelity === 'basic') {
+    window += MINUTE_PRECISION_MS;
+  }
+
+  // API rows carry the full track duration and a start time rather than the real play,
+  // so they match anywhere within that duration
+  const approximate = isApproximateEntry(a) ? a : isApproximateEntry(b) ? b : null;
+  if (approximate) {
+    window += approximate.ms_played || 0;
+  } else if (Math.abs((a.ms_played || 0) - (b.ms_played || 0)) > options.toleranceMs) {
+    return false;
+  }
+
+  return Math.abs(aTime - bTime) <= window;
+};
+
+/**
+ * The import batches that contained an entry
+ */
+export const getImportBatchIds = (entry: StreamingEntry): string[] => {
+  return entry.import_batch_ids || (entry.import_batch_id ? [entry.import_batch_id] : []);
+};
+
+/**
+ * The kept row of a play, also recorded as part of every batch the dropped row came from
+ * so undoing one of those imports doesn't take the play out while another still contains it
+ */
+const withImportBatches = (kept: StreamingEntry, dropped: StreamingEntry): StreamingEntry => {
+  const keptIds = getImportBatchIds(kept);
+  const newIds = getImportBatchIds(dropped).filter(id => !keptIds.includes(id));
+  if (newIds.length === 0) return kept;
+  return { ...kept, import_batch_ids: [...keptIds, ...newIds] };
+};
+
+/**
+ * The exports or syncs a row came from: its import batches, or the given source without them
+ */
+const getSources = (entry: StreamingEntry, source: string): string[] => {
+  const batchIds = getImportBatchIds(entry);
+  return batchIds.length > 0 ? batchIds : [source];
+};
+
+const mergeSources = (sources: string[], others: string[]): string[] => {
+  return [...sources, ...others.filter(source => !sources.includes(source))];
+};
+
+const addToIndex = (map: Map<string, number[]>, key: string, index: number) => {
+  const indices = map.get(key);
+  if (indices) {
+    indices.push(index);
+  } else {
+    map.set(key, [index]);
+  }
+};
+
+/**
+ * Index of streaming entries that drops or replaces duplicates as rows are added
+ */
+export class StreamingDedupIndex {
+  private entries: (StreamingEntry | null)[] = [];
+  private times: number[] = [];
+  private sources: string[][] = [];
+  private byUri = new Map<string, number[]>();
+  private byName = new Map<string, number[]>();
+  // Rows without a URI, the only ones a row with a URI may match by name
+  private byNameWithoutUri = new Map<string, number[]>();
+  private report: MergeReport = { added: 0, duplicates: 0, replaced: [] };
+  private options: DedupOptions;
+
+  /**
+   * @param existing - Rows already stored; duplicates among them are resolved as well
+   */
+  constructor(existing: StreamingEntry[] = [], options: DedupOptions = DEFAULT_DEDUP_OPTIONS) {
+    this.options = options;
+    existing.forEach(entry => this.add(entry, EXISTING_SOURCE));
+    this.report.added = 0;
+  }
+
+  /**
+   * Add a row unless the same play is already indexed
+   * @param source - Where the row came from when it names no import batch
+   * @returns Whether the row was new, a duplicate, or replaced a less authoritative row
+   */
+  add(entry: StreamingEntry, source: string = ADDED_SOURCE): DedupOutcome {
+    const sources = getSources(entry, source);
+    const matchIndex = this.findMatch(entry, sources);
+
+    if (matchIndex === null) {
+      this.insert(entry, sources);
+      this.report.added++;
+      return 'added';
+    }
+
+    const match = this.entries[matchIndex] as StreamingEntry;
+    if (getAuthority(entry) <= getAuthority(match)) {
+      this.entries[matchIndex] = withImportBatches(match, entry);
+      this.sources[matchIndex] = mergeSources(this.sources[matchIndex], sources);
+      this.report.duplicates++;
+      return 'duplicate';
+    }
+
+    const replacement = withImportBatches(entry, match);
+    this.entries[matchIndex] = null;
+    this.insert(replacement, mergeSources(sources, this.sources[matchIndex]));
+    this.report.replaced.push({ removed: match, replacement });
+    return 'replaced';
+  }
+
+  /**
+   * All kept rows, sorted by timestamp
+   */
+  getEntries(): StreamingEntry[] {
+    return this.entries
+      .filter((entry): entry is StreamingEntry => entry !== null)
+      .sort((a, b) => new Date(a.ts).getTime() - new Date(b.ts).getTime());
+  }
+
+  getReport(): MergeReport {
+    return { ...this.report, replaced: [...this.report.replaced] };
+  }
+
+  private insert(entry: StreamingEntry, sources: string[]) {
+    const index = this.entries.length;
+    this.entries.push(entry);
+    this.times.push(new Date(entry.ts).getTime());
+    this.sources.push(sources);
+
+    const uri = getUri(entry);
+    const nameKey = getNameKey(entry);
+    addToIndex(this.byName, nameKey, index);
+    if (uri) {
+      addToIndex(this.byUri, uri, index);
+    } else {
+      addToIndex(this.byNameWithoutUri, nameKey, index);
+    }
+  }
+
+  private findMatch(entry: StreamingEntry, sources: string[]): number | null {
+    const uri = getUri(entry);
+    const nameKey = getNameKey(entry);
+    // Two rows with URIs only match when the URIs are equal; otherwise names decide
+    const candidates = uri
+      ? [...(this.byUri.get(uri) || []), ...(this.byNameWithoutUri.get(nameKey) || [])]
+      : this.byName.get(nameKey) || [];
+
+    const time = new Date(entry.ts).getTime();
+    let best: number | null = null;
+    let bestDistance = Infinity;
+
+    for (const index of candidates) {
+      const candidate = this.entries[index];
+      if (!candidate) continue;
+      const sameSource = this.sources[index].some(source => sources.includes(source));
+      if (!isSamePlay(entry, time, candidate, this.times[index], sameSource, this.options)) continue;
+
+      const distance = Math.abs(this.times[index] - time);
+      if (distance < bestDistance) {
+        best = index;
+        bestDistance = distance;
+      }
+    }
+
+    return best;
+  }
+}
+
+/**
+ * Remove duplicate entries from streaming data
+ */
+export const removeDuplicates = (data: StreamingEntry[], options: DedupOptions = DEFAULT_DEDUP_OPTIONS): StreamingEntry[] => {
+  return new StreamingDedupIndex(data, options).getEntries();
+};
+
+/**
+ * Merge new rows into existing data and report what was added, dropped and replaced
+ */
+export const mergeStreamingDataWithReport = (
+  existingData: StreamingEntry[],
+  newData: StreamingEntry[],
+  options: DedupOptions = DEFAULT_DEDUP_OPTIONS
+): { data: StreamingEntry[]; report: MergeReport } => {
+  const index = new StreamingDedupIndex(existingData, options);
+  newData.forEach(entry => index.add(entry));
+
+  const data = index.getEntries();
+  const report = index.getReport();
+  console.log(`Merged ${existingData.length} + ${newData.length} entries: ${report.added} added, ${report.duplicates} duplicates, ${report.replaced.length} replaced`);
+
+  return { data, report };
+};
+
+/**
+ * Merge multiple data arrays and remove duplicates
+ */
+export const mergeStreamingData = (existingData: StreamingEntry[], newData: StreamingEntry[]): StreamingEntry[] => {
+  return mergeStreamingDataWithReport(existingData, newData).data;
+};
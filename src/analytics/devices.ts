@@ -0,0 +1,230 @@
+import { DeviceClass, DeviceUsage, DeviceStats } from './types';
+
+/**
+ * Platform parsing and device usage
+ * Spotify records the device of every play in `platform`, in formats that changed over the years:
+ * "Android OS 9 API 28 (samsung, SM-G960F)", "iOS 15.1 (iPhone13,2)", "Windows 10 (10.0.19041; x64)",
+ * "OS X 10.15.7 [x86 8]", "web_player windows 10;chrome 96.0;desktop", "Partner sonos_ppc Sonos;Play:1;",
+ * and in the newest exports just "android" or "ios".
+ */
+export interface ParsedPlatform {
+  raw: string;
+  // Android, iOS, Windows, macOS, Linux, Web Player, or the raw string when unrecognized
+  osFamily: string;
+  osVersion: string | null;
+  manufacturer: string | null;
+  model: string | null;
+  deviceClass: DeviceClass;
+}
+
+export interface DeviceRow {
+  // Local date (YYYY-MM-DD)
+  date: string;
+  platform: string;
+  isPlay: boolean;
+  countedMs: number;
+}
+
+export const DEVICE_CLASS_LABELS: Record<DeviceClass, string> = {
+  phone: 'Phone',
+  tablet: 'Tablet',
+  desktop: 'Desktop',
+  web: 'Web Player',
+  tv: 'TV',
+  speaker: 'Speaker',
+  console: 'Game Console',
+  car: 'Car',
+  watch: 'Watch',
+  other: 'Device'
+};
+
+// Operating systems whose families are shown with the device class, like "Android Phone"
+const OS_FAMILIES = ['Android', 'iOS', 'Windows', 'macOS', 'Linux'];
+
+// Keywords of connected devices, checked in order against the lowercased platform
+const CONNECTED_DEVICE_CLASSES: [RegExp, DeviceClass][] = [
+  [/watch|wear/, 'watch'],
+  [/\bcar\b|auto|carplay|tesla/, 'car'],
+  [/playstation|ps[345]|xbox/, 'console'],
+  [/\btv\b|_tv|tv_|bravia|roku|webos|tizen|fire ?tv|chromecast/, 'tv'],
+  [/speaker|sonos|echo|alexa|amazon|bose|google.?home|nest|homepod|denon|yamaha|bang/, 'speaker']
+];
+
+const getAppleDeviceClass = (model: string): DeviceClass => {
+  if (model.startsWith('iPad')) return 'tablet';
+  if (model.startsWith('iPhone')) return 'phone';
+  if (model.startsWith('Watch')) return 'watch';
+  return 'other';
+};
+
+const getConnectedDeviceClass = (platform: string): DeviceClass => {
+  const lower = platform.toLowerCase();
+  const match = CONNECTED_DEVICE_CLASSES.find(([pattern]) => pattern.test(lower));
+  return match ? match[1] : 'other';
+};
+
+const clean = (value: string | undefined): string | null => {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+};
+
+/**
+ * Extract the OS, manufacturer, model and device class from a platform string
+ */
+export const parsePlatform = (platform: string): ParsedPlatform => {
+  const raw = platform.trim();
+  const parsed: ParsedPlatform = {
+    raw,
+    osFamily: raw,
+    osVersion: null,
+    manufacturer: null,
+    model: null,
+    deviceClass: 'other'
+  };
+
+  let match = raw.match(/^Android OS ([\d.]+)(?: API \d+)?(?: \(([^,]*), ([^)]*)\))?/i);
+  if (match) {
+    return {
+      ...parsed,
+      osFamily: 'Android',
+      osVersion: match[1],
+      manufacturer: clean(match[2]),
+      model: clean(match[3]),
+      deviceClass: /tablet/i.test(raw) ? 'tablet' : 'phone'
+    };
+  }
+  if (/^android/i.test(raw)) {
+    return { ...parsed, osFamily: 'Android', deviceClass: /tablet/i.test(raw) ? 'tablet' : 'phone' };
+  }
+
+  match = raw.match(/^iOS ([\d.]+)(?: \(([^)]*)\))?/i);
+  if (match) {
+    const model = clean(match[2]);
+    return {
+      ...parsed,
+      osFamily: 'iOS',
+      osVersion: match[1],
+      manufacturer: model ? 'Apple' : null,
+      model,
+      deviceClass: model ? getAppleDeviceClass(model) : 'phone'
+    };
+  }
+  if (/^(ios|iphone)/i.test(raw)) {
+    return { ...parsed, osFamily: 'iOS', deviceClass: /ipad/i.test(raw) ? 'tablet' : 'phone' };
+  }
+
+  if (/^web_?player|^webplayer|^web player/i.test(raw)) {
+    return { ...parsed, osFamily: 'Web Player', deviceClass: 'web' };
+  }
+
+  match = raw.match(/^Windows(?: ([\w.]+))?/i);
+  if (match) {
+    return { ...parsed, osFamily: 'Windows', osVersion: clean(match[1]), deviceClass: 'desktop' };
+  }
+
+  match = raw.match(/^(?:OS X|osx|mac ?os)(?: ([\d.]+))?/i);
+  if (match) {
+    return { ...parsed, osFamily: 'macOS', osVersion: clean(match[1]), deviceClass: 'desktop' };
+  }
+
+  if (/^linux/i.test(raw)) {
+    return { ...parsed, osFamily: 'Linux', deviceClass: 'desktop' };
+  }
+
+  // Partner integrations: "Partner <integration> <manufacturer>;<model>;<...>"
+  match = raw.match(/^Partner (\S+)(?: (.*))?/i);
+  if (match) {
+    const [manufacturer, model] = (match[2] || '').split(';');
+    return {
+      ...parsed,
+      manufacturer: clean(manufacturer),
+      model: clean(model),
+      deviceClass: getConnectedDeviceClass(raw)
+    };
+  }
+
+  return { ...parsed, deviceClass: getConnectedDeviceClass(raw) };
+};
+
+/**
+ * Group a raw platform string into a device family for display, like "Android Phone"
+ */
+export const simplifyPlatform = (platform: string): string => {
+  const parsed = parsePlatform(platform);
+  if (parsed.deviceClass === 'web') return DEVICE_CLASS_LABELS.web;
+  if (OS_FAMILIES.includes(parsed.osFamily)) {
+    return `${parsed.osFamily} ${DEVICE_CLASS_LABELS[parsed.deviceClass]}`;
+  }
+  return parsed.deviceClass === 'other' ? parsed.raw : DEVICE_CLASS_LABELS[parsed.deviceClass];
+};
+
+/**
+ * Name of the physical device, like "samsung SM-G960F", or its family when the model is unknown
+ */
+export const getDeviceName = (parsed: ParsedPlatform): string => {
+  if (!parsed.model) return simplifyPlatform(parsed.raw);
+  if (!parsed.manufacturer || parsed.model.toLowerCase().startsWith(parsed.manufacturer.toLowerCase())) {
+    return parsed.model;
+  }
+  return `${parsed.manufacturer} ${parsed.model}`;
+};
+
+/**
+ * Find when each device was used and how much
+ * @param rows - Rows with a platform
+ * @returns Devices ordered by first use
+ */
+export const analyzeDevices = (rows: DeviceRow[]): DeviceStats => {
+  // Exports repeat a handful of platform strings over and over
+  const parsedPlatforms = new Map<string, ParsedPlatform>();
+  const usage = new Map<string, DeviceUsage & { dates: Set<string>; ms: number; versions: Set<string> }>();
+
+  rows.forEach(row => {
+    let parsed = parsedPlatforms.get(row.platform);
+    if (!parsed) {
+      parsed = parsePlatform(row.platform);
+      parsedPlatforms.set(row.platform, parsed);
+    }
+
+    const name = getDeviceName(parsed);
+    let device = usage.get(name);
+    if (!device) {
+      device = {
+        id: name,
+        name,
+        os_family: parsed.osFamily,
+        device_class: parsed.deviceClass,
+        manufacturer: parsed.manufacturer,
+        model: parsed.model,
+        os_versions: [],
+        first_used: row.date,
+        last_used: row.date,
+        active_days: 0,
+        hours: 0,
+        plays: 0,
+        dates: new Set(),
+        ms: 0,
+        versions: new Set()
+      };
+      usage.set(name, device);
+    }
+
+    if (row.date < device.first_used) device.first_used = row.date;
+    if (row.date > device.last_used) device.last_used = row.date;
+    device.dates.add(row.date);
+    device.ms += row.countedMs;
+    device.plays += row.isPlay ? 1 : 0;
+    if (parsed.osVersion) device.versions.add(parsed.osVersion);
+  });
+
+  const devices = Array.from(usage.values()).map(({ dates, ms, versions, ...device }) => ({
+    ...device,
+    os_versions: Array.from(versions).sort((a, b) => a.localeCompare(b, undefined, { numeric: true })),
+    active_days: dates.size,
+    hours: Number((ms / (1000 * 60 * 60)).toFixed(2))
+  }));
+
+  return {
+    devices: devices.sort((a, b) => a.first_used.localeCompare(b.first_used) || b.hours - a.hours)
+  };
+};
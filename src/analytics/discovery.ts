@@ -0,0 +1,143 @@
+import { DiscoveryStats, DiscoveryLag } from './types';
+import { LocalTime } from './timezone';
+import { EntityNames } from './entityNames';
+
+/**
+ * When music was discovered
+ * The discovery index holds the first play of every artist, album and track. New music per month,
+ * the share of time spent on fresh discoveries and how long top artists took to become favorites
+ * are derived from it.
+ */
+export interface FirstListen {
+  // UTC timestamp, local date (YYYY-MM-DD) and local month (YYYY-MM) of the first play
+  ts: string;
+  date: string;
+  month: string;
+}
+
+export interface DiscoveryIndex {
+  artists: Map<string, FirstListen>;
+  albums: Map<string, FirstListen>;
+  tracks: Map<string, FirstListen>;
+}
+
+export interface DiscoveryRow {
+  ts: string;
+  local: LocalTime;
+  isPlay: boolean;
+  // Milliseconds the row adds to listening time
+  countedMs: number;
+  artistId: string | null;
+  albumId: string | null;
+  trackId: string | null;
+}
+
+// An artist becomes a favorite on the day of this many plays
+export const FAVORITE_PLAY_THRESHOLD = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const sortChronologically = <T extends { ts: string }>(rows: T[]): T[] => {
+  return [...rows].sort((a, b) => new Date(a.ts).getTime() - new Date(b.ts).getTime());
+};
+
+/**
+ * Index the first play of every artist, album and track
+ * Rows that don't count as a play are not a discovery.
+ */
+export const buildDiscoveryIndex = (rows: DiscoveryRow[]): DiscoveryIndex => {
+  const index: DiscoveryIndex = { artists: new Map(), albums: new Map(), tracks: new Map() };
+
+  const record = (map: Map<string, FirstListen>, id: string | null, row: DiscoveryRow) => {
+    if (id && !map.has(id)) {
+      map.set(id, { ts: row.ts, date: row.local.date, month: row.local.month });
+    }
+  };
+
+  sortChronologically(rows).forEach(row => {
+    if (!row.isPlay) return;
+    record(index.artists, row.artistId, row);
+    record(index.albums, row.albumId, row);
+    record(index.tracks, row.trackId, row);
+  });
+
+  return index;
+};
+
+/**
+ * Derive monthly discovery statistics from music rows
+ * First plays and the discovery-to-favorite lag both come from the whole history, so a date range
+ * only limits the months shown.
+ * @param rows - Music rows of the profile, limited to the date range
+ * @param topArtistIds - Artists to compute the discovery-to-favorite lag for, in ranking order
+ * @param historyRows - Music rows of the whole history
+ */
+export const analyzeDiscovery = (
+  rows: DiscoveryRow[],
+  topArtistIds: string[],
+  names: Pick<EntityNames, 'getName'>,
+  historyRows: DiscoveryRow[] = rows
+): DiscoveryStats => {
+  const index = buildDiscoveryIndex(historyRows);
+  const months = Array.from(new Set(rows.map(row => row.local.month))).sort();
+  const monthIndex = new Map(months.map((month, position) => [month, position]));
+
+  const countNew = (map: Map<string, FirstListen>) => {
+    const counts = months.map(() => 0);
+    map.forEach(firstListen => {
+      const position = monthIndex.get(firstListen.month);
+      if (position !== undefined) counts[position]++;
+    });
+    return counts;
+  };
+
+  const totalMs = months.map(() => 0);
+  const discoveredMs = months.map(() => 0);
+  const topArtists = new Set(topArtistIds);
+  const artistPlays = new Map<string, number>();
+  const favoriteDates = new Map<string, string>();
+
+  rows.forEach(row => {
+    const position = monthIndex.get(row.local.month) as number;
+    totalMs[position] += row.countedMs;
+    if (row.trackId && index.tracks.get(row.trackId)?.month === row.local.month) {
+      discoveredMs[position] += row.countedMs;
+    }
+  });
+
+  sortChronologically(historyRows).forEach(row => {
+    if (row.isPlay && row.artistId && topArtists.has(row.artistId)) {
+      const plays = (artistPlays.get(row.artistId) || 0) + 1;
+      artistPlays.set(row.artistId, plays);
+      if (plays === FAVORITE_PLAY_THRESHOLD) {
+        favoriteDates.set(row.artistId, row.local.date);
+      }
+    }
+  });
+
+  const favoriteLag: DiscoveryLag[] = topArtistIds
+    .filter(id => index.artists.has(id))
+    .map(id => {
+      const discovered = (index.artists.get(id) as FirstListen).date;
+      const favorite = favoriteDates.get(id) || null;
+      return {
+        id,
+        name: names.getName(id),
+        discovered,
+        favorite,
+        lag_days: favorite ? Math.round((Date.parse(favorite) - Date.parse(discovered)) / DAY_MS) : null,
+        plays: artistPlays.get(id) || 0
+      };
+    });
+
+  return {
+    months,
+    new_artists: countNew(index.artists),
+    new_albums: countNew(index.albums),
+    new_tracks: countNew(index.tracks),
+    discovery_share: months.map((_, position) =>
+      totalMs[position] > 0 ? Number(((discoveredMs[position] / totalMs[position]) * 100).toFixed(2)) : 0
+    ),
+    favorite_lag: favoriteLag
+  };
+};
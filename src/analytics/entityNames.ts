@@ -0,0 +1,223 @@
+import { StreamingEntry } from './types';
+
+/**
+ * Resolve artist, track and album names to canonical entities
+ * Built-in rules fold case and accents and drop remaster, live and featuring suffixes, so
+ * "Song - Remastered 2011", "Song (feat. X)" and "song" count as one track. A per-profile
+ * alias table then merges entities the rules can't connect, or splits names back out of them.
+ */
+export type EntityType = 'artist' | 'track' | 'album';
+
+export interface EntityAliases {
+  // Entity ID -> the entity ID it is merged into
+  merges: Record<string, string>;
+  // IDs of exact names that are kept apart from what the built-in rules would merge them into
+  splits: string[];
+}
+
+export interface EntityVariant {
+  // The name as it appears in the streaming history
+  name: string;
+  // ID of the exact (case-folded) name
+  exactId: string;
+  // ID after the built-in rules and splits, before merges
+  baseId: string;
+  plays: number;
+}
+
+export interface EntityNames {
+  getArtistId: (entry: StreamingEntry) => string | null;
+  getTrackId: (entry: StreamingEntry) => string | null;
+  getAlbumId: (entry: StreamingEntry) => string | null;
+  // Display name of an entity: its most common spelling
+  getName: (id: string) => string;
+  // The artist an entity belongs to (the entity itself for artists)
+  getArtistOf: (id: string) => string | null;
+  getVariants: (id: string) => EntityVariant[];
+}
+
+export const EMPTY_ENTITY_ALIASES: EntityAliases = { merges: {}, splits: [] };
+
+/**
+ * Suffixes that the built-in rules remove from track and album titles
+ */
+export const BUILT_IN_NAME_RULES: { id: string; label: string; pattern: RegExp }[] = [
+  {
+    id: 'remaster',
+    label: 'Remaster suffixes ("- Remastered 2011", "(2009 Remaster)")',
+    pattern: /\s*(?:[-–—]\s*|[([]\s*)(?:\d{4}\s+)?(?:digital(?:ly)?\s+)?remaster(?:ed)?(?:\s+\d{4})?(?:\s+(?:version|edition))?\s*[)\]]?\s*$/i
+  },
+  {
+    id: 'live',
+    label: 'Live suffixes ("- Live", "(Live at Wembley)")',
+    pattern: /\s*(?:[-–—]\s*|[([]\s*)live(?:\s+(?:at|from|in|on)\b[^)\]]*)?\s*[)\]]?\s*$/i
+  },
+  {
+    id: 'featuring',
+    label: 'Featured artists ("(feat. X)", "ft. X", "(with X)")',
+    pattern: /\s*(?:[-–—]\s*)?(?:[([]\s*(?:feat\.?|ft\.?|featuring|with)\s+[^)\]]*[)\]]|(?:feat\.|ft\.|featuring)\s+.*)\s*$/i
+  }
+];
+
+/**
+ * Fold a name for comparison: Unicode compatibility forms, accents, case, quotes and whitespace
+ */
+export const foldName = (name: string): string => {
+  return name
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[‘’`´]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * Remove remaster, live and featuring suffixes from a title, in any order
+ */
+export const stripNameSuffixes = (title: string): string => {
+  let current = title;
+  for (;;) {
+    const stripped = BUILT_IN_NAME_RULES.reduce((name, rule) => name.replace(rule.pattern, ''), current);
+    // Never strip a title down to nothing (e.g. a track called "Live")
+    if (stripped === current || stripped.trim() === '') {
+      return current;
+    }
+    current = stripped;
+  }
+};
+
+const getTypeOfId = (id: string): EntityType => id.slice(0, id.indexOf(':')) as EntityType;
+
+/**
+ * Follow merges from an ID to the entity it ends up in
+ */
+export const resolveMerges = (aliases: EntityAliases, id: string): string => {
+  const visited = new Set<string>();
+  let current = id;
+  while (aliases.merges[current] && !visited.has(current)) {
+    visited.add(current);
+    current = aliases.merges[current];
+  }
+  return current;
+};
+
+/**
+ * Build canonical entity IDs and display names for a list of entries
+ */
+export const createEntityNames = (
+  entries: StreamingEntry[],
+  aliases: EntityAliases = EMPTY_ENTITY_ALIASES
+): EntityNames => {
+  const splits = new Set(aliases.splits);
+  const cache = new Map<string, { exactId: string; baseId: string; id: string }>();
+  const artistOf = new Map<string, string | null>();
+  const variants = new Map<string, Map<string, EntityVariant>>();
+
+  const resolve = (type: EntityType, artistId: string | null, name: string) => {
+    const cacheKey = `${type}\u0000${artistId}\u0000${name}`;
+    let resolved = cache.get(cacheKey);
+    if (!resolved) {
+      const scope = type === 'artist' ? '' : `${artistId || ''}::`;
+      const exactId = `${type}:${scope}${foldName(name)}`;
+      const ruleId = type === 'artist' ? exactId : `${type}:${scope}${foldName(stripNameSuffixes(name))}`;
+      const baseId = splits.has(exactId) ? exactId : ruleId;
+      resolved = { exactId, baseId, id: resolveMerges(aliases, baseId) };
+      cache.set(cacheKey, resolved);
+    }
+    return resolved;
+  };
+
+  const record = (type: EntityType, artistId: string | null, name: string | null | undefined): string | null => {
+    if (!name || !name.trim()) return null;
+
+    const { exactId, baseId, id } = resolve(type, artistId, name);
+    if (!artistOf.has(id)) {
+      artistOf.set(id, type === 'artist' ? id : artistId);
+    }
+
+    const entityVariants = variants.get(id) || new Map<string, EntityVariant>();
+    variants.set(id, entityVariants);
+    const variant = entityVariants.get(name) || { name, exactId, baseId, plays: 0 };
+    variant.plays++;
+    entityVariants.set(name, variant);
+    return id;
+  };
+
+  const ids = new Map<StreamingEntry, { artist: string | null; track: string | null; album: string | null }>();
+  for (const entry of entries) {
+    const artist = record('artist', null, entry.master_metadata_album_artist_name);
+    ids.set(entry, {
+      artist,
+      track: record('track', artist, entry.master_metadata_track_name),
+      album: record('album', artist, entry.master_metadata_album_album_name)
+    });
+  }
+
+  // Entries that weren't seen up front are still resolved, just without counting toward display names
+  const lookup = (entry: StreamingEntry) => {
+    const known = ids.get(entry);
+    if (known) return known;
+    const name = entry.master_metadata_album_artist_name;
+    const artist = name && name.trim() ? resolve('artist', null, name).id : null;
+    const idOf = (type: EntityType, value?: string | null) => value && value.trim() ? resolve(type, artist, value).id : null;
+    return { artist, track: idOf('track', entry.master_metadata_track_name), album: idOf('album', entry.master_metadata_album_album_name) };
+  };
+
+  const getVariants = (id: string): EntityVariant[] => {
+    return Array.from(variants.get(id)?.values() || []).sort((a, b) => b.plays - a.plays);
+  };
+
+  return {
+    getArtistId: entry => lookup(entry).artist,
+    getTrackId: entry => lookup(entry).track,
+    getAlbumId: entry => lookup(entry).album,
+    getName: id => getVariants(id)[0]?.name || id.slice(id.lastIndexOf(':') + 1),
+    getArtistOf: id => artistOf.get(id) ?? (getTypeOfId(id) === 'artist' ? id : null),
+    getVariants
+  };
+};
+
+/**
+ * Merge entities into a target entity
+ * @returns The updated alias table
+ */
+export const mergeEntities = (aliases: EntityAliases, ids: string[], targetId: string): EntityAliases => {
+  const merges = { ...aliases.merges };
+  const target = resolveMerges(aliases, targetId);
+
+  for (const id of ids) {
+    if (resolveMerges(aliases, id) !== target) {
+      merges[id] = target;
+    }
+  }
+
+  return { ...aliases, merges };
+};
+
+/**
+ * Split one spelling back out of the entity it was merged into
+ * Names joined by an alias are un-merged; names joined by the built-in rules get their own entity.
+ * @returns The updated alias table
+ */
+export const splitEntityVariant = (aliases: EntityAliases, entityId: string, variant: EntityVariant): EntityAliases => {
+  if (variant.baseId !== entityId) {
+    const merges = { ...aliases.merges };
+    delete merges[variant.baseId];
+    return { ...aliases, merges };
+  }
+
+  if (variant.exactId !== variant.baseId && !aliases.splits.includes(variant.exactId)) {
+    return { ...aliases, splits: [...aliases.splits, variant.exactId] };
+  }
+
+  return aliases;
+};
+
+/**
+ * Whether a spelling can be split out of an entity
+ */
+export const canSplitVariant = (entityId: string, variant: EntityVariant): boolean => {
+  return variant.baseId !== entityId || variant.exactId !== variant.baseId;
+};
@@ -0,0 +1,26 @@
+/**
+ * Headless analytics engine
+ * Turns streaming history into statistics without depending on React or the browser,
+ * so the same numbers can be computed in the app, in workers, in scripts and in the Electron main process.
+ */
+export * from './types';
+export * from './normalize';
+export * from './validation';
+export * from './dedupe';
+export * from './playCounting';
+export * from './entityNames';
+export * from './timezone';
+export * from './sessions';
+export * from './streaks';
+export * from './discovery';
+export * from './completion';
+export * from './playbackFlow';
+export * from './offlineCorrection';
+export * from './devices';
+export * from './travel';
+export * from './dateRange';
+export * from './comparison';
+export * from './profileComparison';
+export * from './calendar';
+export * from './spotifyStats';
+export * from './streamAnalysis';
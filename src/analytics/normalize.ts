@@ -0,0 +1,119 @@
+import { StreamingEntry, AccountStreamingEntry, StreamingDataFormat, ContentKind } from './types';
+
+/**
+ * Detect which Spotify export format a list of rows comes from
+ */
+export const detectStreamingDataFormat = (rows: unknown[]): StreamingDataFormat => {
+  const firstItem = rows.find(row => row && typeof row === 'object') as Record<string, unknown> | undefined;
+  if (!firstItem) {
+    return 'unknown';
+  }
+
+  if ('ts' in firstItem && 'ms_played' in firstItem) {
+    return 'extended';
+  }
+
+  if ('endTime' in firstItem && 'msPlayed' in firstItem) {
+    return 'account';
+  }
+
+  return 'unknown';
+};
+
+/**
+ * Convert an account data end time ("2019-03-04 12:34") to an ISO timestamp
+ * Spotify writes these times in UTC, so they are read as UTC whatever the machine's timezone;
+ * the profile's timezone is applied when the stats are computed, as for extended rows.
+ */
+const utcMinuteToIso = (endTime: string): string => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})/.exec(endTime);
+  if (!match) {
+    return '';
+  }
+
+  const [, year, month, day, hour, minute] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day, hour, minute));
+  return isNaN(date.getTime()) ? '' : date.toISOString();
+};
+
+/**
+ * Map an account data entry to the extended streaming history shape
+ */
+export const convertAccountEntry = (entry: AccountStreamingEntry): StreamingEntry => {
+  if (entry.podcastName !== undefined || entry.episodeName !== undefined) {
+    return {
+      ts: utcMinuteToIso(entry.endTime),
+      ms_played: entry.msPlayed,
+      master_metadata_track_name: '',
+      master_metadata_album_artist_name: '',
+      episode_name: entry.episodeName,
+      episode_show_name: entry.podcastName,
+      content_kind: 'episode',
+      data_fidelity: 'basic'
+    };
+  }
+
+  return {
+    ts: utcMinuteToIso(entry.endTime),
+    ms_played: entry.msPlayed,
+    master_metadata_track_name: entry.trackName || '',
+    master_metadata_album_artist_name: entry.artistName || '',
+    content_kind: 'track',
+    data_fidelity: 'basic'
+  };
+};
+
+/**
+ * Get the kind of content an entry was (a music track, a podcast episode or an audiobook chapter)
+ */
+export const getContentKind = (entry: StreamingEntry): ContentKind => {
+  if (entry.content_kind) {
+    return entry.content_kind;
+  }
+
+  if (entry.audiobook_title || entry.audiobook_uri || entry.audiobook_chapter_uri) {
+    return 'audiobook';
+  }
+
+  if (entry.episode_name || entry.episode_show_name || entry.spotify_episode_uri) {
+    return 'episode';
+  }
+
+  return 'track';
+};
+
+/**
+ * Detect the format of raw export rows and convert them to streaming entries
+ * Every returned entry carries its content kind.
+ */
+export const normalizeStreamingData = (rows: unknown[]): StreamingEntry[] => {
+  const format = detectStreamingDataFormat(rows);
+
+  // Rows that aren't objects are passed through unchanged so validation reports them as they were
+  if (format === 'account') {
+    return (rows as AccountStreamingEntry[]).map(entry => (
+      entry && typeof entry === 'object' ? convertAccountEntry(entry) : entry as unknown as StreamingEntry
+    ));
+  }
+
+  return (rows as StreamingEntry[]).map(entry => (
+    entry && typeof entry === 'object' && !entry.content_kind
+      ? { ...entry, content_kind: getContentKind(entry) }
+      : entry
+  ));
+};
+
+/**
+ * Whether a row is an approximation from the recently played API rather than an export row
+ */
+export const isApproximateEntry = (entry: StreamingEntry): boolean => {
+  return entry.platform === 'api_sync';
+};
+
+/**
+ * Whether an entry carries skip, shuffle, offline and platform details
+ * API-synced rows don't: the API only reports which track played and when.
+ */
+export const hasPlaybackDetails = (entry: StreamingEntry): boolean => {
+  return entry.data_fidelity !== 'basic' && !isApproximateEntry(entry);
+};
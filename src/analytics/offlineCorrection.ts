@@ -0,0 +1,92 @@
+import { StreamingEntry, OfflineCorrectionStats } from './types';
+
+/**
+ * Move offline plays back to when they happened
+ * For offline plays Spotify records `ts` when the device synced, not when the track played.
+ * `offline_timestamp` holds the play's start on the device, as a Unix timestamp in seconds or
+ * milliseconds. It is trusted only when it falls shortly before the sync time.
+ */
+
+// Spotify launched in October 2008; earlier values are a broken device clock
+const EARLIEST_PLAUSIBLE_MS = Date.UTC(2008, 9, 1);
+
+// Devices may stay offline for a long time, but not for longer than this
+export const MAX_OFFLINE_SYNC_DELAY_MS = 90 * 24 * 60 * 60 * 1000;
+
+// Device clocks drift; a play may appear to start slightly after the sync
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// Values below this are seconds rather than milliseconds
+const SECONDS_CUTOFF = 1e11;
+
+// Corrections smaller than this don't move a play
+const MIN_CORRECTION_MS = 60 * 1000;
+
+/**
+ * Read offline_timestamp as milliseconds since the epoch
+ */
+export const parseOfflineTimestamp = (value: StreamingEntry['offline_timestamp']): number | null => {
+  if (value === null || value === undefined || typeof value === 'boolean' || value === '') {
+    return null;
+  }
+
+  const numeric = typeof value === 'number' ? value : Number(value);
+  if (!isNaN(numeric)) {
+    if (numeric <= 0) return null;
+    return numeric < SECONDS_CUTOFF ? numeric * 1000 : numeric;
+  }
+
+  const parsed = Date.parse(value as string);
+  return isNaN(parsed) ? null : parsed;
+};
+
+/**
+ * The end time an offline play really had, or null when offline_timestamp can't be trusted
+ */
+export const getCorrectedTimestamp = (entry: StreamingEntry): string | null => {
+  const syncTime = new Date(entry.ts).getTime();
+  const startTime = parseOfflineTimestamp(entry.offline_timestamp);
+  if (startTime === null || isNaN(syncTime)) return null;
+
+  if (
+    startTime < EARLIEST_PLAUSIBLE_MS ||
+    startTime > syncTime + CLOCK_SKEW_MS ||
+    syncTime - startTime > MAX_OFFLINE_SYNC_DELAY_MS
+  ) {
+    return null;
+  }
+
+  // `ts` marks the end of a play, so the corrected value does as well
+  return new Date(startTime + (entry.ms_played || 0)).toISOString().replace('.000Z', 'Z');
+};
+
+/**
+ * Correct the timestamps of offline plays
+ * @param enabled - When false, entries are returned unchanged and only counted
+ * @returns The entries in their original order, and what was corrected
+ */
+export const correctOfflineTimestamps = (
+  entries: StreamingEntry[],
+  enabled = true
+): { entries: StreamingEntry[]; report: OfflineCorrectionStats } => {
+  const report: OfflineCorrectionStats = { enabled, offline_entries: 0, corrected: 0, implausible: 0 };
+
+  const corrected = entries.map(entry => {
+    if (entry.offline !== true) return entry;
+    report.offline_entries++;
+
+    const ts = getCorrectedTimestamp(entry);
+    if (ts === null) {
+      report.implausible++;
+      return entry;
+    }
+    if (Math.abs(new Date(ts).getTime() - new Date(entry.ts).getTime()) < MIN_CORRECTION_MS) {
+      return entry;
+    }
+
+    report.corrected++;
+    return enabled ? { ...entry, ts } : entry;
+  });
+
+  return { entries: corrected, report };
+};
@@ -0,0 +1,157 @@
+/**
+ * Decide which streaming history rows count as a play
+ * Every statistic goes through the same policy so that totals agree across tabs.
+ */
+export interface PlayCountingPolicy {
+  // Rows shorter than this are not a play (Spotify itself uses 30 seconds)
+  minMsPlayed: number;
+  // Minimum share of the inferred track length, between 0 and 1 (0 turns the check off)
+  minTrackFraction: number;
+  // reason_end values that always count as a completed play, however short
+  completedReasons: string[];
+  // Whether time from rows that are not a play still counts toward listening hours
+  countShortPlayTime: boolean;
+}
+
+/**
+ * The fields a row needs for play counting
+ */
+export interface PlayCandidate {
+  ms_played: number;
+  reason_end?: string | null;
+  spotify_track_uri?: string | null;
+  master_metadata_track_name?: string | null;
+  master_metadata_album_artist_name?: string | null;
+}
+
+export interface PlayCountingSummary {
+  rows: number;
+  plays: number;
+  excludedRows: number;
+  listeningHours: number;
+}
+
+export const DEFAULT_PLAY_COUNTING_POLICY: PlayCountingPolicy = {
+  minMsPlayed: 30000,
+  minTrackFraction: 0,
+  completedReasons: ['trackdone'],
+  countShortPlayTime: true
+};
+
+/**
+ * reason_end values found in the extended streaming history
+ */
+export const REASON_END_OPTIONS: { value: string; label: string }[] = [
+  { value: 'trackdone', label: 'Track finished' },
+  { value: 'endplay', label: 'Playback stopped' },
+  { value: 'fwdbtn', label: 'Skipped forward' },
+  { value: 'backbtn', label: 'Skipped back' },
+  { value: 'clickrow', label: 'Picked another track' },
+  { value: 'remote', label: 'Changed on another device' },
+  { value: 'logout', label: 'Logged out' },
+  { value: 'unexpected-exit', label: 'App closed unexpectedly' },
+  { value: 'unexpected-exit-while-paused', label: 'App closed while paused' },
+  { value: 'trackerror', label: 'Playback error' }
+];
+
+/**
+ * Key that identifies a track across rows: its URI, or its names for rows without one
+ */
+export const getTrackKey = (entry: PlayCandidate): string | null => {
+  if (entry.spotify_track_uri) {
+    return entry.spotify_track_uri;
+  }
+  if (entry.master_metadata_track_name) {
+    return `${entry.master_metadata_track_name}::${entry.master_metadata_album_artist_name || ''}`;
+  }
+  return null;
+};
+
+/**
+ * Infer each track's length from the history itself
+ * Rows that ran to the end give the length directly; otherwise the longest play is the best estimate.
+ */
+export const inferTrackLengths = (entries: PlayCandidate[]): Map<string, number> => {
+  const finished = new Map<string, number>();
+  const longest = new Map<string, number>();
+
+  for (const entry of entries) {
+    const key = getTrackKey(entry);
+    if (!key) continue;
+
+    const ms = entry.ms_played || 0;
+    longest.set(key, Math.max(longest.get(key) || 0, ms));
+    if (entry.reason_end === 'trackdone') {
+      finished.set(key, Math.max(finished.get(key) || 0, ms));
+    }
+  }
+
+  for (const [key, ms] of finished) {
+    longest.set(key, ms);
+  }
+
+  return longest;
+};
+
+/**
+ * Create a function that tells whether a row counts as a play under a policy
+ * @param entries - All rows of the profile, used to infer track lengths
+ * @param policy - The profile's play-counting policy
+ */
+export const createPlayClassifier = (
+  entries: PlayCandidate[],
+  policy: PlayCountingPolicy = DEFAULT_PLAY_COUNTING_POLICY
+): (entry: PlayCandidate) => boolean => {
+  const completedReasons = new Set(policy.completedReasons);
+  const trackLengths = policy.minTrackFraction > 0 ? inferTrackLengths(entries) : new Map<string, number>();
+
+  return (entry: PlayCandidate) => {
+    if (entry.reason_end && completedReasons.has(entry.reason_end)) {
+      return true;
+    }
+
+    const ms = entry.ms_played || 0;
+    if (ms < policy.minMsPlayed) {
+      return false;
+    }
+
+    if (policy.minTrackFraction > 0) {
+      const key = getTrackKey(entry);
+      const length = key ? trackLengths.get(key) : undefined;
+      if (length && ms < length * policy.minTrackFraction) {
+        return false;
+      }
+    }
+
+    return true;
+  };
+};
+
+/**
+ * The milliseconds a row adds to listening time under a policy
+ */
+export const getCountedMs = (entry: PlayCandidate, isPlay: boolean, policy: PlayCountingPolicy): number => {
+  return isPlay || policy.countShortPlayTime ? entry.ms_played || 0 : 0;
+};
+
+/**
+ * Count plays and listening time under a policy, e.g. to preview a policy change
+ */
+export const summarizePlayCounting = (entries: PlayCandidate[], policy: PlayCountingPolicy): PlayCountingSummary => {
+  const isPlay = createPlayClassifier(entries, policy);
+  let plays = 0;
+  let countedMs = 0;
+
+  for (const entry of entries) {
+    const played = isPlay(entry);
+    if (played) plays++;
+    countedMs += getCountedMs(entry, played, policy);
+  }
+
+  return {
+    rows: entries.length,
+    plays,
+    excludedRows: entries.length - plays,
+    listeningHours: Number((countedMs / (1000 * 60 * 60)).toFixed(2))
+  };
+};
@@ -0,0 +1,132 @@
+import { StartCategory, PlaybackFlowStats } from './types';
+
+/**
+ * How playback starts and ends
+ * Starts are grouped by intent: picking a track or pressing play is intentional, the skip
+ * buttons are navigation, and a start after the previous track finished is a continuation
+ * of autoplay, a queue or a playlist.
+ */
+export interface FlowRow {
+  // Local month (YYYY-MM)
+  month: string;
+  platform: string | null;
+  reasonStart: string;
+  reasonEnd: string | null;
+}
+
+export const START_CATEGORIES: { id: StartCategory; label: string }[] = [
+  { id: 'intentional', label: 'Picked by you' },
+  { id: 'navigation', label: 'Skip buttons' },
+  { id: 'continuation', label: 'Autoplay and queue' },
+  { id: 'other', label: 'Other' }
+];
+
+/**
+ * reason_start values found in the extended streaming history
+ */
+export const REASON_START_LABELS: Record<string, string> = {
+  clickrow: 'Picked a track',
+  playbtn: 'Pressed play',
+  fwdbtn: 'Skipped forward',
+  backbtn: 'Skipped back',
+  trackdone: 'Previous track finished',
+  remote: 'Started on another device',
+  appload: 'App opened',
+  trackerror: 'After a playback error',
+  unknown: 'Unknown'
+};
+
+// reason_end recorded for rows without one
+export const MISSING_REASON = 'unknown';
+
+const START_CATEGORY_BY_REASON: Record<string, StartCategory> = {
+  clickrow: 'intentional',
+  playbtn: 'intentional',
+  fwdbtn: 'navigation',
+  backbtn: 'navigation',
+  trackdone: 'continuation'
+};
+
+export const getStartCategory = (reasonStart: string): StartCategory => {
+  return START_CATEGORY_BY_REASON[reasonStart] || 'other';
+};
+
+const emptyCategoryCounts = (): Record<StartCategory, number> => ({
+  intentional: 0,
+  navigation: 0,
+  continuation: 0,
+  other: 0
+});
+
+const toShares = (counts: Record<StartCategory, number>): Record<StartCategory, number> => {
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+  const shares = emptyCategoryCounts();
+  START_CATEGORIES.forEach(({ id }) => {
+    shares[id] = total > 0 ? Number(((counts[id] / total) * 100).toFixed(2)) : 0;
+  });
+  return shares;
+};
+
+const rankByCount = (counts: Map<string, number>): string[] => {
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).map(([reason]) => reason);
+};
+
+/**
+ * Count start and end reasons, overall, per month and per platform
+ * @param rows - Playback starts with a start reason
+ */
+export const analyzePlaybackFlow = (rows: FlowRow[]): PlaybackFlowStats => {
+  const matrix: Record<string, Record<string, number>> = {};
+  const startCounts = new Map<string, number>();
+  const endCounts = new Map<string, number>();
+  const categories = emptyCategoryCounts();
+  const byMonth = new Map<string, Record<StartCategory, number>>();
+  const byPlatform = new Map<string, Record<StartCategory, number>>();
+
+  const addCategory = (map: Map<string, Record<StartCategory, number>>, key: string, category: StartCategory) => {
+    let counts = map.get(key);
+    if (!counts) {
+      counts = emptyCategoryCounts();
+      map.set(key, counts);
+    }
+    counts[category]++;
+  };
+
+  rows.forEach(row => {
+    const reasonEnd = row.reasonEnd || MISSING_REASON;
+    const category = getStartCategory(row.reasonStart);
+
+    matrix[row.reasonStart] = matrix[row.reasonStart] || {};
+    matrix[row.reasonStart][reasonEnd] = (matrix[row.reasonStart][reasonEnd] || 0) + 1;
+    startCounts.set(row.reasonStart, (startCounts.get(row.reasonStart) || 0) + 1);
+    endCounts.set(reasonEnd, (endCounts.get(reasonEnd) || 0) + 1);
+
+    categories[category]++;
+    addCategory(byMonth, row.month, category);
+    if (row.platform) {
+      addCategory(byPlatform, row.platform, category);
+    }
+  });
+
+  const months = Array.from(byMonth.keys()).sort();
+  const monthlyShares = months.map(month => toShares(byMonth.get(month) as Record<StartCategory, number>));
+  const shares = {} as Record<StartCategory, number[]>;
+  START_CATEGORIES.forEach(({ id }) => {
+    shares[id] = monthlyShares.map(monthShares => monthShares[id]);
+  });
+
+  const byPlatformShares: Record<string, Record<StartCategory, number>> = {};
+  byPlatform.forEach((counts, platform) => {
+    byPlatformShares[platform] = toShares(counts);
+  });
+
+  return {
+    total_starts: rows.length,
+    start_reasons: rankByCount(startCounts),
+    end_reasons: rankByCount(endCounts),
+    matrix,
+    categories,
+    monthly: { months, shares },
+    by_platform: byPlatformShares
+  };
+};
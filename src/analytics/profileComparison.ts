@@ -0,0 +1,151 @@
+import { StreamingEntry, ProfileComparison, OverlapScores, SharedEntity, ProfileFavorite } from './types';
+import { getContentKind } from './normalize';
+import { PlayCountingPolicy, DEFAULT_PLAY_COUNTING_POLICY, createPlayClassifier } from './playCounting';
+import { EntityNames, createEntityNames } from './entityNames';
+import { TimezoneSettings, createLocalTimeResolver } from './timezone';
+
+/**
+ * Compare the music taste of two profiles
+ * Both histories are resolved with one set of built-in name rules and no aliases, so the same
+ * artist or track gets the same ID in both profiles. Plays follow each profile's own policy
+ * and hours each profile's own timezone.
+ */
+export interface ProfileListening {
+  entries: StreamingEntry[];
+  policy?: PlayCountingPolicy;
+  timezone?: TimezoneSettings;
+}
+
+// Entries per shared, unique-favorite and blend list
+const LIST_LIMIT = 15;
+
+// Plays each profile needs of a track before it can be in the blend
+export const MIN_BLEND_PLAYS = 3;
+
+interface ProfilePlays {
+  artists: Map<string, number>;
+  tracks: Map<string, number>;
+  total: number;
+  hours: number[];
+}
+
+const countPlays = (profile: ProfileListening, names: EntityNames): ProfilePlays => {
+  const isPlay = createPlayClassifier(profile.entries, profile.policy || DEFAULT_PLAY_COUNTING_POLICY);
+  const localTime = createLocalTimeResolver(profile.timezone);
+  const counts: ProfilePlays = { artists: new Map(), tracks: new Map(), total: 0, hours: Array(24).fill(0) };
+
+  profile.entries.forEach(entry => {
+    if (getContentKind(entry) !== 'track' || !isPlay(entry)) return;
+    counts.total++;
+    counts.hours[localTime(entry.ts).hour]++;
+    const artistId = names.getArtistId(entry);
+    const trackId = names.getTrackId(entry);
+    if (artistId) counts.artists.set(artistId, (counts.artists.get(artistId) || 0) + 1);
+    if (trackId) counts.tracks.set(trackId, (counts.tracks.get(trackId) || 0) + 1);
+  });
+  return counts;
+};
+
+/**
+ * Jaccard index of the sets, and weighted Jaccard of the play shares, as percentages
+ */
+export const getOverlapScores = (first: Map<string, number>, second: Map<string, number>): OverlapScores => {
+  const firstTotal = Array.from(first.values()).reduce((sum, plays) => sum + plays, 0);
+  const secondTotal = Array.from(second.values()).reduce((sum, plays) => sum + plays, 0);
+  const ids = new Set([...first.keys(), ...second.keys()]);
+
+  let shared = 0;
+  let minShares = 0;
+  let maxShares = 0;
+  ids.forEach(id => {
+    const firstShare = firstTotal > 0 ? (first.get(id) || 0) / firstTotal : 0;
+    const secondShare = secondTotal > 0 ? (second.get(id) || 0) / secondTotal : 0;
+    if (first.has(id) && second.has(id)) shared++;
+    minShares += Math.min(firstShare, secondShare);
+    maxShares += Math.max(firstShare, secondShare);
+  });
+
+  return {
+    jaccard: ids.size > 0 ? Number(((shared / ids.size) * 100).toFixed(1)) : 0,
+    weighted: maxShares > 0 ? Number(((minShares / maxShares) * 100).toFixed(1)) : 0
+  };
+};
+
+/**
+ * Find the shared and unique artists and tracks of two profiles, and the tracks they both love
+ */
+export const compareProfiles = (first: ProfileListening, second: ProfileListening): ProfileComparison => {
+  const names = createEntityNames([...first.entries, ...second.entries]);
+  const firstPlays = countPlays(first, names);
+  const secondPlays = countPlays(second, names);
+
+  const artistOf = (id: string) => {
+    const artistId = names.getArtistOf(id);
+    return artistId ? names.getName(artistId) : undefined;
+  };
+
+  const toShared = (id: string, firstMap: Map<string, number>, secondMap: Map<string, number>, withArtist: boolean): SharedEntity => ({
+    id,
+    name: names.getName(id),
+    artist: withArtist ? artistOf(id) : undefined,
+    first_plays: firstMap.get(id) || 0,
+    second_plays: secondMap.get(id) || 0
+  });
+
+  const shared = (firstMap: Map<string, number>, secondMap: Map<string, number>, withArtist: boolean) => {
+    return Array.from(firstMap.keys())
+      .filter(id => secondMap.has(id))
+      .map(id => toShared(id, firstMap, secondMap, withArtist))
+      .sort((a, b) => (b.first_plays + b.second_plays) - (a.first_plays + a.second_plays));
+  };
+
+  // The blend ranks by the smaller of the two play shares, so a track one profile loves
+  // and the other merely knows doesn't make it
+  const share = (plays: number, total: number) => total > 0 ? plays / total : 0;
+  const blendScore = (entity: SharedEntity) => Math.min(
+    share(entity.first_plays, firstPlays.total),
+    share(entity.second_plays, secondPlays.total)
+  );
+
+  const uniqueFavorites = (own: Map<string, number>, other: Map<string, number>, withArtist: boolean): ProfileFavorite[] => {
+    return Array.from(own.entries())
+      .filter(([id]) => !other.has(id))
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, LIST_LIMIT)
+      .map(([id, plays]) => ({ id, name: names.getName(id), artist: withArtist ? artistOf(id) : undefined, plays }));
+  };
+
+  const sharedArtists = shared(firstPlays.artists, secondPlays.artists, false);
+  const sharedTracks = shared(firstPlays.tracks, secondPlays.tracks, true);
+
+  const toHourShares = (plays: ProfilePlays) => plays.hours.map(count => (
+    plays.total > 0 ? Number(((count / plays.total) * 100).toFixed(1)) : 0
+  ));
+
+  return {
+    first_plays: firstPlays.total,
+    second_plays: secondPlays.total,
+    artist_overlap: getOverlapScores(firstPlays.artists, secondPlays.artists),
+    track_overlap: getOverlapScores(firstPlays.tracks, secondPlays.tracks),
+    shared_artist_count: sharedArtists.length,
+    shared_track_count: sharedTracks.length,
+    shared_artists: sharedArtists.slice(0, LIST_LIMIT),
+    shared_tracks: sharedTracks.slice(0, LIST_LIMIT),
+    first_unique: {
+      artists: uniqueFavorites(firstPlays.artists, secondPlays.artists, false),
+      tracks: uniqueFavorites(firstPlays.tracks, secondPlays.tracks, true)
+    },
+    second_unique: {
+      artists: uniqueFavorites(secondPlays.artists, firstPlays.artists, false),
+      tracks: uniqueFavorites(secondPlays.tracks, firstPlays.tracks, true)
+    },
+    hourly_share: {
+      first: toHourShares(firstPlays),
+      second: toHourShares(secondPlays)
+    },
+    blend: sharedTracks
+      .filter(track => track.first_plays >= MIN_BLEND_PLAYS && track.second_plays >= MIN_BLEND_PLAYS)
+      .sort((a, b) => blendScore(b) - blendScore(a))
+      .slice(0, LIST_LIMIT)
+  };
+};
@@ -0,0 +1,166 @@
+import { StreamingEntry, SessionStats } from './types';
+import { LocalTime, createLocalTimeResolver } from './timezone';
+
+/**
+ * Split streaming history into listening sessions
+ * `ts` is when a play ended, so a play started `ms_played` earlier. A session ends when the
+ * gap between the end of one play and the start of the next is longer than the gap threshold.
+ */
+export interface ListeningSession {
+  id: string;
+  // UTC timestamps of the first playback start and the last playback end
+  start: string;
+  end: string;
+  startLocal: LocalTime;
+  endLocal: LocalTime;
+  // Wall-clock length, from the first start to the last end
+  durationMinutes: number;
+  // Time actually played, which is shorter when plays were paused or overlapped
+  listeningMinutes: number;
+  // Rows that count as a play under the profile's policy
+  plays: number;
+  // Every row of the session, in playback order
+  entries: StreamingEntry[];
+}
+
+export interface SessionOptions {
+  // Longest pause that doesn't end a session
+  gapMinutes?: number;
+  // Play classifier of the profile's play-counting policy; every row counts when unset
+  isPlay?: (entry: StreamingEntry) => boolean;
+  localTime?: (ts: string) => LocalTime;
+}
+
+export const DEFAULT_SESSION_GAP_MINUTES = 30;
+
+export const SESSION_GAP_OPTIONS = [10, 15, 20, 30, 45, 60, 90, 120];
+
+export const SESSION_LENGTH_BUCKETS: { label: string; maxMinutes: number }[] = [
+  { label: '< 15 min', maxMinutes: 15 },
+  { label: '15-30 min', maxMinutes: 30 },
+  { label: '30-60 min', maxMinutes: 60 },
+  { label: '1-2 h', maxMinutes: 120 },
+  { label: '2-4 h', maxMinutes: 240 },
+  { label: '4 h+', maxMinutes: Infinity }
+];
+
+interface TimedEntry {
+  entry: StreamingEntry;
+  start: number;
+  end: number;
+}
+
+const buildSession = (
+  rows: TimedEntry[],
+  isPlay: (entry: StreamingEntry) => boolean,
+  localTime: (ts: string) => LocalTime
+): ListeningSession => {
+  const start = rows[0].start;
+  const end = rows.reduce((latest, row) => Math.max(latest, row.end), start);
+  const startIso = new Date(start).toISOString();
+  const endIso = new Date(end).toISOString();
+
+  return {
+    id: `session-${start}`,
+    start: startIso,
+    end: endIso,
+    startLocal: localTime(startIso),
+    endLocal: localTime(endIso),
+    durationMinutes: Number(((end - start) / (1000 * 60)).toFixed(2)),
+    listeningMinutes: Number((rows.reduce((sum, row) => sum + (row.entry.ms_played || 0), 0) / (1000 * 60)).toFixed(2)),
+    plays: rows.filter(row => isPlay(row.entry)).length,
+    entries: rows.map(row => row.entry)
+  };
+};
+
+/**
+ * Group entries into listening sessions
+ * @returns Sessions in chronological order
+ */
+export const detectSessions = (entries: StreamingEntry[], options: SessionOptions = {}): ListeningSession[] => {
+  const {
+    gapMinutes = DEFAULT_SESSION_GAP_MINUTES,
+    isPlay = () => true,
+    localTime = createLocalTimeResolver()
+  } = options;
+  const gapMs = gapMinutes * 60 * 1000;
+
+  const rows: TimedEntry[] = entries
+    .map(entry => {
+      const end = new Date(entry.ts).getTime();
+      return { entry, start: end - (entry.ms_played || 0), end };
+    })
+    .filter(row => !isNaN(row.end))
+    .sort((a, b) => a.start - b.start);
+
+  const sessions: ListeningSession[] = [];
+  let current: TimedEntry[] = [];
+  let currentEnd = 0;
+
+  rows.forEach(row => {
+    if (current.length > 0 && row.start - currentEnd > gapMs) {
+      sessions.push(buildSession(current, isPlay, localTime));
+      current = [];
+    }
+    currentEnd = current.length === 0 ? row.end : Math.max(currentEnd, row.end);
+    current.push(row);
+  });
+
+  if (current.length > 0) {
+    sessions.push(buildSession(current, isPlay, localTime));
+  }
+
+  return sessions;
+};
+
+/**
+ * Summarize sessions for the dashboard
+ */
+export const summarizeSessions = (
+  sessions: ListeningSession[],
+  gapMinutes: number = DEFAULT_SESSION_GAP_MINUTES
+): SessionStats => {
+  const lengthDistribution: Record<string, number> = {};
+  SESSION_LENGTH_BUCKETS.forEach(bucket => {
+    lengthDistribution[bucket.label] = 0;
+  });
+
+  const sessionsByHour: Record<string, number> = {};
+
+  sessions.forEach(session => {
+    const bucket = SESSION_LENGTH_BUCKETS.find(candidate => session.durationMinutes < candidate.maxMinutes);
+    if (bucket) {
+      lengthDistribution[bucket.label]++;
+    }
+
+    const hour = session.startLocal.hour;
+    sessionsByHour[hour] = (sessionsByHour[hour] || 0) + 1;
+  });
+
+  const longest = sessions.reduce<ListeningSession | null>(
+    (best, session) => !best || session.durationMinutes > best.durationMinutes ? session : best,
+    null
+  );
+
+  const durations = sessions.map(session => session.durationMinutes).sort((a, b) => a - b);
+  const middle = Math.floor(durations.length / 2);
+  const median = durations.length === 0
+    ? 0
+    : durations.length % 2 === 1 ? durations[middle] : (durations[middle - 1] + durations[middle]) / 2;
+
+  const totalMinutes = durations.reduce((sum, minutes) => sum + minutes, 0);
+  const totalPlays = sessions.reduce((sum, session) => sum + session.plays, 0);
+
+  return {
+    average_session_minutes: sessions.length > 0 ? Number((totalMinutes / sessions.length).toFixed(2)) : 0,
+    average_tracks_per_session: sessions.length > 0 ? Number((totalPlays / sessions.length).toFixed(2)) : 0,
+    total_sessions: sessions.length,
+    gap_minutes: gapMinutes,
+    median_session_minutes: Number(median.toFixed(2)),
+    longest_session: longest
+      ? { start: longest.start, minutes: longest.durationMinutes, tracks: longest.plays }
+      : null,
+    length_distribution: lengthDistribution,
+    sessions_by_hour: sessionsByHour
+  };
+};
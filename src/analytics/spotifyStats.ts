@@ -0,0 +1,558 @@
+import { StreamingEntry, ContentKind, PodcastStats, SpotifyStats, ContentBreakdown } from './types';
+import { getContentKind, hasPlaybackDetails } from './normalize';
+import { PlayCountingPolicy, DEFAULT_PLAY_COUNTING_POLICY, createPlayClassifier, getCountedMs } from './playCounting';
+import { EntityAliases, createEntityNames } from './entityNames';
+import { TimezoneSettings, LocalTime, createLocalTimeResolver } from './timezone';
+import { DEFAULT_SESSION_GAP_MINUTES, detectSessions, summarizeSessions } from './sessions';
+import { analyzeStreaks, findMilestones } from './streaks';
+import { analyzeDiscovery } from './discovery';
+import { analyzeCompletion, createOutcomeClassifier } from './completion';
+import { analyzePlaybackFlow } from './playbackFlow';
+import { correctOfflineTimestamps } from './offlineCorrection';
+import { simplifyPlatform, analyzeDevices } from './devices';
+import { analyzeTravel } from './travel';
+import { DateRange, getDateBounds, isInDateBounds } from './dateRange';
+import { extractSpotifyIdFromUri } from '../utils/spotifyUtils';
+
+/**
+ * Summarize podcast and audiobook listening
+ * @param jsonData - Entries to summarize; only episodes and audiobook chapters are used
+ * @param isPlay - Play classifier of the profile's play-counting policy
+ */
+export const analyzePodcastListening = (
+  jsonData: StreamingEntry[],
+  isPlay: (item: StreamingEntry) => boolean,
+  policy: PlayCountingPolicy,
+  localTime: (ts: string) => LocalTime = createLocalTimeResolver()
+): PodcastStats => {
+  const countedMs = (item: StreamingEntry) => getCountedMs(item, isPlay(item), policy);
+  const episodes = jsonData.filter(item => getContentKind(item) === 'episode');
+  const audiobookMs = jsonData
+    .filter(item => getContentKind(item) === 'audiobook')
+    .reduce((sum, item) => sum + countedMs(item), 0);
+  
+  const showMs: Record<string, number> = {};
+  const monthlyShowMs: Record<string, Record<string, number>> = {};
+  const episodeOutcomes = new Map<string, { finished: boolean; known: boolean }>();
+  
+  episodes.forEach(item => {
+    const show = item.episode_show_name || 'Unknown Show';
+    showMs[show] = (showMs[show] || 0) + countedMs(item);
+    
+    const month = localTime(item.ts).month; // YYYY-MM
+    monthlyShowMs[month] = monthlyShowMs[month] || {};
+    monthlyShowMs[month][show] = (monthlyShowMs[month][show] || 0) + countedMs(item);
+    
+    // An episode counts as finished if any play of it ran to the end
+    const episodeKey = item.spotify_episode_uri || `${show}::${item.episode_name}`;
+    const outcome = episodeOutcomes.get(episodeKey) || { finished: false, known: false };
+    if (hasPlaybackDetails(item) && item.reason_end) {
+      outcome.known = true;
+      outcome.finished = outcome.finished || item.reason_end === 'trackdone';
+    }
+    episodeOutcomes.set(episodeKey, outcome);
+  });
+  
+  const rankedShows = Object.entries(showMs).sort((a, b) => b[1] - a[1]);
+  
+  const topShows: Record<string, number> = {};
+  rankedShows.slice(0, 10).forEach(([show, ms]) => {
+    topShows[show] = Number((ms / (1000 * 60 * 60)).toFixed(2));
+  });
+  
+  // Hours per month for the five most listened shows
+  const months = Object.keys(monthlyShowMs).sort();
+  const showHoursByMonth: Record<string, number[]> = {};
+  rankedShows.slice(0, 5).forEach(([show]) => {
+    showHoursByMonth[show] = months.map(month => Number(((monthlyShowMs[month][show] || 0) / (1000 * 60 * 60)).toFixed(2)));
+  });
+  
+  const outcomes = Array.from(episodeOutcomes.values()).filter(outcome => outcome.known);
+  
+  return {
+    total_hours: Number((episodes.reduce((sum, item) => sum + countedMs(item), 0) / (1000 * 60 * 60)).toFixed(2)),
+    total_plays: episodes.filter(isPlay).length,
+    unique_shows: rankedShows.length,
+    unique_episodes: episodeOutcomes.size,
+    episodes_finished: outcomes.filter(outcome => outcome.finished).length,
+    episodes_abandoned: outcomes.filter(outcome => !outcome.finished).length,
+    top_shows: topShows,
+    monthly_show_hours: {
+      months,
+      shows: showHoursByMonth
+    },
+    audiobook_hours: Number((audiobookMs / (1000 * 60 * 60)).toFixed(2))
+  };
+};
+
+export interface AnalysisOptions {
+  // Limit the statistics to one kind of content
+  contentKind?: ContentKind | 'all';
+  // The profile's play-counting policy
+  policy?: PlayCountingPolicy;
+  // The profile's artist, track and album aliases
+  aliases?: EntityAliases;
+  // The listener's timezones; hours, weekdays and dates are computed in local time
+  timezone?: TimezoneSettings;
+  // Longest pause between two plays of the same listening session
+  sessionGapMinutes?: number;
+  // Move offline plays from their sync time to when they were played (on by default)
+  correctOfflinePlays?: boolean;
+  // Limit the statistics to a range of local dates
+  dateRange?: DateRange;
+}
+
+/**
+ * Compute every dashboard statistic from a list of streaming entries
+ * @param sourceData - Normalized entries of the profile
+ * @param options - Per-profile settings the statistics depend on
+ */
+export const analyzeSpotifyData = (
+  sourceData: StreamingEntry[],
+  options: AnalysisOptions = {}
+): SpotifyStats => {
+  const {
+    contentKind = 'all',
+    policy = DEFAULT_PLAY_COUNTING_POLICY,
+    aliases,
+    timezone,
+    sessionGapMinutes = DEFAULT_SESSION_GAP_MINUTES,
+    correctOfflinePlays = true,
+    dateRange
+  } = options;
+  const localTime = createLocalTimeResolver(timezone);
+  
+  // Every statistic uses the corrected play times; the raw data is returned as it was stored
+  const offlineCorrection = correctOfflineTimestamps(sourceData, correctOfflinePlays);
+  const correctedData = offlineCorrection.entries;
+  
+  // Play counts only include rows that count as a play under the profile's policy;
+  // listening time may also include the rest, depending on the policy
+  const isPlay = createPlayClassifier(correctedData, policy);
+  const countedMs = (item: StreamingEntry) => getCountedMs(item, isPlay(item), policy);
+  
+  // Every aggregation below can be limited to a range of local dates...
+  const dateBounds = getDateBounds(dateRange, correctedData, localTime);
+  const inRange = dateBounds && correctedData.map(item => isInDateBounds(localTime(item.ts).date, dateBounds));
+  const allData = inRange ? correctedData.filter((_, index) => inRange[index]) : correctedData;
+  
+  // ...and to one kind of content
+  const isSelectedKind = (item: StreamingEntry) => contentKind === 'all' || getContentKind(item) === contentKind;
+  const jsonData = contentKind === 'all' ? allData : allData.filter(isSelectedKind);
+  const historyData = dateBounds ? correctedData.filter(isSelectedKind) : jsonData;
+  
+  // Listening time and plays per kind of content, always over every kind
+  const contentBreakdown: Record<string, ContentBreakdown> = {
+    track: { plays: 0, hours: 0 },
+    episode: { plays: 0, hours: 0 },
+    audiobook: { plays: 0, hours: 0 }
+  };
+  allData.forEach(item => {
+    const breakdown = contentBreakdown[getContentKind(item)];
+    breakdown.plays += isPlay(item) ? 1 : 0;
+    breakdown.hours += countedMs(item) / (1000 * 60 * 60);
+  });
+  Object.values(contentBreakdown).forEach(breakdown => {
+    breakdown.hours = Number(breakdown.hours.toFixed(2));
+  });
+  
+  // Artists, tracks and albums are counted by canonical entity, so spelling variants and aliases add up;
+  // names come from the whole history so that a date range doesn't change them
+  const names = createEntityNames(historyData, aliases);
+  
+  // Convert timestamps to local time and extract Spotify IDs
+  const toRow = (item: StreamingEntry) => {
+    // Extract Spotify ID from URI if available
+    let spotifyId = null;
+    if (item.spotify_track_uri) {
+      spotifyId = extractSpotifyIdFromUri(item.spotify_track_uri);
+    }
+    
+    return {
+      ...item,
+      local: localTime(item.ts),
+      skipped: item.skipped || false,
+      offline: item.offline || false,
+      shuffle: item.shuffle || false,
+      content_kind: getContentKind(item),
+      spotify_id: spotifyId,
+      artist_id: names.getArtistId(item),
+      track_id: names.getTrackId(item),
+      album_id: names.getAlbumId(item)
+    };
+  };
+  const data = jsonData.map(toRow);
+  
+  // Milestones and discoveries are found in the whole history, then limited to the range
+  const history = dateBounds ? historyData.map(toRow) : data;
+  
+  const plays = data.filter(isPlay);
+  
+  // Calculate basic stats
+  const totalMs = data.reduce((sum, item) => sum + countedMs(item), 0);
+  const totalHours = totalMs / (1000 * 60 * 60);
+  const totalMinutes = totalMs / (1000 * 60);
+  
+  // Count unique artists, albums, tracks
+  const uniqueArtists = new Set(plays.map(item => item.artist_id).filter(Boolean)).size;
+  const uniqueAlbums = new Set(plays.map(item => item.album_id).filter(Boolean)).size;
+  const uniqueTracks = new Set(plays.map(item => item.track_id).filter(Boolean)).size;
+  
+  // Calculate average track length
+  const playedMs = plays.reduce((sum, item) => sum + (item.ms_played || 0), 0);
+  const avgTrackLength = plays.length > 0 ? playedMs / plays.length / 1000 : 0;
+  
+  // Count skips, offline plays, shuffle plays
+  // These rates describe every playback start, so skips shorter than a play still count
+  // Account data entries don't record these, so they are left out instead of counting as false
+  const detailedData = data.filter(hasPlaybackDetails);
+  const skipCount = detailedData.filter(item => item.skipped).length;
+  const offlineCount = detailedData.filter(item => item.offline).length;
+  const shuffleCount = detailedData.filter(item => item.shuffle).length;
+  
+  const skipRate = detailedData.length > 0 ? (skipCount / detailedData.length) * 100 : 0;
+  const offlineRate = detailedData.length > 0 ? (offlineCount / detailedData.length) * 100 : 0;
+  const shuffleRate = detailedData.length > 0 ? (shuffleCount / detailedData.length) * 100 : 0;
+  
+  // Get hourly distribution
+  const hourlyDistribution: Record<string, number> = {};
+  plays.forEach(item => {
+    const hour = item.local.hour;
+    hourlyDistribution[hour] = (hourlyDistribution[hour] || 0) + 1;
+  });
+  
+  // Get daily distribution
+  const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+  const dailyDistribution: Record<string, number> = {};
+  plays.forEach(item => {
+    const day = days[item.local.dayOfWeek];
+    dailyDistribution[day] = (dailyDistribution[day] || 0) + 1;
+  });
+  
+  // Get monthly distribution
+  const monthlyDistribution: Record<string, number> = {};
+  plays.forEach(item => {
+    const month = item.local.monthOfYear; // 1-12
+    monthlyDistribution[month] = (monthlyDistribution[month] || 0) + 1;
+  });
+  
+  // Find peak hour and day
+  let peakHour = 0;
+  let maxHourCount = 0;
+  Object.entries(hourlyDistribution).forEach(([hour, count]) => {
+    if (count > maxHourCount) {
+      maxHourCount = count;
+      peakHour = parseInt(hour);
+    }
+  });
+  
+  let peakDay = 'Monday';
+  let maxDayCount = 0;
+  Object.entries(dailyDistribution).forEach(([day, count]) => {
+    if (count > maxDayCount) {
+      maxDayCount = count;
+      peakDay = day;
+    }
+  });
+  
+  // Get platform stats
+  const platformStats: Record<string, number> = {};
+  detailedData.forEach(item => {
+    if (item.platform) {
+      const platform = simplifyPlatform(item.platform);
+      platformStats[platform] = (platformStats[platform] || 0) + 1;
+    }
+  });
+  
+  // Get top artists, tracks, albums
+  const artistCounts: Record<string, number> = {};
+  const trackCounts: Record<string, number> = {};
+  const albumCounts: Record<string, number> = {};
+  
+  // Only music tracks take part in the top lists; episodes and audiobooks have no track metadata
+  plays.filter(item => item.content_kind === 'track').forEach(item => {
+    if (item.artist_id) {
+      artistCounts[item.artist_id] = (artistCounts[item.artist_id] || 0) + 1;
+    }
+    
+    if (item.track_id) {
+      trackCounts[item.track_id] = (trackCounts[item.track_id] || 0) + 1;
+    }
+    
+    if (item.album_id) {
+      albumCounts[item.album_id] = (albumCounts[item.album_id] || 0) + 1;
+    }
+  });
+  
+  // Sort and get top 10
+  const topArtists: Record<string, number> = {};
+  Object.entries(artistCounts)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 10)
+    .forEach(([id, count]) => {
+      const name = names.getName(id);
+      topArtists[name] = (topArtists[name] || 0) + count;
+    });
+  
+  const topTracks: Record<string, number> = {};
+  Object.entries(trackCounts)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 10)
+    .forEach(([id, count]) => {
+      const name = names.getName(id);
+      topTracks[name] = (topTracks[name] || 0) + count;
+    });
+  
+  const topAlbums: Record<string, number> = {};
+  Object.entries(albumCounts)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 10)
+    .forEach(([id, count]) => {
+      const name = names.getName(id);
+      topAlbums[name] = (topAlbums[name] || 0) + count;
+    });
+  
+  // Streaks count local days with at least one play
+  const streaks = analyzeStreaks(
+    plays.map(item => ({ date: item.local.date, artistId: item.artist_id, trackId: item.track_id })),
+    names
+  );
+  
+  // The first play of every eventual top-10 artist is a milestone
+  const topArtistIds = Object.entries(artistCounts)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 10)
+    .map(([id]) => id);
+  const milestones = findMilestones(
+    history.map(item => ({
+      ts: item.ts,
+      date: item.local.date,
+      isPlay: isPlay(item),
+      countedMs: countedMs(item),
+      artistId: item.artist_id,
+      trackId: item.track_id,
+      title: item.episode_name || item.audiobook_chapter_title || item.master_metadata_track_name || 'Unknown'
+    })),
+    topArtistIds,
+    names
+  ).filter(milestone => isInDateBounds(milestone.date, dateBounds));
+  
+  // Discovery covers music only; episodes and audiobooks have no artists or albums
+  const toDiscoveryRow = (item: typeof data[number]) => ({
+    ts: item.ts,
+    local: item.local,
+    isPlay: isPlay(item),
+    countedMs: countedMs(item),
+    artistId: item.artist_id,
+    albumId: item.album_id,
+    trackId: item.track_id
+  });
+  const discoveryRows = data.filter(item => item.content_kind === 'track').map(toDiscoveryRow);
+  const discovery = analyzeDiscovery(
+    discoveryRows,
+    topArtistIds,
+    names,
+    dateBounds ? history.filter(item => item.content_kind === 'track').map(toDiscoveryRow) : discoveryRows
+  );
+  
+  // Skips and completions are judged against track lengths inferred from the whole history,
+  // so a date range doesn't change them
+  const getOutcome = createOutcomeClassifier(correctedData);
+  const completionStats = analyzeCompletion(
+    data.filter(item => item.content_kind === 'track').map(item => ({
+      month: item.local.month,
+      artistId: item.artist_id,
+      trackId: item.track_id,
+      outcome: getOutcome(item)
+    })),
+    names
+  );
+  
+  // Start and end reasons of every playback start that records them
+  const playbackFlow = analyzePlaybackFlow(
+    detailedData
+      .filter(item => item.reason_start)
+      .map(item => ({
+        month: item.local.month,
+        platform: item.platform ? simplifyPlatform(item.platform) : null,
+        reasonStart: item.reason_start as string,
+        reasonEnd: item.reason_end || null
+      }))
+  );
+  
+  // Devices are told apart by the model recorded in the platform string
+  const devices = analyzeDevices(
+    detailedData
+      .filter(item => item.platform)
+      .map(item => ({
+        date: item.local.date,
+        platform: item.platform as string,
+        isPlay: isPlay(item),
+        countedMs: countedMs(item)
+      }))
+  );
+  
+  // Countries come from the connection of every row of the extended history
+  const travel = analyzeTravel(
+    detailedData
+      .filter(item => item.conn_country)
+      .map(item => ({
+        ts: item.ts,
+        date: item.local.date,
+        month: item.local.month,
+        country: item.conn_country as string,
+        isPlay: isPlay(item),
+        countedMs: countedMs(item),
+        artistId: item.content_kind === 'track' ? item.artist_id : null
+      })),
+    names
+  );
+  
+  // Generate daily trends (simplified)
+  const dateMap = new Map();
+  data.forEach(item => {
+    const dateStr = item.local.date;
+    if (!dateMap.has(dateStr)) {
+      dateMap.set(dateStr, {
+        ms_played: 0,
+        tracks: 0,
+        detailed: 0,
+        skipped: 0,
+        offline: 0,
+        shuffle: 0
+      });
+    }
+    
+    const dateStats = dateMap.get(dateStr);
+    dateStats.ms_played += countedMs(item);
+    dateStats.tracks += isPlay(item) ? 1 : 0;
+    if (hasPlaybackDetails(item)) {
+      dateStats.detailed += 1;
+      dateStats.skipped += item.skipped ? 1 : 0;
+      dateStats.offline += item.offline ? 1 : 0;
+      dateStats.shuffle += item.shuffle ? 1 : 0;
+    }
+  });
+  
+  // Convert to arrays for charting
+  const dates: string[] = [];
+  const hoursPlayed: number[] = [];
+  const tracksPlayed: number[] = [];
+  const skipRates: number[] = [];
+  const offlineRates: number[] = [];
+  const shuffleRates: number[] = [];
+  
+  // Sort dates
+  Array.from(dateMap.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .forEach(([date, stats]) => {
+      dates.push(date);
+      hoursPlayed.push(Number((stats.ms_played / (1000 * 60 * 60)).toFixed(2)));
+      tracksPlayed.push(stats.tracks);
+      const detailed = stats.detailed || 1; // Avoid dividing by zero on days with only account data
+      skipRates.push(Number(((stats.skipped / detailed) * 100).toFixed(2)));
+      offlineRates.push(Number(((stats.offline / detailed) * 100).toFixed(2)));
+      shuffleRates.push(Number(((stats.shuffle / detailed) * 100).toFixed(2)));
+    });
+  
+  // Sessions are separated by pauses longer than the gap threshold
+  const sessions = detectSessions(jsonData, { gapMinutes: sessionGapMinutes, isPlay, localTime });
+  
+  // Calculate 7-day rolling averages (simplified)
+  const rollingHours: number[] = [];
+  const rollingTracks: number[] = [];
+  const rollingSkipRates: number[] = [];
+  const rollingOfflineRates: number[] = [];
+  const rollingShuffleRates: number[] = [];
+  
+  for (let i = 0; i < dates.length; i++) {
+    const window = 7;
+    const start = Math.max(0, i - window + 1);
+    const end = i + 1;
+    
+    const windowHours = hoursPlayed.slice(start, end);
+    const windowTracks = tracksPlayed.slice(start, end);
+    const windowSkipRates = skipRates.slice(start, end);
+    const windowOfflineRates = offlineRates.slice(start, end);
+    const windowShuffleRates = shuffleRates.slice(start, end);
+    
+    const avgHours = windowHours.reduce((sum, val) => sum + val, 0) / windowHours.length;
+    const avgTracks = windowTracks.reduce((sum, val) => sum + val, 0) / windowTracks.length;
+    const avgSkipRate = windowSkipRates.reduce((sum, val) => sum + val, 0) / windowSkipRates.length;
+    const avgOfflineRate = windowOfflineRates.reduce((sum, val) => sum + val, 0) / windowOfflineRates.length;
+    const avgShuffleRate = windowShuffleRates.reduce((sum, val) => sum + val, 0) / windowShuffleRates.length;
+    
+    rollingHours.push(Number(avgHours.toFixed(2)));
+    rollingTracks.push(Math.round(avgTracks));
+    rollingSkipRates.push(Number(avgSkipRate.toFixed(2)));
+    rollingOfflineRates.push(Number(avgOfflineRate.toFixed(2)));
+    rollingShuffleRates.push(Number(avgShuffleRate.toFixed(2)));
+  }
+  
+  // Construct the final data structure
+  return {
+    stats: {
+      total_stats: {
+        total_listening_hours: Number(totalHours.toFixed(2)),
+        total_listening_minutes: Number(totalMinutes.toFixed(2)),
+        total_tracks_played: plays.length,
+        unique_artists: uniqueArtists,
+        unique_albums: uniqueAlbums,
+        unique_tracks: uniqueTracks,
+        average_track_length_seconds: Number(avgTrackLength.toFixed(2))
+      },
+      listening_patterns: {
+        peak_hour: peakHour,
+        peak_day: peakDay,
+        hourly_distribution: hourlyDistribution,
+        daily_distribution: dailyDistribution,
+        monthly_distribution: monthlyDistribution
+      },
+      behavior_stats: {
+        skip_rate: Number(skipRate.toFixed(2)),
+        offline_rate: Number(offlineRate.toFixed(2)),
+        shuffle_rate: Number(shuffleRate.toFixed(2))
+      },
+      session_stats: summarizeSessions(sessions, sessionGapMinutes),
+      platform_stats: platformStats,
+      top_content: {
+        top_artists: topArtists,
+        top_tracks: topTracks,
+        top_albums: topAlbums
+      },
+      content_breakdown: contentBreakdown,
+      podcast_stats: analyzePodcastListening(jsonData, isPlay, policy, localTime),
+      streaks,
+      milestones,
+      discovery,
+      completion_stats: completionStats,
+      playback_flow: playbackFlow,
+      offline_correction: offlineCorrection.report,
+      devices,
+      travel,
+      date_range: dateBounds
+    },
+    trends: {
+      daily_stats: {
+        dates,
+        hours_played: hoursPlayed,
+        tracks_played: tracksPlayed,
+        skip_rate: skipRates,
+        offline_rate: offlineRates,
+        shuffle_rate: shuffleRates
+      },
+      rolling_averages: {
+        dates,
+        hours_played: rollingHours,
+        tracks_played: rollingTracks,
+        skip_rate: rollingSkipRates,
+        offline_rate: rollingOfflineRates,
+        shuffle_rate: rollingShuffleRates
+      }
+    },
+    // Include the raw data in the result
+    rawData: contentKind === 'all' && !inRange
+      ? sourceData
+      : sourceData.filter((item, index) => (!inRange || inRange[index]) && isSelectedKind(item))
+  };
+};
@@ -0,0 +1,197 @@
+import { Streak, EntityStreak, StreakStats, Milestone } from './types';
+import { EntityNames } from './entityNames';
+
+/**
+ * Continuity of listening: runs of consecutive listening days, and the dates of milestones
+ * Days are local dates, so a late-night session counts toward the day it happened on.
+ */
+export interface StreakPlay {
+  // Local date (YYYY-MM-DD)
+  date: string;
+  artistId: string | null;
+  trackId: string | null;
+}
+
+export interface MilestoneRow {
+  ts: string;
+  date: string;
+  isPlay: boolean;
+  // Milliseconds the row adds to listening time
+  countedMs: number;
+  artistId: string | null;
+  trackId: string | null;
+  // Shown for rows without a track, e.g. podcast episodes
+  title: string;
+}
+
+export const PLAY_MILESTONES = [1000, 5000, 10000, 25000, 50000, 100000];
+
+export const HOUR_MILESTONES = [100, 500, 1000, 2500, 5000];
+
+// Entity streaks shown per list
+const ENTITY_STREAK_LIMIT = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDayNumber = (date: string) => Math.round(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+
+/**
+ * Split dates into runs of consecutive days
+ * @returns Runs in chronological order
+ */
+export const findStreaks = (dates: Iterable<string>): Streak[] => {
+  const streaks: Streak[] = [];
+
+  Array.from(new Set(dates)).sort().forEach(date => {
+    const last = streaks[streaks.length - 1];
+    if (last && toDayNumber(date) - toDayNumber(last.end) === 1) {
+      last.end = date;
+      last.days++;
+    } else {
+      streaks.push({ start: date, end: date, days: 1 });
+    }
+  });
+
+  return streaks;
+};
+
+/**
+ * The longest run; the earliest one wins a tie
+ */
+export const getLongestStreak = (streaks: Streak[]): Streak | null => {
+  return streaks.reduce<Streak | null>((best, streak) => !best || streak.days > best.days ? streak : best, null);
+};
+
+const getTopEntityStreaks = (
+  datesByEntity: Map<string, Set<string>>,
+  names: Pick<EntityNames, 'getName' | 'getArtistOf'>,
+  withArtist: boolean
+): EntityStreak[] => {
+  const streaks: EntityStreak[] = [];
+
+  datesByEntity.forEach((dates, id) => {
+    // A single day is not a streak
+    if (dates.size < 2) return;
+    const longest = getLongestStreak(findStreaks(dates));
+    if (!longest || longest.days < 2) return;
+
+    const artistId = withArtist ? names.getArtistOf(id) : null;
+    streaks.push({
+      ...longest,
+      id,
+      name: names.getName(id),
+      artist: artistId ? names.getName(artistId) : undefined
+    });
+  });
+
+  return streaks
+    .sort((a, b) => b.days - a.days || b.end.localeCompare(a.end))
+    .slice(0, ENTITY_STREAK_LIMIT);
+};
+
+/**
+ * Daily listening streaks, overall and per artist and track
+ * @param plays - Rows that count as a play
+ */
+export const analyzeStreaks = (
+  plays: StreakPlay[],
+  names: Pick<EntityNames, 'getName' | 'getArtistOf'>
+): StreakStats => {
+  const dates = new Set<string>();
+  const artistDates = new Map<string, Set<string>>();
+  const trackDates = new Map<string, Set<string>>();
+
+  const addDate = (map: Map<string, Set<string>>, id: string, date: string) => {
+    const entityDates = map.get(id);
+    if (entityDates) {
+      entityDates.add(date);
+    } else {
+      map.set(id, new Set([date]));
+    }
+  };
+
+  plays.forEach(play => {
+    dates.add(play.date);
+    if (play.artistId) addDate(artistDates, play.artistId, play.date);
+    if (play.trackId) addDate(trackDates, play.trackId, play.date);
+  });
+
+  const streaks = findStreaks(dates);
+
+  return {
+    longest: getLongestStreak(streaks),
+    current: streaks[streaks.length - 1] || null,
+    top_artist_streaks: getTopEntityStreaks(artistDates, names, false),
+    top_track_streaks: getTopEntityStreaks(trackDates, names, true)
+  };
+};
+
+/**
+ * Dates of play-count and listening-hour milestones and of the first play of each top artist
+ * @param rows - Every row, counted toward hours according to the play-counting policy
+ * @param topArtistIds - Artists whose first play is a milestone
+ * @returns Milestones in chronological order
+ */
+export const findMilestones = (
+  rows: MilestoneRow[],
+  topArtistIds: string[],
+  names: Pick<EntityNames, 'getName'>
+): Milestone[] => {
+  const sorted = [...rows].sort((a, b) => new Date(a.ts).getTime() - new Date(b.ts).getTime());
+  const milestones: Milestone[] = [];
+
+  const describe = (row: MilestoneRow) => {
+    if (!row.trackId) return row.title;
+    return row.artistId ? `${names.getName(row.trackId)} by ${names.getName(row.artistId)}` : names.getName(row.trackId);
+  };
+
+  const pendingArtists = new Set(topArtistIds);
+  let playCount = 0;
+  let countedMs = 0;
+  let nextPlayMilestone = 0;
+  let nextHourMilestone = 0;
+
+  sorted.forEach(row => {
+    countedMs += row.countedMs;
+    while (nextHourMilestone < HOUR_MILESTONES.length && countedMs >= HOUR_MILESTONES[nextHourMilestone] * 60 * 60 * 1000) {
+      milestones.push({
+        kind: 'hours',
+        ts: row.ts,
+        date: row.date,
+        title: `${HOUR_MILESTONES[nextHourMilestone].toLocaleString()} hours of listening`
+      });
+      nextHourMilestone++;
+    }
+
+    if (!row.isPlay) return;
+    playCount++;
+
+    if (playCount === 1) {
+      milestones.push({ kind: 'first_play', ts: row.ts, date: row.date, title: 'First play', detail: describe(row) });
+    }
+
+    if (nextPlayMilestone < PLAY_MILESTONES.length && playCount === PLAY_MILESTONES[nextPlayMilestone]) {
+      milestones.push({
+        kind: 'plays',
+        ts: row.ts,
+        date: row.date,
+        title: `${playCount.toLocaleString()}th play`,
+        detail: describe(row)
+      });
+      nextPlayMilestone++;
+    }
+
+    if (row.artistId && pendingArtists.has(row.artistId)) {
+      pendingArtists.delete(row.artistId);
+      milestones.push({
+        kind: 'artist',
+        ts: row.ts,
+        date: row.date,
+        title: `First play of ${names.getName(row.artistId)}`,
+        detail: describe(row)
+      });
+    }
+  });
+
+  return milestones;
+};
@@ -0,0 +1,81 @@
+import { StreamingEntry, SpotifyStats } from './types';
+import { normalizeStreamingData } from './normalize';
+import { removeDuplicates } from './dedupe';
+import { analyzeSpotifyData, AnalysisOptions } from './spotifyStats';
+import { isValidStreamingEntry } from './validation';
+import { JsonArrayStreamParser } from '../utils/jsonArrayStreamParser';
+
+/**
+ * Analyze a streaming history JSON file that is read in chunks
+ * Works on any async iterable of bytes or text, e.g. a Node.js read stream in the Electron main process.
+ */
+export interface StreamAnalysisProgress {
+  phase: 'parsing' | 'analyzing';
+  bytesRead: number;
+  totalBytes: number;
+  records: number;
+}
+
+export interface StreamAnalysisOptions extends AnalysisOptions {
+  // Size of the source, used for progress (0 if unknown)
+  totalBytes?: number;
+  onProgress?: (progress: StreamAnalysisProgress) => void;
+}
+
+export interface StreamAnalysisResult {
+  data: SpotifyStats;
+  records: number;
+  // Records that failed schema validation or were duplicates
+  rejected: number;
+}
+
+// Progress is reported at most this often while parsing
+const PROGRESS_INTERVAL_MS = 100;
+
+/**
+ * Stream-parse a streaming history file and compute its statistics
+ * @param chunks - The file contents in chunks
+ * @returns The same statistics the app computes in the browser
+ */
+export const analyzeStreamingHistory = async (
+  chunks: AsyncIterable<Uint8Array | string>,
+  options: StreamAnalysisOptions = {}
+): Promise<StreamAnalysisResult> => {
+  const { totalBytes = 0, onProgress, ...analysisOptions } = options;
+  const parser = new JsonArrayStreamParser();
+  const decoder = new TextDecoder('utf-8');
+  const rows: unknown[] = [];
+  let bytesRead = 0;
+  let lastReport = 0;
+
+  const report = (phase: StreamAnalysisProgress['phase']) => {
+    onProgress?.({ phase, bytesRead, totalBytes, records: rows.length });
+  };
+
+  for await (const chunk of chunks) {
+    const text = typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    bytesRead += typeof chunk === 'string' ? chunk.length : chunk.byteLength;
+    rows.push(...parser.push(text));
+
+    const now = Date.now();
+    if (now - lastReport >= PROGRESS_INTERVAL_MS) {
+      lastReport = now;
+      report('parsing');
+    }
+  }
+
+  rows.push(...parser.push(decoder.decode()));
+  parser.end();
+  report('analyzing');
+
+  const entries: StreamingEntry[] = removeDuplicates(normalizeStreamingData(rows).filter(isValidStreamingEntry));
+  if (entries.length === 0) {
+    throw new Error("No valid streaming history records found. This doesn't appear to be valid Spotify streaming data.");
+  }
+
+  return {
+    data: analyzeSpotifyData(entries, analysisOptions),
+    records: rows.length,
+    rejected: rows.length - entries.length
+  };
+};
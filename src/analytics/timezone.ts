@@ -0,0 +1,179 @@
+/**
+ * Convert UTC timestamps to the listener's local time
+ * Every profile has a home timezone, plus dated overrides for periods spent elsewhere.
+ * Hours, weekdays and dates are always computed in that timezone, never in the timezone
+ * of the machine that renders the dashboard.
+ */
+export interface TimezoneOverride {
+  id: string;
+  // First and last day of the period (YYYY-MM-DD, inclusive)
+  start: string;
+  end: string;
+  // IANA timezone name, e.g. "America/New_York"
+  timeZone: string;
+  label?: string;
+}
+
+export interface TimezoneSettings {
+  timeZone: string;
+  overrides: TimezoneOverride[];
+}
+
+export interface LocalTime {
+  // YYYY-MM-DD
+  date: string;
+  // YYYY-MM
+  month: string;
+  year: number;
+  // 1-12
+  monthOfYear: number;
+  hour: number;
+  minute: number;
+  // 0 (Sunday) - 6 (Saturday)
+  dayOfWeek: number;
+}
+
+// Offsets only change on quarter hours, so they are looked up once per quarter hour per timezone
+const OFFSET_BUCKET_MS = 15 * 60 * 1000;
+
+let overrideCounter = 0;
+
+/**
+ * The timezone of the machine running the app, used when a profile has no timezone yet
+ */
+export const getSystemTimeZone = (): string => {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+};
+
+export const getDefaultTimezoneSettings = (): TimezoneSettings => ({
+  timeZone: getSystemTimeZone(),
+  overrides: []
+});
+
+/**
+ * Whether a name is a timezone the runtime knows
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * All IANA timezone names the runtime supports, for pickers
+ */
+export const getSupportedTimeZones = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] };
+  return intl.supportedValuesOf ? intl.supportedValuesOf('timeZone') : ['UTC', getSystemTimeZone()];
+};
+
+export const createTimezoneOverride = (start: string, end: string, timeZone: string, label?: string): TimezoneOverride => {
+  overrideCounter++;
+  return {
+    id: `tz-${Date.now().toString(36)}-${overrideCounter}`,
+    start,
+    end,
+    timeZone,
+    label
+  };
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Offset of a timezone from UTC at a moment, in milliseconds
+ */
+export const getTimeZoneOffset = (timeZone: string, time: number): number => {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(time))) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+
+  const local = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute);
+  const utcMinute = Math.floor(time / 60000) * 60000;
+  return local - utcMinute;
+};
+
+/**
+ * The timezone that applies to a timestamp under the profile's settings
+ * Overrides are matched on the UTC date; later overrides win over earlier ones.
+ */
+export const getTimeZoneAt = (settings: TimezoneSettings, ts: string): string => {
+  const day = ts.slice(0, 10);
+  for (let i = settings.overrides.length - 1; i >= 0; i--) {
+    const override = settings.overrides[i];
+    if (day >= override.start && day <= override.end) {
+      return override.timeZone;
+    }
+  }
+  return settings.timeZone;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Create a function that converts timestamps to local time under the profile's settings
+ */
+export const createLocalTimeResolver = (
+  settings: TimezoneSettings = getDefaultTimezoneSettings()
+): (ts: string) => LocalTime => {
+  const offsets = new Map<string, number>();
+  const validZones = new Map<string, boolean>();
+
+  const getOffset = (timeZone: string, time: number): number => {
+    if (!validZones.has(timeZone)) {
+      validZones.set(timeZone, isValidTimeZone(timeZone));
+    }
+    if (!validZones.get(timeZone)) {
+      return 0;
+    }
+
+    const bucket = Math.floor(time / OFFSET_BUCKET_MS);
+    const key = `${timeZone}|${bucket}`;
+    let offset = offsets.get(key);
+    if (offset === undefined) {
+      offset = getTimeZoneOffset(timeZone, bucket * OFFSET_BUCKET_MS);
+      offsets.set(key, offset);
+    }
+    return offset;
+  };
+
+  return (ts: string) => {
+    const time = new Date(ts).getTime();
+    const local = new Date(time + getOffset(getTimeZoneAt(settings, ts), time));
+    const year = local.getUTCFullYear();
+    const monthOfYear = local.getUTCMonth() + 1;
+
+    return {
+      date: `${year}-${pad(monthOfYear)}-${pad(local.getUTCDate())}`,
+      month: `${year}-${pad(monthOfYear)}`,
+      year,
+      monthOfYear,
+      hour: local.getUTCHours(),
+      minute: local.getUTCMinutes(),
+      dayOfWeek: local.getUTCDay()
+    };
+  };
+};
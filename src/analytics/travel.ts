@@ -0,0 +1,179 @@
+import { TravelStats, CountryUsage, Trip } from './types';
+import { EntityNames } from './entityNames';
+
+/**
+ * Listening by country, from the `conn_country` of every row
+ * The country where most listening time was spent is home. A trip is a run of consecutive
+ * plays from one other country, which ends with the first play from anywhere else.
+ */
+export interface CountryRow {
+  ts: string;
+  // Local date (YYYY-MM-DD) and month (YYYY-MM)
+  date: string;
+  month: string;
+  // ISO 3166-1 alpha-2 code
+  country: string;
+  isPlay: boolean;
+  countedMs: number;
+  artistId: string | null;
+}
+
+// Shorter runs are usually a VPN or a misattributed connection rather than a trip
+export const MIN_TRIP_PLAYS = 5;
+
+// Countries charted per month; the rest are summed up as "Other"
+const CHARTED_COUNTRIES = 6;
+
+// Top artists listed per country
+const ARTISTS_PER_COUNTRY = 5;
+
+// Spotify records "ZZ" when it couldn't tell the country
+const UNKNOWN_COUNTRY = 'ZZ';
+
+/**
+ * The main timezone of a country, for countries spanning several the one of the capital
+ * Used to suggest a timezone for a trip; the override stays editable in the settings.
+ */
+export const COUNTRY_TIME_ZONES: Record<string, string> = {
+  AE: 'Asia/Dubai', AR: 'America/Argentina/Buenos_Aires', AT: 'Europe/Vienna', AU: 'Australia/Sydney',
+  BE: 'Europe/Brussels', BG: 'Europe/Sofia', BR: 'America/Sao_Paulo', CA: 'America/Toronto',
+  CH: 'Europe/Zurich', CL: 'America/Santiago', CN: 'Asia/Shanghai', CO: 'America/Bogota',
+  CY: 'Asia/Nicosia', CZ: 'Europe/Prague', DE: 'Europe/Berlin', DK: 'Europe/Copenhagen',
+  EE: 'Europe/Tallinn', EG: 'Africa/Cairo', ES: 'Europe/Madrid', FI: 'Europe/Helsinki',
+  FR: 'Europe/Paris', GB: 'Europe/London', GR: 'Europe/Athens', HK: 'Asia/Hong_Kong',
+  HR: 'Europe/Zagreb', HU: 'Europe/Budapest', ID: 'Asia/Jakarta', IE: 'Europe/Dublin',
+  IL: 'Asia/Jerusalem', IN: 'Asia/Kolkata', IS: 'Atlantic/Reykjavik', IT: 'Europe/Rome',
+  JP: 'Asia/Tokyo', KE: 'Africa/Nairobi', KR: 'Asia/Seoul', LT: 'Europe/Vilnius',
+  LU: 'Europe/Luxembourg', LV: 'Europe/Riga', MA: 'Africa/Casablanca', MT: 'Europe/Malta',
+  MX: 'America/Mexico_City', MY: 'Asia/Kuala_Lumpur', NG: 'Africa/Lagos', NL: 'Europe/Amsterdam',
+  NO: 'Europe/Oslo', NZ: 'Pacific/Auckland', PE: 'America/Lima', PH: 'Asia/Manila',
+  PL: 'Europe/Warsaw', PT: 'Europe/Lisbon', RO: 'Europe/Bucharest', RS: 'Europe/Belgrade',
+  SA: 'Asia/Riyadh', SE: 'Europe/Stockholm', SG: 'Asia/Singapore', SI: 'Europe/Ljubljana',
+  SK: 'Europe/Bratislava', TH: 'Asia/Bangkok', TR: 'Europe/Istanbul', TW: 'Asia/Taipei',
+  UA: 'Europe/Kyiv', US: 'America/New_York', VN: 'Asia/Ho_Chi_Minh', ZA: 'Africa/Johannesburg'
+};
+
+/**
+ * English name of a country code, or the code itself when the runtime doesn't know it
+ */
+export const getCountryName = (country: string): string => {
+  const intl = Intl as typeof Intl & {
+    DisplayNames?: new (locales: string[], options: { type: 'region' }) => { of: (code: string) => string | undefined };
+  };
+  if (country === UNKNOWN_COUNTRY || !intl.DisplayNames) return country;
+  try {
+    return new intl.DisplayNames(['en'], { type: 'region' }).of(country) || country;
+  } catch {
+    return country;
+  }
+};
+
+const toHours = (ms: number) => Number((ms / (1000 * 60 * 60)).toFixed(2));
+
+const daysBetween = (start: string, end: string) => {
+  return Math.round((new Date(`${end}T00:00:00Z`).getTime() - new Date(`${start}T00:00:00Z`).getTime()) / (24 * 60 * 60 * 1000)) + 1;
+};
+
+/**
+ * Find the home country, trips abroad and listening per country
+ * @param rows - Rows with a known country
+ */
+export const analyzeTravel = (rows: CountryRow[], names: Pick<EntityNames, 'getName'>): TravelStats => {
+  const sorted = rows
+    .filter(row => row.country && row.country !== UNKNOWN_COUNTRY)
+    .sort((a, b) => new Date(a.ts).getTime() - new Date(b.ts).getTime());
+
+  const byCountry = new Map<string, { ms: number; plays: number; dates: Set<string>; first: string; last: string; artists: Map<string, number> }>();
+  const byMonth = new Map<string, Map<string, number>>();
+
+  sorted.forEach(row => {
+    let country = byCountry.get(row.country);
+    if (!country) {
+      country = { ms: 0, plays: 0, dates: new Set(), first: row.date, last: row.date, artists: new Map() };
+      byCountry.set(row.country, country);
+    }
+    country.ms += row.countedMs;
+    country.dates.add(row.date);
+    if (row.date < country.first) country.first = row.date;
+    if (row.date > country.last) country.last = row.date;
+    if (row.isPlay) {
+      country.plays++;
+      if (row.artistId) country.artists.set(row.artistId, (country.artists.get(row.artistId) || 0) + 1);
+    }
+
+    const month = byMonth.get(row.month) || new Map<string, number>();
+    month.set(row.country, (month.get(row.country) || 0) + row.countedMs);
+    byMonth.set(row.month, month);
+  });
+
+  const countries: CountryUsage[] = Array.from(byCountry.entries())
+    .map(([code, country]) => ({
+      country: code,
+      name: getCountryName(code),
+      hours: toHours(country.ms),
+      plays: country.plays,
+      active_days: country.dates.size,
+      first_date: country.first,
+      last_date: country.last,
+      top_artists: Array.from(country.artists.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, ARTISTS_PER_COUNTRY)
+        .map(([id, plays]) => ({ id, name: names.getName(id), plays }))
+    }))
+    .sort((a, b) => b.hours - a.hours || b.plays - a.plays);
+
+  const homeCountry = countries.length > 0 ? countries[0].country : null;
+
+  // Runs of consecutive plays from the same country away from home
+  const trips: Trip[] = [];
+  let run: { country: string; first: CountryRow; last: CountryRow; plays: number; ms: number } | null = null;
+  const closeRun = () => {
+    if (run && run.plays >= MIN_TRIP_PLAYS) {
+      trips.push({
+        country: run.country,
+        name: getCountryName(run.country),
+        start: run.first.date,
+        end: run.last.date,
+        days: daysBetween(run.first.date, run.last.date),
+        plays: run.plays,
+        hours: toHours(run.ms)
+      });
+    }
+    run = null;
+  };
+
+  sorted.forEach(row => {
+    if (run && run.country !== row.country) closeRun();
+    if (row.country === homeCountry) return;
+    if (!run) {
+      run = { country: row.country, first: row, last: row, plays: 0, ms: 0 };
+    }
+    run.last = row;
+    run.plays += row.isPlay ? 1 : 0;
+    run.ms += row.countedMs;
+  });
+  closeRun();
+
+  const months = Array.from(byMonth.keys()).sort();
+  const charted = countries.slice(0, CHARTED_COUNTRIES).map(country => country.country);
+  const hours: Record<string, number[]> = {};
+  charted.forEach(code => {
+    hours[code] = months.map(month => toHours(byMonth.get(month)?.get(code) || 0));
+  });
+  if (countries.length > CHARTED_COUNTRIES) {
+    hours.other = months.map(month => {
+      let ms = 0;
+      byMonth.get(month)?.forEach((countryMs, code) => {
+        if (!charted.includes(code)) ms += countryMs;
+      });
+      return toHours(ms);
+    });
+  }
+
+  return {
+    home_country: homeCountry,
+    countries,
+    trips,
+    monthly: { months, hours }
+  };
+};
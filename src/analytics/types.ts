@@ -0,0 +1,428 @@
+/**
+ * The shared data model of the analytics engine
+ * Every part of the app (components, services, workers and the Electron main process)
+ * reads streaming history through these types.
+ */
+export type ContentKind = 'track' | 'episode' | 'audiobook';
+
+/**
+ * A single row of the extended streaming history
+ * Rows from the basic account data export are converted to this shape as well.
+ */
+export interface StreamingEntry {
+  ts: string;
+  ms_played: number;
+  master_metadata_track_name: string;
+  master_metadata_album_artist_name: string;
+  master_metadata_album_album_name?: string;
+  spotify_track_uri?: string | null;
+  platform?: string;
+  // ISO 3166-1 alpha-2 code of the country the play was streamed from
+  conn_country?: string | null;
+  ip_addr?: string | null;
+  ip_addr_decrypted?: string | null;
+  shuffle?: boolean | null;
+  skipped?: boolean | null;
+  offline?: boolean | null;
+  offline_timestamp?: string | number | boolean | null;
+  incognito_mode?: boolean;
+  reason_start?: string;
+  reason_end?: string;
+  episode_name?: string | null;
+  episode_show_name?: string | null;
+  spotify_episode_uri?: string | null;
+  audiobook_title?: string | null;
+  audiobook_uri?: string | null;
+  audiobook_chapter_title?: string | null;
+  audiobook_chapter_uri?: string | null;
+  content_kind?: ContentKind;
+  // 'basic' entries come from the account data export, which has no skip, shuffle, offline or platform details
+  data_fidelity?: 'full' | 'basic';
+  // Every import batch that contained this entry
+  import_batch_ids?: string[];
+  // The import batch that first added this entry, on entries stored before every batch was recorded
+  import_batch_id?: string;
+}
+
+/**
+ * Entry shape of the basic "Account data" export
+ * Music files (StreamingHistory_music_N.json) have artist and track names,
+ * podcast files (StreamingHistory_podcast_N.json) have show and episode names.
+ */
+export interface AccountStreamingEntry {
+  // UTC time the play ended, to the minute ("2019-03-04 12:34")
+  endTime: string;
+  msPlayed: number;
+  artistName?: string;
+  trackName?: string;
+  podcastName?: string;
+  episodeName?: string;
+}
+
+export type StreamingDataFormat = 'extended' | 'account' | 'unknown';
+
+export interface ProcessedStreamingEntry extends StreamingEntry {
+  date: string;
+  hour: number;
+  dayOfWeek: number;
+  duration_minutes: number;
+}
+
+export interface ContentBreakdown {
+  plays: number;
+  hours: number;
+}
+
+export interface PodcastStats {
+  total_hours: number;
+  total_plays: number;
+  unique_shows: number;
+  unique_episodes: number;
+  episodes_finished: number;
+  episodes_abandoned: number;
+  top_shows: Record<string, number>;
+  monthly_show_hours: {
+    months: string[];
+    shows: Record<string, number[]>;
+  };
+  audiobook_hours: number;
+}
+
+export interface DailySeries {
+  dates: string[];
+  hours_played: number[];
+  tracks_played: number[];
+  skip_rate: number[];
+  offline_rate: number[];
+  shuffle_rate: number[];
+}
+
+export interface SessionSummary {
+  // UTC timestamp of the first playback start
+  start: string;
+  minutes: number;
+  tracks: number;
+}
+
+export interface SessionStats {
+  average_session_minutes: number;
+  average_tracks_per_session: number;
+  total_sessions: number;
+  // The fields below are missing from stats saved before sessions were detected
+  gap_minutes?: number;
+  median_session_minutes?: number;
+  longest_session?: SessionSummary | null;
+  // Sessions per length bucket, shortest first
+  length_distribution?: Record<string, number>;
+  // Sessions per local start hour
+  sessions_by_hour?: Record<string, number>;
+}
+
+export interface Streak {
+  // First and last local date of the run of consecutive listening days (YYYY-MM-DD)
+  start: string;
+  end: string;
+  days: number;
+}
+
+export interface EntityStreak extends Streak {
+  id: string;
+  name: string;
+  // Artist of a track streak
+  artist?: string;
+}
+
+export interface StreakStats {
+  longest: Streak | null;
+  // The run that reaches the last day of the history
+  current: Streak | null;
+  top_artist_streaks: EntityStreak[];
+  top_track_streaks: EntityStreak[];
+}
+
+export type MilestoneKind = 'first_play' | 'plays' | 'hours' | 'artist';
+
+export interface Milestone {
+  kind: MilestoneKind;
+  // UTC timestamp of the play that reached the milestone, and its local date
+  ts: string;
+  date: string;
+  title: string;
+  detail?: string;
+}
+
+export interface DiscoveryLag {
+  id: string;
+  name: string;
+  // Local dates of the first play and of the play that made the artist a favorite
+  discovered: string;
+  favorite: string | null;
+  lag_days: number | null;
+  plays: number;
+}
+
+export interface DiscoveryStats {
+  months: string[];
+  new_artists: number[];
+  new_albums: number[];
+  new_tracks: number[];
+  // Percentage of each month's music listening time spent on tracks first played that month
+  discovery_share: number[];
+  // Top artists, in ranking order
+  favorite_lag: DiscoveryLag[];
+}
+
+export interface CompletionEntry {
+  id: string;
+  name: string;
+  // Artist of a track
+  artist?: string;
+  // Playback starts with skip and end details
+  starts: number;
+  skip_rate: number;
+  completion_rate: number;
+}
+
+export interface CompletionStats {
+  most_skipped_tracks: CompletionEntry[];
+  always_finished_artists: CompletionEntry[];
+  skip_rate_trend: {
+    months: string[];
+    skip_rate: number[];
+    completion_rate: number[];
+  };
+}
+
+export type StartCategory = 'intentional' | 'navigation' | 'continuation' | 'other';
+
+export interface PlaybackFlowStats {
+  // Playback starts with a start reason
+  total_starts: number;
+  // Reasons seen in the data, most frequent first
+  start_reasons: string[];
+  end_reasons: string[];
+  // Start reason -> end reason -> playback starts
+  matrix: Record<string, Record<string, number>>;
+  // Playback starts per category
+  categories: Record<StartCategory, number>;
+  // Percentage of each month's starts per category
+  monthly: {
+    months: string[];
+    shares: Record<StartCategory, number[]>;
+  };
+  // Percentage of each platform's starts per category
+  by_platform: Record<string, Record<StartCategory, number>>;
+}
+
+export interface OfflineCorrectionStats {
+  // Whether the analysis used corrected play times
+  enabled: boolean;
+  offline_entries: number;
+  // Offline entries whose device play time differs from the sync time; they are moved when enabled
+  corrected: number;
+  // Offline entries kept at their sync time because offline_timestamp was missing or implausible
+  implausible: number;
+}
+
+export type DeviceClass = 'phone' | 'tablet' | 'desktop' | 'web' | 'tv' | 'speaker' | 'console' | 'car' | 'watch' | 'other';
+
+export interface DeviceUsage {
+  // The device's model name when the platform records one, otherwise its family like "Windows Desktop"
+  id: string;
+  name: string;
+  os_family: string;
+  device_class: DeviceClass;
+  manufacturer: string | null;
+  model: string | null;
+  // OS versions seen on the device, oldest first
+  os_versions: string[];
+  // Local dates of the first and last use (YYYY-MM-DD)
+  first_used: string;
+  last_used: string;
+  active_days: number;
+  hours: number;
+  plays: number;
+}
+
+export interface DeviceStats {
+  // Devices ordered by first use
+  devices: DeviceUsage[];
+}
+
+export interface CountryUsage {
+  // ISO 3166-1 alpha-2 code
+  country: string;
+  name: string;
+  hours: number;
+  plays: number;
+  active_days: number;
+  // Local dates of the first and last play from the country (YYYY-MM-DD)
+  first_date: string;
+  last_date: string;
+  top_artists: { id: string; name: string; plays: number }[];
+}
+
+export interface Trip {
+  country: string;
+  name: string;
+  // Local dates of the first and last play of the trip (YYYY-MM-DD, inclusive)
+  start: string;
+  end: string;
+  days: number;
+  plays: number;
+  hours: number;
+}
+
+export interface TravelStats {
+  // The country with the most listening time
+  home_country: string | null;
+  // Most listening time first
+  countries: CountryUsage[];
+  // Chronological
+  trips: Trip[];
+  // Hours per month for the most listened countries, the rest summed up under "other"
+  monthly: {
+    months: string[];
+    hours: Record<string, number[]>;
+  };
+}
+
+export interface DateBounds {
+  // First and last local day (YYYY-MM-DD, inclusive)
+  start: string;
+  end: string;
+}
+
+/**
+ * Everything the dashboard shows, computed from a list of entries
+ */
+export interface SpotifyStats {
+  stats: {
+    total_stats: {
+      total_listening_hours: number;
+      total_listening_minutes: number;
+      total_tracks_played: number;
+      unique_artists: number;
+      unique_albums: number;
+      unique_tracks: number;
+      average_track_length_seconds: number;
+    };
+    listening_patterns: {
+      peak_hour: number;
+      peak_day: string;
+      hourly_distribution: Record<string, number>;
+      daily_distribution: Record<string, number>;
+      monthly_distribution: Record<string, number>;
+    };
+    behavior_stats: {
+      skip_rate: number;
+      offline_rate: number;
+      shuffle_rate: number;
+    };
+    session_stats: SessionStats;
+    platform_stats: Record<string, number>;
+    top_content: {
+      top_artists: Record<string, number>;
+      top_tracks: Record<string, number>;
+      top_albums: Record<string, number>;
+    };
+    content_breakdown?: Record<string, ContentBreakdown>;
+    podcast_stats?: PodcastStats;
+    streaks?: StreakStats;
+    // Chronological
+    milestones?: Milestone[];
+    discovery?: DiscoveryStats;
+    completion_stats?: CompletionStats;
+    playback_flow?: PlaybackFlowStats;
+    offline_correction?: OfflineCorrectionStats;
+    devices?: DeviceStats;
+    travel?: TravelStats;
+    // Local dates the statistics are limited to; null or missing for the whole history
+    date_range?: DateBounds | null;
+  };
+  trends: {
+    daily_stats: DailySeries;
+    rolling_averages: DailySeries;
+  };
+  rawData: StreamingEntry[];
+}
+
+export interface StatDelta {
+  first: number;
+  second: number;
+  // Second minus first
+  change: number;
+  // Relative to the first period, or null when it was zero
+  change_percent: number | null;
+}
+
+export type RankingStatus = 'new' | 'up' | 'down' | 'same' | 'dropped';
+
+export interface RankingChange {
+  name: string;
+  // Positions in the second and first period's top list, null when not in it
+  rank: number | null;
+  previous_rank: number | null;
+  plays: number | null;
+  previous_plays: number | null;
+  status: RankingStatus;
+}
+
+/**
+ * How a second period differs from a first one
+ */
+export interface PeriodComparison {
+  total_stats: Record<
+    'total_listening_hours' | 'total_tracks_played' | 'unique_artists' | 'unique_albums' | 'unique_tracks' | 'average_track_length_seconds',
+    StatDelta
+  >;
+  behavior_stats: Record<'skip_rate' | 'offline_rate' | 'shuffle_rate', StatDelta>;
+  top_content: Record<'top_artists' | 'top_tracks' | 'top_albums', RankingChange[]>;
+}
+
+export interface OverlapScores {
+  // Share of all artists or tracks that both profiles played (0-100)
+  jaccard: number;
+  // Weighted Jaccard of the play shares (0-100): 100 when both spread their plays the same way
+  weighted: number;
+}
+
+export interface SharedEntity {
+  id: string;
+  name: string;
+  // Artist of a track
+  artist?: string;
+  first_plays: number;
+  second_plays: number;
+}
+
+export interface ProfileFavorite {
+  id: string;
+  name: string;
+  // Artist of a track
+  artist?: string;
+  plays: number;
+}
+
+/**
+ * How the music taste of two profiles overlaps
+ */
+export interface ProfileComparison {
+  // Music plays of each profile
+  first_plays: number;
+  second_plays: number;
+  artist_overlap: OverlapScores;
+  track_overlap: OverlapScores;
+  shared_artist_count: number;
+  shared_track_count: number;
+  // Played by both, most combined plays first
+  shared_artists: SharedEntity[];
+  shared_tracks: SharedEntity[];
+  // Most played artists and tracks the other profile never played
+  first_unique: { artists: ProfileFavorite[]; tracks: ProfileFavorite[] };
+  second_unique: { artists: ProfileFavorite[]; tracks: ProfileFavorite[] };
+  // Percentage of each profile's plays per local hour
+  hourly_share: { first: number[]; second: number[] };
+  // Tracks both profiles play heavily
+  blend: SharedEntity[];
+}
@@ -0,0 +1,216 @@
+import { extractSpotifyIdFromUri, SpotifyUriType } from '../utils/spotifyUtils';
+
+/**
+ * Validate streaming history records against the extended streaming history schema
+ * Records that fail are kept aside in a quarantine list instead of being dropped.
+ */
+type FieldType = 'string' | 'number' | 'boolean';
+
+interface FieldSchema {
+  types: FieldType[];
+  required?: boolean;
+  nullable?: boolean;
+  format?: 'iso-timestamp' | 'non-negative' | 'spotify-uri';
+  uriType?: SpotifyUriType;
+}
+
+export type QuarantineReason =
+  | 'not_an_object'
+  | 'missing_field'
+  | 'invalid_type'
+  | 'invalid_timestamp'
+  | 'negative_value'
+  | 'invalid_uri';
+
+export interface ValidationIssue {
+  field: string;
+  reason: QuarantineReason;
+  message: string;
+}
+
+export interface QuarantinedRecord {
+  id: string;
+  record: unknown;
+  // The first issue decides which group the record is reported under
+  reason: QuarantineReason;
+  issues: ValidationIssue[];
+  source?: string;
+  // Import batch the record arrived with
+  batchId?: string;
+  quarantinedAt: string;
+}
+
+/**
+ * Fields of the extended streaming history export
+ * Unknown fields are allowed so that newer exports still import.
+ */
+export const STREAMING_ENTRY_SCHEMA: Record<string, FieldSchema> = {
+  ts: { types: ['string'], required: true, format: 'iso-timestamp' },
+  ms_played: { types: ['number'], required: true, format: 'non-negative' },
+  username: { types: ['string'], nullable: true },
+  platform: { types: ['string'], nullable: true },
+  conn_country: { types: ['string'], nullable: true },
+  ip_addr: { types: ['string'], nullable: true },
+  ip_addr_decrypted: { types: ['string'], nullable: true },
+  user_agent_decrypted: { types: ['string'], nullable: true },
+  master_metadata_track_name: { types: ['string'], nullable: true },
+  master_metadata_album_artist_name: { types: ['string'], nullable: true },
+  master_metadata_album_album_name: { types: ['string'], nullable: true },
+  spotify_track_uri: { types: ['string'], nullable: true, format: 'spotify-uri', uriType: 'track' },
+  episode_name: { types: ['string'], nullable: true },
+  episode_show_name: { types: ['string'], nullable: true },
+  spotify_episode_uri: { types: ['string'], nullable: true, format: 'spotify-uri', uriType: 'episode' },
+  audiobook_title: { types: ['string'], nullable: true },
+  audiobook_uri: { types: ['string'], nullable: true, format: 'spotify-uri', uriType: 'audiobook' },
+  audiobook_chapter_title: { types: ['string'], nullable: true },
+  audiobook_chapter_uri: { types: ['string'], nullable: true, format: 'spotify-uri', uriType: 'chapter' },
+  reason_start: { types: ['string'], nullable: true },
+  reason_end: { types: ['string'], nullable: true },
+  shuffle: { types: ['boolean'], nullable: true },
+  skipped: { types: ['boolean'], nullable: true },
+  offline: { types: ['boolean'], nullable: true },
+  offline_timestamp: { types: ['number', 'string'], nullable: true },
+  incognito_mode: { types: ['boolean'], nullable: true }
+};
+
+// Without a usable timestamp and play time a record can't be analyzed at all
+const BLOCKING_FIELDS = new Set(['ts', 'ms_played']);
+
+const ISO_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+let quarantineCounter = 0;
+
+const isIsoTimestamp = (value: string): boolean => {
+  return ISO_TIMESTAMP_PATTERN.test(value) && !isNaN(new Date(value).getTime());
+};
+
+const validateField = (field: string, schema: FieldSchema, value: unknown): ValidationIssue | null => {
+  if (value === undefined || (schema.required && value === '')) {
+    return schema.required
+      ? { field, reason: 'missing_field', message: `${field} is missing` }
+      : null;
+  }
+
+  if (value === null) {
+    return schema.nullable
+      ? null
+      : { field, reason: 'missing_field', message: `${field} is null` };
+  }
+
+  if (!schema.types.includes(typeof value as FieldType)) {
+    return {
+      field,
+      reason: 'invalid_type',
+      message: `${field} should be a ${schema.types.join(' or ')}, got ${typeof value}`
+    };
+  }
+
+  switch (schema.format) {
+    case 'iso-timestamp':
+      if (!isIsoTimestamp(value as string)) {
+        return { field, reason: 'invalid_timestamp', message: `${field} "${value}" is not an ISO 8601 timestamp` };
+      }
+      break;
+    case 'non-negative':
+      if (!Number.isFinite(value) || (value as number) < 0) {
+        return { field, reason: 'negative_value', message: `${field} must be a non-negative number, got ${value}` };
+      }
+      break;
+    case 'spotify-uri':
+      if (!extractSpotifyIdFromUri(value as string, schema.uriType)) {
+        return { field, reason: 'invalid_uri', message: `${field} "${value}" is not a Spotify ${schema.uriType} URI` };
+      }
+      break;
+  }
+
+  return null;
+};
+
+/**
+ * Check a single record against the streaming history schema
+ * @returns Every issue found, or an empty list for a valid record
+ */
+export const validateStreamingEntry = (record: unknown): ValidationIssue[] => {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    return [{ field: '', reason: 'not_an_object', message: 'Record is not an object' }];
+  }
+
+  const values = record as Record<string, unknown>;
+  const issues: ValidationIssue[] = [];
+
+  for (const [field, schema] of Object.entries(STREAMING_ENTRY_SCHEMA)) {
+    const issue = validateField(field, schema, values[field]);
+    if (issue) {
+      issues.push(issue);
+    }
+  }
+
+  return issues;
+};
+
+/**
+ * Whether a record passes schema validation
+ */
+export const isValidStreamingEntry = (record: unknown): boolean => {
+  return validateStreamingEntry(record).length === 0;
+};
+
+/**
+ * Whether a quarantined record may be re-admitted without being fixed
+ * Issues in optional fields are tolerated, missing or broken timestamps and play times are not.
+ */
+export const canReadmitAsIs = (issues: ValidationIssue[]): boolean => {
+  return issues.every(issue => issue.reason !== 'not_an_object' && !BLOCKING_FIELDS.has(issue.field));
+};
+
+/**
+ * Wrap a rejected record for the quarantine list
+ */
+export const createQuarantinedRecord = (
+  record: unknown,
+  issues: ValidationIssue[],
+  source?: string,
+  batchId?: string
+): QuarantinedRecord => {
+  quarantineCounter++;
+  return {
+    id: `q-${Date.now().toString(36)}-${quarantineCounter}`,
+    record,
+    reason: issues[0].reason,
+    issues,
+    source,
+    batchId,
+    quarantinedAt: new Date().toISOString()
+  };
+};
+
+/**
+ * Add newly quarantined records to a profile's list, skipping records that are already in it
+ */
+export const mergeQuarantine = (existing: QuarantinedRecord[], incoming: QuarantinedRecord[]): QuarantinedRecord[] => {
+  const seen = new Set(existing.map(item => JSON.stringify(item.record)));
+  const merged = [...existing];
+
+  for (const item of incoming) {
+    const key = JSON.stringify(item.record);
+    if (!seen.has(key)) {
+      seen.add(key);
+      merged.push(item);
+    }
+  }
+
+  return merged;
+};
+
+/**
+ * Group quarantined records by the reason they were rejected
+ */
+export const groupQuarantineByReason = (records: QuarantinedRecord[]): Partial<Record<QuarantineReason, QuarantinedRecord[]>> => {
+  const groups: Partial<Record<QuarantineReason, QuarantinedRecord[]>> = {};
+
+  for (const item of records) {
+    (groups[item.reason] ||= []).push(item);
+  }
+
+  return groups;
+};
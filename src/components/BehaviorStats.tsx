@@ -1,16 +1,26 @@
 import React from 'react';
-import { Shuffle, Wifi, Clock, Smartphone, Laptop, Speaker, Music } from 'lucide-react';
-import { Doughnut } from 'react-chartjs-2';
+import { Shuffle, Wifi, Clock, Smartphone, Laptop, Speaker, Music, SkipForward, CheckCircle } from 'lucide-react';
+import { Doughnut, Line } from 'react-chartjs-2';
 import { 
   Chart as ChartJS, 
   ArcElement, 
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
   Tooltip, 
   Legend 
 } from 'chart.js';
+import { CompletionStats, DeviceStats, COMPLETION_THRESHOLD, MIN_STARTS_FOR_RANKING } from '../analytics';
+import DeviceTimeline from './DeviceTimeline';
 
 // Register ChartJS components
 ChartJS.register(
   ArcElement, 
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
   Tooltip, 
   Legend
 );
@@ -27,11 +37,15 @@ interface BehaviorStatsProps {
     total_sessions: number;
   };
   platformStats: Record<string, number>;
+  completionStats?: CompletionStats;
+  deviceStats?: DeviceStats;
 }
 
 const BehaviorStats: React.FC<BehaviorStatsProps> = ({ 
   behaviorStats, 
-  platformStats 
+  platformStats,
+  completionStats,
+  deviceStats
 }) => {
   // Provide default values if data is missing
   const safeBehaviorStats = {
@@ -108,6 +122,67 @@ const BehaviorStats: React.FC<BehaviorStatsProps> = ({
     },
   };
 
+  // Skip and completion trend per month
+  const skipTrendData = completionStats && {
+    labels: completionStats.skip_rate_trend.months,
+    datasets: [
+      {
+        label: 'Skip rate (%)',
+        data: completionStats.skip_rate_trend.skip_rate,
+        borderColor: 'rgba(239, 68, 68, 1)',
+        backgroundColor: 'rgba(239, 68, 68, 0.2)',
+        tension: 0.4,
+        pointRadius: 2,
+      },
+      {
+        label: 'Completion rate (%)',
+        data: completionStats.skip_rate_trend.completion_rate,
+        borderColor: 'rgba(34, 197, 94, 1)',
+        backgroundColor: 'rgba(34, 197, 94, 0.2)',
+        tension: 0.4,
+        pointRadius: 2,
+      },
+    ],
+  };
+
+  const trendOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'top' as const,
+        labels: {
+          color: 'rgba(255, 255, 255, 0.7)',
+        },
+      },
+      tooltip: {
+        backgroundColor: 'rgba(0, 0, 0, 0.8)',
+        titleColor: '#fff',
+        bodyColor: '#fff',
+      },
+    },
+    scales: {
+      y: {
+        beginAtZero: true,
+        max: 100,
+        grid: {
+          color: 'rgba(255, 255, 255, 0.1)',
+        },
+        ticks: {
+          color: 'rgba(255, 255, 255, 0.7)',
+        },
+      },
+      x: {
+        grid: {
+          display: false,
+        },
+        ticks: {
+          color: 'rgba(255, 255, 255, 0.7)',
+        },
+      },
+    },
+  };
+
   // Get platform icon
   const getPlatformIcon = (platform: string) => {
     const lowerPlatform = platform.toLowerCase();
@@ -212,6 +287,73 @@ const BehaviorStats: React.FC<BehaviorStatsProps> = ({
           </ul>
         </div>
       </div>
+
+      {deviceStats && <DeviceTimeline deviceStats={deviceStats} />}
+      
+      {completionStats && (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+            <div className="bg-gray-700 rounded-lg p-6 shadow-lg">
+              <div className="flex items-center mb-4">
+                <SkipForward className="h-6 w-6 text-red-400 mr-3" />
+                <h3 className="text-xl font-bold">Most Skipped Tracks</h3>
+              </div>
+              {completionStats.most_skipped_tracks.length === 0 ? (
+                <p className="text-gray-400 text-sm">No track has been started {MIN_STARTS_FOR_RANKING} times yet.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {completionStats.most_skipped_tracks.map(track => (
+                    <li key={track.id} className="flex justify-between items-center bg-gray-800 rounded-lg px-4 py-2">
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{track.name}</p>
+                        <p className="text-gray-400 text-xs truncate">{track.artist}</p>
+                      </div>
+                      <div className="text-right ml-4 flex-shrink-0">
+                        <p className="text-red-400 font-bold">{track.skip_rate}%</p>
+                        <p className="text-gray-400 text-xs">of {track.starts.toLocaleString()} starts</p>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="bg-gray-700 rounded-lg p-6 shadow-lg">
+              <div className="flex items-center mb-4">
+                <CheckCircle className="h-6 w-6 text-green-400 mr-3" />
+                <h3 className="text-xl font-bold">Artists You Always Finish</h3>
+              </div>
+              {completionStats.always_finished_artists.length === 0 ? (
+                <p className="text-gray-400 text-sm">No artist has been started {MIN_STARTS_FOR_RANKING} times yet.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {completionStats.always_finished_artists.map(artist => (
+                    <li key={artist.id} className="flex justify-between items-center bg-gray-800 rounded-lg px-4 py-2">
+                      <p className="font-medium truncate">{artist.name}</p>
+                      <div className="text-right ml-4 flex-shrink-0">
+                        <p className="text-green-400 font-bold">{artist.completion_rate}%</p>
+                        <p className="text-gray-400 text-xs">of {artist.starts.toLocaleString()} starts</p>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          {skipTrendData && completionStats.skip_rate_trend.months.length > 1 && (
+            <div className="bg-gray-700 rounded-lg p-6 shadow-lg mb-8">
+              <h3 className="text-xl font-bold mb-4">Skip Rate Over Time</h3>
+              <div className="h-64">
+                <Line data={skipTrendData} options={trendOptions} />
+              </div>
+              <p className="mt-4 text-gray-400 text-sm">
+                A skipped play never counts as finished. Any other play is finished when it ran to the end or reached {Math.round(COMPLETION_THRESHOLD * 100)}% of the longest unskipped play of the same track.
+              </p>
+            </div>
+          )}
+        </>
+      )}
       
       <div className="bg-gray-700 rounded-lg p-6">
         <h3 className="text-xl font-bold mb-4">Understanding Your Behavior</h3>
@@ -0,0 +1,244 @@
+import React, { useState, useMemo } from 'react';
+import { CalendarDays, X } from 'lucide-react';
+import {
+  StreamingEntry,
+  LocalTime,
+  ListeningDay,
+  CalendarMetric,
+  CALENDAR_METRICS,
+  getCalendarWeeks,
+  getHeatLevel
+} from '../analytics';
+
+interface CalendarHeatmapProps {
+  // Listening days by local date, from the corrected history under the profile's policy
+  days: Map<string, ListeningDay>;
+  isPlay: (entry: StreamingEntry) => boolean;
+  localTime: (ts: string) => LocalTime;
+}
+
+// One class per heat level, from no listening to the busiest days
+const LEVEL_CLASSES = ['bg-gray-800', 'bg-green-900', 'bg-green-700', 'bg-green-500', 'bg-green-300'];
+
+const WEEKDAY_LABELS = ['', 'Mon', '', 'Wed', '', 'Fri', ''];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatDuration = (minutes: number) => {
+  if (minutes < 60) {
+    return `${Math.round(minutes)}m`;
+  }
+  return `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}m`;
+};
+
+const formatPlayTime = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${pad(seconds % 60)}`;
+};
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+  weekday: 'long',
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric',
+  timeZone: 'UTC'
+});
+
+const getEntryTitle = (entry: StreamingEntry) => {
+  return entry.master_metadata_track_name || entry.episode_name || entry.audiobook_chapter_title || 'Unknown';
+};
+
+const getEntryCreator = (entry: StreamingEntry) => {
+  return entry.master_metadata_album_artist_name || entry.episode_show_name || entry.audiobook_title || '';
+};
+
+const CalendarHeatmap: React.FC<CalendarHeatmapProps> = ({ days, isPlay, localTime }) => {
+  const [metric, setMetric] = useState<CalendarMetric>('minutes');
+  const [selectedYear, setSelectedYear] = useState<number | null>(null);
+  const [hoveredDate, setHoveredDate] = useState<string | null>(null);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+
+  const years = useMemo(() => {
+    return Array.from(new Set(Array.from(days.keys()).map(date => Number(date.slice(0, 4))))).sort((a, b) => a - b);
+  }, [days]);
+
+  // The newest year until one is picked
+  const year = selectedYear !== null && years.includes(selectedYear) ? selectedYear : years[years.length - 1];
+
+  const weeks = useMemo(() => (year ? getCalendarWeeks(year) : []), [year]);
+
+  const yearDays = Array.from(days.values()).filter(day => day.date.startsWith(`${year}-`));
+  const maxValue = yearDays.reduce((max, day) => Math.max(max, day[metric]), 0);
+  const yearTotals = yearDays.reduce(
+    (totals, day) => ({ plays: totals.plays + day.plays, minutes: totals.minutes + day.minutes }),
+    { plays: 0, minutes: 0 }
+  );
+
+  // A month label sits over the week holding the month's first day
+  const monthLabels = weeks.map(week => {
+    const first = week.find(date => date?.endsWith('-01'));
+    return first ? new Date(`${first}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', timeZone: 'UTC' }) : '';
+  });
+
+  const hoveredDay = hoveredDate ? days.get(hoveredDate) : undefined;
+  const selectedDay = selectedDate ? days.get(selectedDate) : undefined;
+
+  if (years.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <CalendarDays className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+        <p className="text-gray-400">No listening days to show</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-700 p-6 rounded-lg shadow-md">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="text-xl font-semibold flex items-center">
+          <CalendarDays className="h-5 w-5 text-green-400 mr-2" />
+          Listening Calendar
+        </h3>
+        <div className="flex flex-wrap items-center gap-2">
+          {CALENDAR_METRICS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setMetric(option.id)}
+              className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                metric === option.id
+                  ? 'bg-green-600 text-white'
+                  : 'bg-gray-800 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+          <select
+            value={year}
+            onChange={(e) => {
+              setSelectedYear(Number(e.target.value));
+              setSelectedDate(null);
+            }}
+            className="bg-gray-800 text-white text-sm rounded-md px-2 py-1"
+          >
+            {years.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-400 mb-4">
+        {yearDays.length} active days, {yearTotals.plays.toLocaleString()} plays and {formatDuration(yearTotals.minutes)} in {year}
+      </p>
+
+      <div className="overflow-x-auto pb-2">
+        <div className="inline-flex flex-col">
+          <div className="flex ml-8 mb-1">
+            {monthLabels.map((label, index) => (
+              <div key={index} className="w-3.5 mr-0.5 text-xs text-gray-400 overflow-visible whitespace-nowrap">
+                {label}
+              </div>
+            ))}
+          </div>
+          <div className="flex">
+            <div className="flex flex-col w-8">
+              {WEEKDAY_LABELS.map((label, index) => (
+                <div key={index} className="h-3.5 mb-0.5 text-xs leading-3 text-gray-400">{label}</div>
+              ))}
+            </div>
+            {weeks.map((week, weekIndex) => (
+              <div key={weekIndex} className="flex flex-col mr-0.5">
+                {week.map((date, dayIndex) => {
+                  if (!date) {
+                    return <div key={dayIndex} className="w-3.5 h-3.5 mb-0.5" />;
+                  }
+                  const day = days.get(date);
+                  const level = getHeatLevel(day ? day[metric] : 0, maxValue);
+                  return (
+                    <button
+                      key={date}
+                      onMouseEnter={() => setHoveredDate(date)}
+                      onMouseLeave={() => setHoveredDate(null)}
+                      onClick={() => setSelectedDate(day ? date : null)}
+                      aria-label={date}
+                      className={`w-3.5 h-3.5 mb-0.5 rounded-sm ${LEVEL_CLASSES[level]} ${
+                        date === selectedDate ? 'ring-2 ring-white' : 'hover:ring-1 hover:ring-gray-300'
+                      }`}
+                    />
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4 mt-2 text-sm">
+        <div className="text-gray-300 min-h-[1.25rem]">
+          {hoveredDate ? (
+            <>
+              <span className="font-medium">{formatDate(hoveredDate)}</span>
+              {hoveredDay ? (
+                <span className="text-gray-400">
+                  {' '}· {hoveredDay.plays} plays · {formatDuration(hoveredDay.minutes)}
+                  {hoveredDay.topTrack && ` · Top: ${hoveredDay.topTrack.name} by ${hoveredDay.topTrack.artist}`}
+                </span>
+              ) : (
+                <span className="text-gray-400"> · No listening</span>
+              )}
+            </>
+          ) : (
+            <span className="text-gray-400">Hover a day for its totals, click it to see its plays</span>
+          )}
+        </div>
+        <div className="flex items-center gap-1 text-xs text-gray-400">
+          <span className="mr-1">Less</span>
+          {LEVEL_CLASSES.map(levelClass => (
+            <div key={levelClass} className={`w-3.5 h-3.5 rounded-sm ${levelClass}`} />
+          ))}
+          <span className="ml-1">More</span>
+        </div>
+      </div>
+
+      {selectedDay && (
+        <div className="mt-6 bg-gray-800 rounded-lg p-4">
+          <div className="flex items-start justify-between mb-4">
+            <div>
+              <h4 className="text-lg font-semibold">{formatDate(selectedDay.date)}</h4>
+              <p className="text-sm text-gray-400">
+                {selectedDay.plays} plays · {formatDuration(selectedDay.minutes)}
+              </p>
+            </div>
+            <button
+              onClick={() => setSelectedDate(null)}
+              className="text-gray-400 hover:text-white"
+              aria-label="Close day details"
+            >
+              <X size={18} />
+            </button>
+          </div>
+          <ol className="space-y-1 text-sm max-h-96 overflow-y-auto">
+            {selectedDay.entries.map((entry, index) => {
+              const time = localTime(entry.ts);
+              const counted = isPlay(entry);
+              return (
+                <li key={`${entry.ts}-${index}`} className={`flex items-center ${counted ? '' : 'text-gray-500'}`}>
+                  <span className="w-12 text-gray-400">{pad(time.hour)}:{pad(time.minute)}</span>
+                  <div className="flex-1 min-w-0">
+                    <span className="truncate">{getEntryTitle(entry)}</span>
+                    {getEntryCreator(entry) && <span className="text-gray-400"> · {getEntryCreator(entry)}</span>}
+                  </div>
+                  <span className="ml-2 text-gray-400">{formatPlayTime(entry.ms_played || 0)}</span>
+                  {!counted && <span className="ml-2 text-xs">not counted</span>}
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalendarHeatmap;
@@ -1,91 +1,131 @@
-import React, { useState, useRef } from 'react';
-import { Music, BarChart2, Activity, Calendar, Upload, List, Radio, Shuffle } from 'lucide-react';
+import React, { useState, useRef, useMemo } from 'react';
+import { Music, BarChart2, Activity, Calendar, Upload, List, Radio, Shuffle, Podcast, ShieldAlert, Sliders, Layers, Compass, Workflow, Plane, GitCompare, Users, CalendarDays } from 'lucide-react';
 import StatsOverview from './StatsOverview';
 import TopContent from './TopContent';
 import ListeningPatterns from './ListeningPatterns';
 import ListeningTrends from './ListeningTrends';
+import TimelineStats from './TimelineStats';
 import BehaviorStats from './BehaviorStats';
 import FullContent from './FullContent';
 import LiveDataStats from './LiveDataStats';
+import PodcastStats from './PodcastStats';
+import QuarantineReport from './QuarantineReport';
+import PlayCountingSettings from './PlayCountingSettings';
+import TimezoneSettings from './TimezoneSettings';
+import SessionsView from './SessionsView';
+import DiscoveryStats from './DiscoveryStats';
+import PlaybackFlow from './PlaybackFlow';
+import TravelView from './TravelView';
+import DateRangeSelector from './DateRangeSelector';
+import PeriodComparison from './PeriodComparison';
+import ProfileComparison from './ProfileComparison';
 import { isAuthenticated } from '../services/spotifyAuthService';
-
-interface SpotifyStats {
-  stats: {
-    total_stats: {
-      total_listening_hours: number;
-      total_listening_minutes: number;
-      total_tracks_played: number;
-      unique_artists: number;
-      unique_albums: number;
-      unique_tracks: number;
-      average_track_length_seconds: number;
-    };
-    listening_patterns: {
-      peak_hour: number;
-      peak_day: string;
-      hourly_distribution: Record<string, number>;
-      daily_distribution: Record<string, number>;
-      monthly_distribution: Record<string, number>;
-    };
-    behavior_stats: {
-      skip_rate: number;
-      offline_rate: number;
-      shuffle_rate: number;
-    };
-    session_stats: {
-      average_session_minutes: number;
-      average_tracks_per_session: number;
-      total_sessions: number;
-    };
-    platform_stats: Record<string, number>;
-    top_content: {
-      top_artists: Record<string, number>;
-      top_tracks: Record<string, number>;
-      top_albums: Record<string, number>;
-    };
-  };
-  trends: {
-    daily_stats: {
-      dates: string[];
-      hours_played: number[];
-      tracks_played: number[];
-      skip_rate: number[];
-      offline_rate: number[];
-      shuffle_rate: number[];
-    };
-    rolling_averages: {
-      dates: string[];
-      hours_played: number[];
-      tracks_played: number[];
-      skip_rate: number[];
-      offline_rate: number[];
-      shuffle_rate: number[];
-    };
-  };
-  rawData: unknown[];
-}
+import { isSupportedImportFile } from '../services/streamingDataImporter';
+import { QuarantinedRecord } from '../services/streamingDataValidator';
+import { ProfileSummary } from '../services/indexedDBProfileService';
+import { SpotifyStats, ContentKind, PlayCountingPolicy, DEFAULT_PLAY_COUNTING_POLICY, EntityAliases, TimezoneSettings as TimezoneSettingsValue, DateRange, ALL_TIME, StreamingEntry } from '../analytics';
 
 interface DashboardProps {
   data: SpotifyStats;
-  onAddMoreData: (file: File) => void;
+  onAddMoreData: (files: File[]) => void;
   hasExistingData: boolean;
+  contentKind?: ContentKind | 'all';
+  onContentKindChange?: (kind: ContentKind | 'all') => void;
+  quarantine?: QuarantinedRecord[];
+  onReadmitRecords?: (items: { id: string; record: unknown }[]) => void;
+  onDiscardRecords?: (ids: string[]) => void;
+  onUpdateQuarantinedRecord?: (item: QuarantinedRecord) => void;
+  playCountingPolicy?: PlayCountingPolicy;
+  onPlayCountingPolicyChange?: (policy: PlayCountingPolicy) => void;
+  entityAliases?: EntityAliases;
+  onEntityAliasesChange?: (aliases: EntityAliases) => void;
+  timezoneSettings?: TimezoneSettingsValue;
+  onTimezoneSettingsChange?: (settings: TimezoneSettingsValue) => void;
+  sessionGapMinutes?: number;
+  onSessionGapChange?: (gapMinutes: number) => void;
+  correctOfflinePlays?: boolean;
+  onOfflineCorrectionChange?: (enabled: boolean) => void;
+  dateRange?: DateRange;
+  historyYears?: number[];
+  onDateRangeChange?: (range: DateRange) => void;
+  // The whole history, for views that pick their own date ranges
+  historyData?: StreamingEntry[];
+  profiles?: ProfileSummary[];
+  currentProfileId?: string | null;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ data, onAddMoreData, hasExistingData }) => {
+const CONTENT_KIND_OPTIONS: { id: ContentKind | 'all'; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'track', label: 'Music' },
+  { id: 'episode', label: 'Podcasts' },
+  { id: 'audiobook', label: 'Audiobooks' },
+];
+
+const Dashboard: React.FC<DashboardProps> = ({
+  data,
+  onAddMoreData,
+  hasExistingData,
+  contentKind = 'all',
+  onContentKindChange,
+  quarantine = [],
+  onReadmitRecords,
+  onDiscardRecords,
+  onUpdateQuarantinedRecord,
+  playCountingPolicy = DEFAULT_PLAY_COUNTING_POLICY,
+  onPlayCountingPolicyChange,
+  entityAliases,
+  onEntityAliasesChange,
+  timezoneSettings,
+  onTimezoneSettingsChange,
+  sessionGapMinutes,
+  onSessionGapChange,
+  correctOfflinePlays,
+  onOfflineCorrectionChange,
+  dateRange = ALL_TIME,
+  historyYears = [],
+  onDateRangeChange,
+  historyData = [],
+  profiles = [],
+  currentProfileId = null
+}) => {
   const [activeTab, setActiveTab] = useState('overview');
   const [isDragging, setIsDragging] = useState(false);
   const [showTooltip, setShowTooltip] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const spotifyConnected = isAuthenticated();
 
+  // Kept stable so the comparison only recomputes when a setting changes
+  const comparisonOptions = useMemo(() => ({
+    contentKind,
+    policy: playCountingPolicy,
+    aliases: entityAliases,
+    timezone: timezoneSettings,
+    sessionGapMinutes,
+    correctOfflinePlays
+  }), [contentKind, playCountingPolicy, entityAliases, timezoneSettings, sessionGapMinutes, correctOfflinePlays]);
+
   const tabs = [
     { id: 'overview', label: 'Overview', icon: <BarChart2 size={18} /> },
     { id: 'top-content', label: 'Top Content', icon: <Music size={18} /> },
     { id: 'full-content', label: 'Full Content', icon: <List size={18} /> },
     { id: 'patterns', label: 'Listening Patterns', icon: <Activity size={18} /> },
     { id: 'trends', label: 'Listening Trends', icon: <Calendar size={18} /> },
+    { id: 'timeline', label: 'Timeline', icon: <CalendarDays size={18} /> },
+    { id: 'compare', label: 'Compare Periods', icon: <GitCompare size={18} /> },
+    { id: 'profiles', label: 'Compare Profiles', icon: <Users size={18} /> },
+    { id: 'discovery', label: 'Discovery', icon: <Compass size={18} /> },
+    { id: 'sessions', label: 'Sessions', icon: <Layers size={18} /> },
     { id: 'behavior', label: 'Behavior', icon: <Shuffle size={18} /> },
+    { id: 'playback-flow', label: 'Playback Flow', icon: <Workflow size={18} /> },
+    { id: 'travel', label: 'Travel', icon: <Plane size={18} /> },
+    { id: 'podcasts', label: 'Podcasts', icon: <Podcast size={18} /> },
     { id: 'live-data', label: 'Live Data', icon: <Radio size={18} />, requiresSpotify: true },
+    ...(onReadmitRecords ? [{
+      id: 'quarantine',
+      label: quarantine.length > 0 ? `Quarantine (${quarantine.length.toLocaleString()})` : 'Quarantine',
+      icon: <ShieldAlert size={18} />
+    }] : []),
+    ...(onPlayCountingPolicyChange ? [{ id: 'settings', label: 'Settings', icon: <Sliders size={18} /> }] : []),
   ];
 
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
@@ -106,29 +146,32 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onAddMoreData, hasExistingD
     setIsDragging(false);
 
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      const file = e.dataTransfer.files[0];
-      if (file.name.endsWith('.json')) {
-        onAddMoreData(file);
+      const files = Array.from(e.dataTransfer.files).filter(isSupportedImportFile);
+      if (files.length > 0) {
+        onAddMoreData(files);
       } else {
-        alert('Please drop a JSON file.');
+        alert('Please drop JSON files or a Spotify data ZIP archive.');
       }
     }
   };
 
   const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      const file = e.target.files[0];
-      if (file.name.endsWith('.json')) {
-        onAddMoreData(file);
+      const files = Array.from(e.target.files).filter(isSupportedImportFile);
+      if (files.length > 0) {
+        onAddMoreData(files);
       } else {
-        alert('Please select a JSON file.');
+        alert('Please select JSON files or a Spotify data ZIP archive.');
       }
     }
+    // Clear the input so the same files can be selected again
+    e.target.value = '';
   };
 
+  // Handle data structure compatibility
+  const stats = data?.stats || data; // Support both old and new data structures
+
   const renderTabContent = () => {
-    // Handle data structure compatibility
-    const stats = data?.stats || data; // Support both old and new data structures
     
     switch (activeTab) {
       case 'overview':
@@ -136,29 +179,98 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onAddMoreData, hasExistingD
       case 'top-content':
         return <TopContent topContent={stats?.top_content || {}} />;
       case 'full-content':
-        return <FullContent rawData={(data.rawData || []) as Array<{
-          ts: string;
-          ms_played: number;
-          master_metadata_track_name: string;
-          master_metadata_album_artist_name: string;
-          master_metadata_album_album_name?: string;
-          platform?: string;
-          shuffle?: boolean;
-          skipped?: boolean;
-          offline?: boolean;
-        }>} />;
+        return <FullContent
+          rawData={data.rawData || []}
+          historyData={historyData}
+          playCountingPolicy={playCountingPolicy}
+          aliases={entityAliases}
+          onAliasesChange={onEntityAliasesChange}
+        />;
       case 'patterns':
-        return <ListeningPatterns patterns={stats?.listening_patterns || {}} />;
+        return <ListeningPatterns
+          patterns={stats?.listening_patterns || {}}
+          offlineCorrection={stats?.offline_correction}
+          onOfflineCorrectionChange={onOfflineCorrectionChange}
+        />;
       case 'trends':
         return <ListeningTrends trends={data?.trends || {}} />;
+      case 'timeline':
+        return <TimelineStats
+          data={data.rawData || []}
+          timezone={timezoneSettings}
+          playCountingPolicy={playCountingPolicy}
+          aliases={entityAliases}
+          correctOfflinePlays={correctOfflinePlays}
+        />;
+      case 'compare':
+        return <PeriodComparison
+          historyData={historyData}
+          options={comparisonOptions}
+          years={historyYears}
+        />;
+      case 'profiles':
+        return <ProfileComparison
+          currentProfileId={currentProfileId}
+          profiles={profiles}
+          historyData={historyData}
+          playCountingPolicy={playCountingPolicy}
+          timezone={timezoneSettings}
+        />;
+      case 'discovery':
+        return <DiscoveryStats discovery={stats?.discovery} />;
+      case 'sessions':
+        return <SessionsView
+          rawData={data.rawData || []}
+          sessionStats={stats?.session_stats}
+          playCountingPolicy={playCountingPolicy}
+          timezone={timezoneSettings}
+          gapMinutes={sessionGapMinutes}
+          onGapChange={onSessionGapChange}
+          correctOfflinePlays={correctOfflinePlays}
+        />;
       case 'behavior':
         return <BehaviorStats 
           behaviorStats={stats?.behavior_stats || {}} 
           sessionStats={stats?.session_stats || {}}
           platformStats={stats?.platform_stats || {}}
+          completionStats={stats?.completion_stats}
+          deviceStats={stats?.devices}
+        />;
+      case 'playback-flow':
+        return <PlaybackFlow playbackFlow={stats?.playback_flow} />;
+      case 'travel':
+        return <TravelView
+          travel={stats?.travel}
+          timezone={timezoneSettings}
+          onTimezoneChange={onTimezoneSettingsChange}
         />;
+      case 'podcasts':
+        return <PodcastStats podcastStats={stats?.podcast_stats} />;
       case 'live-data':
         return <LiveDataStats />;
+      case 'quarantine':
+        return <QuarantineReport
+          records={quarantine}
+          onReadmit={(items) => onReadmitRecords?.(items)}
+          onDiscard={(ids) => onDiscardRecords?.(ids)}
+          onUpdate={(item) => onUpdateQuarantinedRecord?.(item)}
+        />;
+      case 'settings':
+        return (
+          <div>
+            <h2 className="text-2xl font-bold mb-6">Profile Settings</h2>
+            <PlayCountingSettings
+              rawData={data.rawData || []}
+              policy={playCountingPolicy}
+              onApply={(policy) => onPlayCountingPolicyChange?.(policy)}
+            />
+            {timezoneSettings && onTimezoneSettingsChange && (
+              <div className="mt-6">
+                <TimezoneSettings settings={timezoneSettings} onApply={onTimezoneSettingsChange} />
+              </div>
+            )}
+          </div>
+        );
       default:
         return <StatsOverview data={stats} />;
     }
@@ -206,6 +318,40 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onAddMoreData, hasExistingD
         })}
       </div>
 
+      {/* Content Kind Filter */}
+      {onContentKindChange && (
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          <span className="text-sm text-gray-400 mr-2">Showing:</span>
+          {CONTENT_KIND_OPTIONS.map(option => {
+            const breakdown = option.id === 'all' ? undefined : stats?.content_breakdown?.[option.id];
+            return (
+              <button
+                key={option.id}
+                onClick={() => onContentKindChange(option.id)}
+                className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                  contentKind === option.id
+                    ? 'bg-green-600 text-white'
+                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                {option.label}
+                {breakdown && <span className="ml-1 text-xs opacity-75">({breakdown.plays.toLocaleString()})</span>}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Date Range Filter */}
+      {onDateRangeChange && (
+        <DateRangeSelector
+          range={dateRange}
+          years={historyYears}
+          bounds={stats?.date_range}
+          onChange={onDateRangeChange}
+        />
+      )}
+
       {/* Add More Data Section */}
       {hasExistingData && (
         <div className="bg-gray-800 p-4 rounded-lg border-2 border-dashed border-gray-600 hover:border-gray-500 transition-colors">
@@ -215,7 +361,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onAddMoreData, hasExistingD
               <div>
                 <h3 className="font-medium text-gray-300">Add More Data</h3>
                 <p className="text-sm text-gray-400">
-                  Drag and drop another JSON file here or click to browse
+                  Drag and drop more JSON files or a data ZIP here or click to browse
                 </p>
               </div>
             </div>
@@ -228,7 +374,8 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onAddMoreData, hasExistingD
             <input
               ref={fileInputRef}
               type="file"
-              accept=".json"
+              accept=".json,.zip"
+              multiple
               onChange={handleFileInputChange}
               className="hidden"
             />
@@ -242,7 +389,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data, onAddMoreData, hasExistingD
           <div className="bg-gray-800 p-8 rounded-xl shadow-2xl">
             <div className="flex flex-col items-center">
               <Upload className="h-16 w-16 text-green-500 mb-4" />
-              <h3 className="text-xl font-bold text-white mb-2">Drop your JSON file here</h3>
+              <h3 className="text-xl font-bold text-white mb-2">Drop your JSON or ZIP files here</h3>
               <p className="text-gray-400">It will be merged with your existing data</p>
             </div>
           </div>
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { CalendarRange } from 'lucide-react';
+import { DateRange, DateBounds, DateRangePreset, DATE_RANGE_PRESETS, getYearRange } from '../analytics';
+
+interface DateRangeSelectorProps {
+  range: DateRange;
+  // Years of the whole history, oldest first
+  years: number[];
+  // The local dates the shown statistics cover
+  bounds?: DateBounds | null;
+  onChange: (range: DateRange) => void;
+}
+
+const DateRangeSelector: React.FC<DateRangeSelectorProps> = ({ range, years, bounds, onChange }) => {
+  const [customStart, setCustomStart] = useState(range.preset === 'custom' ? range.start || '' : '');
+  const [customEnd, setCustomEnd] = useState(range.preset === 'custom' ? range.end || '' : '');
+  const [editingCustom, setEditingCustom] = useState(false);
+
+  const selectedYear = range.preset === 'year' && range.start ? Number(range.start.slice(0, 4)) : null;
+  const showCustom = editingCustom || range.preset === 'custom';
+  const customInvalid = !customStart || !customEnd || customStart > customEnd;
+
+  const selectPreset = (preset: DateRangePreset) => {
+    setEditingCustom(preset === 'custom');
+    if (preset === 'custom') {
+      setCustomStart(customStart || bounds?.start || '');
+      setCustomEnd(customEnd || bounds?.end || '');
+    } else if (preset === 'year') {
+      if (years.length > 0) onChange(getYearRange(selectedYear || years[years.length - 1]));
+    } else {
+      onChange({ preset });
+    }
+  };
+
+  const isActive = (preset: DateRangePreset) => preset === 'custom' ? showCustom : range.preset === preset && !editingCustom;
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2">
+      <CalendarRange className="h-4 w-4 text-gray-400" />
+      <span className="text-sm text-gray-400 mr-2">Period:</span>
+      {DATE_RANGE_PRESETS.map(option => (
+        <button
+          key={option.id}
+          onClick={() => selectPreset(option.id)}
+          disabled={option.id === 'year' && years.length === 0}
+          className={`px-3 py-1 rounded-full text-sm transition-colors ${
+            isActive(option.id)
+              ? 'bg-green-600 text-white'
+              : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+
+      {range.preset === 'year' && !editingCustom && (
+        <select
+          value={selectedYear || ''}
+          onChange={(e) => onChange(getYearRange(Number(e.target.value)))}
+          className="bg-gray-700 text-white text-sm rounded-md px-2 py-1"
+        >
+          {years.map(year => (
+            <option key={year} value={year}>{year}</option>
+          ))}
+        </select>
+      )}
+
+      {showCustom && (
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={customStart}
+            onChange={(e) => setCustomStart(e.target.value)}
+            className="bg-gray-700 text-white text-sm rounded-md px-2 py-1"
+          />
+          <span className="text-gray-400 text-sm">to</span>
+          <input
+            type="date"
+            value={customEnd}
+            onChange={(e) => setCustomEnd(e.target.value)}
+            className="bg-gray-700 text-white text-sm rounded-md px-2 py-1"
+          />
+          <button
+            onClick={() => {
+              setEditingCustom(false);
+              onChange({ preset: 'custom', start: customStart, end: customEnd });
+            }}
+            disabled={customInvalid}
+            className="bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white text-sm px-3 py-1 rounded-md"
+          >
+            Apply
+          </button>
+        </div>
+      )}
+
+      {bounds && !showCustom && (
+        <span className="text-xs text-gray-500 ml-2">{bounds.start} to {bounds.end}</span>
+      )}
+    </div>
+  );
+};
+
+export default DateRangeSelector;
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Smartphone, Tablet, Laptop, Globe, Tv, Speaker, Gamepad2, Car, Watch, HelpCircle } from 'lucide-react';
+import { DeviceStats, DeviceClass, DEVICE_CLASS_LABELS } from '../analytics';
+
+interface DeviceTimelineProps {
+  deviceStats: DeviceStats;
+}
+
+const CLASS_ICONS: Record<DeviceClass, React.ReactNode> = {
+  phone: <Smartphone className="h-5 w-5 text-pink-400" />,
+  tablet: <Tablet className="h-5 w-5 text-pink-400" />,
+  desktop: <Laptop className="h-5 w-5 text-blue-400" />,
+  web: <Globe className="h-5 w-5 text-teal-400" />,
+  tv: <Tv className="h-5 w-5 text-purple-400" />,
+  speaker: <Speaker className="h-5 w-5 text-yellow-400" />,
+  console: <Gamepad2 className="h-5 w-5 text-red-400" />,
+  car: <Car className="h-5 w-5 text-orange-400" />,
+  watch: <Watch className="h-5 w-5 text-green-400" />,
+  other: <HelpCircle className="h-5 w-5 text-gray-400" />
+};
+
+const toTime = (date: string) => new Date(`${date}T00:00:00Z`).getTime();
+
+const formatMonth = (date: string) => new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, {
+  month: 'short',
+  year: 'numeric',
+  timeZone: 'UTC'
+});
+
+const DeviceTimeline: React.FC<DeviceTimelineProps> = ({ deviceStats }) => {
+  const [year, setYear] = useState('');
+
+  const devices = deviceStats.devices;
+  if (devices.length === 0) return null;
+
+  const firstYear = Number(devices[0].first_used.slice(0, 4));
+  const lastYear = Math.max(...devices.map(device => Number(device.last_used.slice(0, 4))));
+  const years = Array.from({ length: lastYear - firstYear + 1 }, (_, index) => String(firstYear + index));
+
+  // The axis spans whole years so the year marks line up with the bars
+  const rangeStart = Date.UTC(firstYear, 0, 1);
+  const rangeEnd = Date.UTC(lastYear + 1, 0, 1);
+  const position = (time: number) => ((time - rangeStart) / (rangeEnd - rangeStart)) * 100;
+
+  // A device was in use in a year when its active period overlaps it
+  const visibleDevices = year
+    ? devices.filter(device => device.first_used.slice(0, 4) <= year && device.last_used.slice(0, 4) >= year)
+    : devices;
+
+  return (
+    <div className="bg-gray-700 rounded-lg p-6 shadow-lg mb-8">
+      <div className="flex flex-wrap justify-between items-center mb-4">
+        <h3 className="text-xl font-bold">Device Timeline</h3>
+        <select
+          value={year}
+          onChange={(e) => setYear(e.target.value)}
+          className="bg-gray-800 text-white text-sm rounded-md px-3 py-1 mt-2 sm:mt-0"
+        >
+          <option value="">All years</option>
+          {years.map(option => (
+            <option key={option} value={option}>In use in {option}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="relative h-5 ml-56 mb-2 text-xs text-gray-400">
+        {years.map(option => (
+          <span
+            key={option}
+            className="absolute border-l border-gray-600 pl-1"
+            style={{ left: `${position(Date.UTC(Number(option), 0, 1))}%` }}
+          >
+            {option}
+          </span>
+        ))}
+      </div>
+
+      <ul className="space-y-3">
+        {visibleDevices.map(device => {
+          const left = position(toTime(device.first_used));
+          // Bars cover through the end of the last day, and stay visible for single-day devices
+          const width = Math.max(position(toTime(device.last_used) + 24 * 60 * 60 * 1000) - left, 0.5);
+
+          return (
+            <li key={device.id} className="flex items-center">
+              <div className="w-56 pr-4 flex items-center min-w-0">
+                <div className="bg-gray-800 p-2 rounded-lg mr-3 flex-shrink-0" title={DEVICE_CLASS_LABELS[device.device_class]}>
+                  {CLASS_ICONS[device.device_class]}
+                </div>
+                <div className="min-w-0">
+                  <p className="font-medium truncate" title={device.name}>{device.name}</p>
+                  <p className="text-xs text-gray-400 truncate">
+                    {device.os_family}
+                    {device.os_versions.length > 0 && ` ${device.os_versions[0]}`}
+                    {device.os_versions.length > 1 && `–${device.os_versions[device.os_versions.length - 1]}`}
+                  </p>
+                </div>
+              </div>
+              <div className="flex-1 relative h-8 bg-gray-800 rounded">
+                <div
+                  className="absolute top-1 bottom-1 rounded bg-green-500"
+                  style={{ left: `${left}%`, width: `${width}%` }}
+                  title={`${device.first_used} to ${device.last_used}`}
+                ></div>
+              </div>
+              <div className="w-40 pl-4 text-right text-sm">
+                <p>{device.hours.toLocaleString()} hours</p>
+                <p className="text-xs text-gray-400">
+                  {formatMonth(device.first_used)} – {formatMonth(device.last_used)}
+                </p>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default DeviceTimeline;
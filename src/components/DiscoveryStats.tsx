@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { Compass, Sparkles, Percent, Heart } from 'lucide-react';
+import { Bar, Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  Filler
+} from 'chart.js';
+import { DiscoveryStats as DiscoveryStatsData, FAVORITE_PLAY_THRESHOLD } from '../analytics';
+
+// Register ChartJS components
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  Filler
+);
+
+interface DiscoveryStatsProps {
+  discovery?: DiscoveryStatsData;
+}
+
+type DiscoveryMetric = 'new_artists' | 'new_albums' | 'new_tracks';
+
+const METRICS: { id: DiscoveryMetric; label: string; color: string }[] = [
+  { id: 'new_artists', label: 'Artists', color: '75, 192, 192' },
+  { id: 'new_albums', label: 'Albums', color: '255, 159, 64' },
+  { id: 'new_tracks', label: 'Tracks', color: '153, 102, 255' },
+];
+
+const chartOptions = {
+  responsive: true,
+  maintainAspectRatio: false,
+  plugins: {
+    legend: {
+      display: false,
+    },
+    tooltip: {
+      backgroundColor: 'rgba(0, 0, 0, 0.8)',
+      titleColor: '#fff',
+      bodyColor: '#fff',
+      borderColor: 'rgba(255, 255, 255, 0.1)',
+      borderWidth: 1,
+    },
+  },
+  scales: {
+    y: {
+      beginAtZero: true,
+      grid: {
+        color: 'rgba(255, 255, 255, 0.1)',
+      },
+      ticks: {
+        color: 'rgba(255, 255, 255, 0.7)',
+      },
+    },
+    x: {
+      grid: {
+        display: false,
+      },
+      ticks: {
+        color: 'rgba(255, 255, 255, 0.7)',
+        maxRotation: 45,
+        minRotation: 45,
+      },
+    },
+  },
+};
+
+const formatLag = (days: number) => {
+  if (days < 31) return `${days} days`;
+  if (days < 365) return `${Math.round(days / 30)} months`;
+  return `${(days / 365).toFixed(1)} years`;
+};
+
+const DiscoveryStats: React.FC<DiscoveryStatsProps> = ({ discovery }) => {
+  const [metric, setMetric] = useState<DiscoveryMetric>('new_artists');
+
+  if (!discovery || discovery.months.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <Compass className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+        <p className="text-gray-400">No music listening found to measure discovery.</p>
+        <p className="text-gray-500 text-sm mt-2">
+          Upload your streaming history to see when you found your artists, albums and tracks.
+        </p>
+      </div>
+    );
+  }
+
+  const selectedMetric = METRICS.find(option => option.id === metric) || METRICS[0];
+  const totalNewArtists = discovery.new_artists.reduce((sum, count) => sum + count, 0);
+  // The first month discovers everything heard in it, so it is left out of the best month and the average
+  const laterMonths = discovery.months.slice(1).map((month, index) => ({
+    month,
+    artists: discovery.new_artists[index + 1],
+    share: discovery.discovery_share[index + 1]
+  }));
+  const bestMonth = laterMonths.reduce<{ month: string; artists: number } | null>(
+    (best, month) => !best || month.artists > best.artists ? month : best,
+    null
+  );
+  const averageShare = laterMonths.length > 0
+    ? laterMonths.reduce((sum, month) => sum + month.share, 0) / laterMonths.length
+    : discovery.discovery_share[0];
+
+  const newMusicChartData = {
+    labels: discovery.months,
+    datasets: [
+      {
+        label: `New ${selectedMetric.label}`,
+        data: discovery[metric],
+        backgroundColor: `rgba(${selectedMetric.color}, 0.6)`,
+        borderColor: `rgba(${selectedMetric.color}, 1)`,
+        borderWidth: 1,
+      },
+    ],
+  };
+
+  const shareChartData = {
+    labels: discovery.months,
+    datasets: [
+      {
+        label: 'Time on new music (%)',
+        data: discovery.discovery_share,
+        borderColor: 'rgba(236, 72, 153, 1)',
+        backgroundColor: 'rgba(236, 72, 153, 0.2)',
+        fill: true,
+        tension: 0.4,
+        pointRadius: 2,
+      },
+    ],
+  };
+
+  return (
+    <div>
+      <h2 className="text-2xl font-bold mb-6">Your Music Discovery</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <div className="bg-gray-700 rounded-lg p-6 shadow-lg">
+          <div className="flex items-center mb-2">
+            <Compass className="h-6 w-6 text-teal-400 mr-3" />
+            <h3 className="font-bold">Artists Discovered</h3>
+          </div>
+          <p className="text-2xl font-bold">{totalNewArtists.toLocaleString()}</p>
+          <p className="text-sm text-gray-400">Since {discovery.months[0]}</p>
+        </div>
+        <div className="bg-gray-700 rounded-lg p-6 shadow-lg">
+          <div className="flex items-center mb-2">
+            <Sparkles className="h-6 w-6 text-yellow-400 mr-3" />
+            <h3 className="font-bold">Best Discovery Month</h3>
+          </div>
+          <p className="text-2xl font-bold">{bestMonth ? bestMonth.month : '-'}</p>
+          <p className="text-sm text-gray-400">
+            {bestMonth ? `${bestMonth.artists.toLocaleString()} new artists` : 'Needs more than one month of history'}
+          </p>
+        </div>
+        <div className="bg-gray-700 rounded-lg p-6 shadow-lg">
+          <div className="flex items-center mb-2">
+            <Percent className="h-6 w-6 text-pink-400 mr-3" />
+            <h3 className="font-bold">Time on New Music</h3>
+          </div>
+          <p className="text-2xl font-bold">{averageShare.toFixed(1)}%</p>
+          <p className="text-sm text-gray-400">Average share per month on tracks first played that month</p>
+        </div>
+      </div>
+
+      <div className="bg-gray-700 rounded-lg p-6 shadow-lg mb-8">
+        <div className="flex flex-wrap justify-between items-center mb-6">
+          <h3 className="text-xl font-bold">New Music per Month</h3>
+          <div className="flex items-center space-x-2 mt-2 sm:mt-0">
+            {METRICS.map(option => (
+              <button
+                key={option.id}
+                className={`px-3 py-1 rounded-md ${metric === option.id ? 'bg-teal-600 text-white' : 'bg-gray-600 text-gray-300'}`}
+                onClick={() => setMetric(option.id)}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="h-80">
+          <Bar data={newMusicChartData} options={chartOptions} />
+        </div>
+      </div>
+
+      <div className="bg-gray-700 rounded-lg p-6 shadow-lg mb-8">
+        <h3 className="text-xl font-bold mb-4">Share of Listening Time on New Music</h3>
+        <div className="h-64">
+          <Line data={shareChartData} options={chartOptions} />
+        </div>
+      </div>
+
+      <div className="bg-gray-700 rounded-lg p-6 shadow-lg">
+        <div className="flex items-center mb-2">
+          <Heart className="h-6 w-6 text-red-400 mr-3" />
+          <h3 className="text-xl font-bold">From Discovery to Favorite</h3>
+        </div>
+        <p className="text-gray-400 text-sm mb-4">
+          How long your top artists took to reach {FAVORITE_PLAY_THRESHOLD} plays after you first heard them,
+          counted over your whole history even when a date range is selected.
+        </p>
+        <div className="bg-gray-800 rounded-lg overflow-hidden text-sm">
+          <div className="grid grid-cols-4 bg-gray-900 text-gray-300 py-2 px-4 font-medium">
+            <div>Artist</div>
+            <div>First play</div>
+            <div>{FAVORITE_PLAY_THRESHOLD}th play</div>
+            <div className="text-right">Lag</div>
+          </div>
+          {discovery.favorite_lag.map(artist => (
+            <div key={artist.id} className="grid grid-cols-4 py-2 px-4 border-t border-gray-700">
+              <div className="truncate">{artist.name}</div>
+              <div className="text-gray-300">{artist.discovered}</div>
+              <div className="text-gray-300">{artist.favorite || '-'}</div>
+              <div className="text-right">{artist.lag_days !== null ? formatLag(artist.lag_days) : 'Not yet'}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DiscoveryStats;
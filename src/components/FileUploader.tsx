@@ -1,13 +1,14 @@
 import React, { useState, useRef, DragEvent } from 'react';
-import { FileUp, HelpCircle, Upload, Music, BarChart3 } from 'lucide-react';
+import { FileUp, HelpCircle, Upload, Music, BarChart3, X } from 'lucide-react';
+import { isSupportedImportFile } from '../services/streamingDataImporter';
 
 interface FileUploaderProps {
-  onFileSelect: (file: File | null) => void;
+  onFilesSelect: (files: File[] | null) => void;
 }
 
-const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect }) => {
+const FileUploader: React.FC<FileUploaderProps> = ({ onFilesSelect }) => {
   const [isDragging, setIsDragging] = useState(false);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
@@ -28,38 +29,47 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect }) => {
     setIsDragging(false);
     
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      const file = e.dataTransfer.files[0];
-      if (file.name.endsWith('.json')) {
-        setSelectedFile(file);
-      } else {
-        alert('Please upload a JSON file.');
-      }
+      addFiles(Array.from(e.dataTransfer.files));
     }
   };
 
   const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      const file = e.target.files[0];
-      if (file.name.endsWith('.json')) {
-        setSelectedFile(file);
-      } else {
-        alert('Please upload a JSON file.');
-      }
+      addFiles(Array.from(e.target.files));
     }
+    // Clear the input so the same files can be selected again
+    e.target.value = '';
+  };
+
+  const addFiles = (files: File[]) => {
+    const supportedFiles = files.filter(isSupportedImportFile);
+    if (supportedFiles.length < files.length) {
+      alert('Only JSON files and Spotify data ZIP archives can be uploaded. Other files were ignored.');
+    }
+
+    // Ignore files that are already queued
+    setSelectedFiles(prev => [
+      ...prev,
+      ...supportedFiles.filter(file => !prev.some(p => p.name === file.name && p.size === file.size))
+    ]);
+  };
+
+  const handleRemoveFile = (index: number) => {
+    setSelectedFiles(prev => prev.filter((_, i) => i !== index));
   };
 
   const handleUpload = () => {
-    if (selectedFile) {
-      onFileSelect(selectedFile);
+    if (selectedFiles.length > 0) {
+      onFilesSelect(selectedFiles);
     }
   };
 
   const handleLoadSample = () => {
-    onFileSelect(null); // null triggers sample data loading
+    onFilesSelect(null); // null triggers sample data loading
   };
 
   const handleReset = () => {
-    setSelectedFile(null);
+    setSelectedFiles([]);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -74,7 +84,7 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect }) => {
           </div>
           <h2 className="text-3xl font-bold mb-4">Upload Your Spotify Data</h2>
           <p className="text-gray-400 text-lg">
-            Upload your Spotify streaming history JSON file to analyze your music taste and discover insights.
+            Upload your Spotify data ZIP archive or a streaming history JSON file to analyze your music taste and discover insights.
           </p>
         </div>
 
@@ -83,7 +93,7 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect }) => {
           className={`border-2 border-dashed rounded-xl p-8 text-center transition-all duration-300 ${
             isDragging 
               ? 'border-green-500 bg-green-500 bg-opacity-10' 
-              : selectedFile 
+              : selectedFiles.length > 0 
               ? 'border-green-400 bg-green-400 bg-opacity-5'
               : 'border-gray-600 hover:border-gray-500'
           }`}
@@ -91,28 +101,52 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect }) => {
           onDragLeave={handleDragLeave}
           onDrop={handleDrop}
         >
-          {selectedFile ? (
+          {selectedFiles.length > 0 ? (
             <div className="space-y-4">
               <FileUp className="h-16 w-16 text-green-400 mx-auto" />
               <div>
-                <h3 className="text-xl font-bold text-green-400 mb-2">File Selected!</h3>
-                <p className="text-gray-300 font-medium">{selectedFile.name}</p>
+                <h3 className="text-xl font-bold text-green-400 mb-2">
+                  {selectedFiles.length} File{selectedFiles.length === 1 ? '' : 's'} Selected!
+                </h3>
                 <p className="text-gray-400 text-sm">
-                  Size: {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
+                  Total size: {(selectedFiles.reduce((sum, file) => sum + file.size, 0) / 1024 / 1024).toFixed(2)} MB
                 </p>
               </div>
+              <ul className="max-w-lg mx-auto text-left space-y-2 max-h-60 overflow-y-auto">
+                {selectedFiles.map((file, index) => (
+                  <li key={`${file.name}-${file.size}`} className="flex items-center justify-between bg-gray-700 px-3 py-2 rounded-lg">
+                    <div className="min-w-0">
+                      <p className="text-gray-300 font-medium truncate">{file.name}</p>
+                      <p className="text-gray-400 text-xs">{(file.size / 1024 / 1024).toFixed(2)} MB</p>
+                    </div>
+                    <button
+                      onClick={() => handleRemoveFile(index)}
+                      className="p-1 text-gray-400 hover:text-red-400 transition-colors"
+                      title="Remove file"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
               <div className="flex justify-center space-x-4">
                 <button
                   onClick={handleUpload}
                   className="bg-green-600 hover:bg-green-700 text-white px-6 py-3 rounded-lg font-medium transition-colors"
                 >
-                  Process File
+                  Process {selectedFiles.length === 1 ? 'File' : `${selectedFiles.length} Files`}
+                </button>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="bg-gray-600 hover:bg-gray-700 text-white px-6 py-3 rounded-lg font-medium transition-colors"
+                >
+                  Add Files
                 </button>
                 <button
                   onClick={handleReset}
                   className="bg-gray-600 hover:bg-gray-700 text-white px-6 py-3 rounded-lg font-medium transition-colors"
                 >
-                  Choose Different File
+                  Clear
                 </button>
               </div>
             </div>
@@ -120,24 +154,25 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect }) => {
             <div className="space-y-4">
               <Upload className="h-16 w-16 text-gray-400 mx-auto" />
               <div>
-                <h3 className="text-xl font-bold mb-2">Drop your Spotify data file here</h3>
-                <p className="text-gray-400 mb-4">or click to browse your files</p>
+                <h3 className="text-xl font-bold mb-2">Drop your Spotify data files here</h3>
+                <p className="text-gray-400 mb-4">or click to browse your files (you can select several at once)</p>
                 <button
                   onClick={() => fileInputRef.current?.click()}
                   className="bg-green-600 hover:bg-green-700 text-white px-6 py-3 rounded-lg font-medium transition-colors"
                 >
-                  Choose File
+                  Choose Files
                 </button>
               </div>
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept=".json"
-                onChange={handleFileInputChange}
-                className="hidden"
-              />
             </div>
           )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.zip"
+            multiple
+            onChange={handleFileInputChange}
+            className="hidden"
+          />
         </div>
 
         {/* Action Buttons */}
@@ -162,11 +197,12 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect }) => {
             <li>Scroll down to "Download your data" and click "Request"</li>
             <li>Select "Extended streaming history" for the most comprehensive data</li>
             <li>Wait for Spotify to email you the download link (can take up to 30 days)</li>
-            <li>Download and extract the ZIP file</li>
-            <li>Upload the JSON file (typically named "Streaming_History_Audio_*.json")</li>
+            <li>Download the ZIP file (typically named "my_spotify_data.zip")</li>
+            <li>Upload the whole ZIP, or one or more JSON files such as "Streaming_History_Audio_*.json"</li>
           </ol>
           <p className="text-sm text-gray-400 mt-4">
             💡 Tip: The extended streaming history provides much more detailed data than the basic export.
+            The basic "Account data" export (StreamingHistory_music_*.json) works too, but it has no skip, shuffle, offline or device details.
           </p>
         </div>
 
@@ -1,97 +1,149 @@
 import React, { useState, useEffect } from 'react';
-import { User, Music, Disc, Search, X } from 'lucide-react';
+import { User, Music, Disc, Search, X, GitMerge, Scissors, ArrowDown, ArrowUp } from 'lucide-react';
+import {
+  StreamingEntry,
+  PlayCountingPolicy,
+  DEFAULT_PLAY_COUNTING_POLICY,
+  createPlayClassifier,
+  EntityAliases,
+  EntityNames,
+  EMPTY_ENTITY_ALIASES,
+  createEntityNames,
+  mergeEntities,
+  splitEntityVariant,
+  canSplitVariant,
+  CompletionCounts,
+  createOutcomeClassifier,
+  emptyCompletionCounts,
+  addOutcome,
+  getCompletionRates
+} from '../analytics';
 
 interface FullContentProps {
-  rawData: Array<{
-    ts: string;
-    ms_played: number;
-    master_metadata_track_name: string;
-    master_metadata_album_artist_name: string;
-    master_metadata_album_album_name?: string;
-    platform?: string;
-    shuffle?: boolean;
-    skipped?: boolean;
-    offline?: boolean;
-  }>;
+  rawData: StreamingEntry[];
+  // The whole history, so track lengths don't depend on the selected date range
+  historyData?: StreamingEntry[];
+  playCountingPolicy?: PlayCountingPolicy;
+  aliases?: EntityAliases;
+  onAliasesChange?: (aliases: EntityAliases) => void;
 }
 
-const FullContent: React.FC<FullContentProps> = ({ rawData }) => {
+interface EntityRow {
+  id: string;
+  name: string;
+  artist: string;
+  count: number;
+  variants: number;
+  // Percentages over playback starts with skip and end details; null without any
+  skipRate: number | null;
+  completionRate: number | null;
+}
+
+type SortKey = 'count' | 'skipRate' | 'completionRate';
+
+const FullContent: React.FC<FullContentProps> = ({
+  rawData,
+  historyData,
+  playCountingPolicy = DEFAULT_PLAY_COUNTING_POLICY,
+  aliases = EMPTY_ENTITY_ALIASES,
+  onAliasesChange
+}) => {
   const [activeTab, setActiveTab] = useState<'artists' | 'tracks' | 'albums'>('artists');
   const [searchTerm, setSearchTerm] = useState('');
   const [page, setPage] = useState(1);
   const [sortedData, setSortedData] = useState<{
-    artists: { name: string; count: number }[];
-    tracks: { name: string; artist: string; count: number }[];
-    albums: { name: string; artist: string; count: number }[];
+    artists: EntityRow[];
+    tracks: EntityRow[];
+    albums: EntityRow[];
   }>({
     artists: [],
     tracks: [],
     albums: []
   });
+  const [entityNames, setEntityNames] = useState<EntityNames | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [sortKey, setSortKey] = useState<SortKey>('count');
+  const [sortDescending, setSortDescending] = useState(true);
 
   const itemsPerPage = 50;
 
   const processRawData = React.useCallback(() => {
-    // Count artists
-    const artistCounts: Record<string, number> = {};
-    const trackCounts: Record<string, { count: number; artist: string }> = {};
-    const albumCounts: Record<string, { count: number; artist: string }> = {};
+    // Only rows that count as a play under the profile's policy
+    const isPlay = createPlayClassifier(rawData, playCountingPolicy);
+    const plays = rawData.filter(isPlay);
 
-    rawData.forEach(item => {
-      // Process artists
-      const artist = item.master_metadata_album_artist_name;
-      if (artist) {
-        artistCounts[artist] = (artistCounts[artist] || 0) + 1;
+    // Spelling variants and aliased names are counted as one artist, track or album
+    const names = createEntityNames(plays, aliases);
+    const counts = {
+      artists: new Map<string, number>(),
+      tracks: new Map<string, number>(),
+      albums: new Map<string, number>()
+    };
+
+    plays.forEach(item => {
+      const artistId = names.getArtistId(item);
+      if (artistId) {
+        counts.artists.set(artistId, (counts.artists.get(artistId) || 0) + 1);
       }
 
-      // Process tracks
-      const track = item.master_metadata_track_name;
-      if (track && artist) {
-        const key = `${track} - ${artist}`;
-        trackCounts[key] = {
-          count: (trackCounts[key]?.count || 0) + 1,
-          artist
-        };
+      // Tracks and albums are only listed together with their artist
+      const trackId = names.getTrackId(item);
+      if (trackId && artistId) {
+        counts.tracks.set(trackId, (counts.tracks.get(trackId) || 0) + 1);
       }
 
-      // Process albums
-      const album = item.master_metadata_album_album_name;
-      if (album && artist) {
-        const key = `${album} - ${artist}`;
-        albumCounts[key] = {
-          count: (albumCounts[key]?.count || 0) + 1,
-          artist
-        };
+      const albumId = names.getAlbumId(item);
+      if (albumId && artistId) {
+        counts.albums.set(albumId, (counts.albums.get(albumId) || 0) + 1);
       }
     });
 
-    // Convert to sorted arrays
-    const sortedArtists = Object.entries(artistCounts)
-      .map(([name, count]) => ({ name, count }))
-      .sort((a, b) => b.count - a.count);
+    // Skips and completions count every playback start, including the ones that aren't a play
+    const getOutcome = createOutcomeClassifier(historyData && historyData.length > 0 ? historyData : rawData);
+    const outcomes = {
+      artists: new Map<string, CompletionCounts>(),
+      tracks: new Map<string, CompletionCounts>(),
+      albums: new Map<string, CompletionCounts>()
+    };
+    const addEntityOutcome = (map: Map<string, CompletionCounts>, id: string | null, item: StreamingEntry) => {
+      const outcome = id ? getOutcome(item) : null;
+      if (!id || !outcome) return;
+      const entityCounts = map.get(id) || emptyCompletionCounts();
+      addOutcome(entityCounts, outcome);
+      map.set(id, entityCounts);
+    };
 
-    const sortedTracks = Object.entries(trackCounts)
-      .map(([key, data]) => ({
-        name: key.split(' - ')[0],
-        artist: data.artist,
-        count: data.count
-      }))
-      .sort((a, b) => b.count - a.count);
+    rawData.forEach(item => {
+      addEntityOutcome(outcomes.artists, names.getArtistId(item), item);
+      addEntityOutcome(outcomes.tracks, names.getTrackId(item), item);
+      addEntityOutcome(outcomes.albums, names.getAlbumId(item), item);
+    });
 
-    const sortedAlbums = Object.entries(albumCounts)
-      .map(([key, data]) => ({
-        name: key.split(' - ')[0],
-        artist: data.artist,
-        count: data.count
-      }))
+    // Convert to sorted arrays
+    const toRows = (entityCounts: Map<string, number>, entityOutcomes: Map<string, CompletionCounts>): EntityRow[] => Array.from(entityCounts.entries())
+      .map(([id, count]) => {
+        const artistId = names.getArtistOf(id);
+        const rates = getCompletionRates(entityOutcomes.get(id) || emptyCompletionCounts());
+        return {
+          id,
+          name: names.getName(id),
+          artist: artistId ? names.getName(artistId) : '',
+          count,
+          variants: names.getVariants(id).length,
+          skipRate: rates ? rates.skipRate : null,
+          completionRate: rates ? rates.completionRate : null
+        };
+      })
       .sort((a, b) => b.count - a.count);
 
+    setEntityNames(names);
     setSortedData({
-      artists: sortedArtists,
-      tracks: sortedTracks,
-      albums: sortedAlbums
+      artists: toRows(counts.artists, outcomes.artists),
+      tracks: toRows(counts.tracks, outcomes.tracks),
+      albums: toRows(counts.albums, outcomes.albums)
     });
-  }, [rawData]);
+  }, [rawData, historyData, playCountingPolicy, aliases]);
 
   useEffect(() => {
     if (rawData && rawData.length > 0) {
@@ -99,6 +151,46 @@ const FullContent: React.FC<FullContentProps> = ({ rawData }) => {
     }
   }, [rawData, processRawData]);
 
+  const switchTab = (tab: 'artists' | 'tracks' | 'albums') => {
+    setActiveTab(tab);
+    setPage(1);
+    setSelectedIds([]);
+    setExpandedId(null);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(previous => previous.includes(id) ? previous.filter(value => value !== id) : [...previous, id]);
+  };
+
+  const handleMergeSelected = () => {
+    if (!onAliasesChange || selectedIds.length < 2) return;
+    // The most played of the selected entities keeps its name
+    const rows = sortedData[activeTab].filter(row => selectedIds.includes(row.id));
+    const target = rows.reduce((best, row) => row.count > best.count ? row : best, rows[0]);
+    onAliasesChange(mergeEntities(aliases, selectedIds, target.id));
+    setSelectedIds([]);
+  };
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDescending(!sortDescending);
+    } else {
+      setSortKey(key);
+      setSortDescending(true);
+    }
+    setPage(1);
+  };
+
+  // Rows without skip details always go last
+  const compareRows = (a: EntityRow, b: EntityRow) => {
+    const aValue = a[sortKey];
+    const bValue = b[sortKey];
+    if (aValue === null || bValue === null) {
+      return aValue === bValue ? b.count - a.count : aValue === null ? 1 : -1;
+    }
+    return (sortDescending ? bValue - aValue : aValue - bValue) || b.count - a.count;
+  };
+
   const handleSearch = (e: React.ChangeEvent<HTMLInputElement>) => {
     setSearchTerm(e.target.value);
     setPage(1); // Reset to first page on search
@@ -115,17 +207,17 @@ const FullContent: React.FC<FullContentProps> = ({ rawData }) => {
     if (activeTab === 'artists') {
       return sortedData.artists.filter(item => 
         item.name.toLowerCase().includes(term)
-      );
+      ).sort(compareRows);
     } else if (activeTab === 'tracks') {
       return sortedData.tracks.filter(item => 
         item.name.toLowerCase().includes(term) || 
         item.artist.toLowerCase().includes(term)
-      );
+      ).sort(compareRows);
     } else {
       return sortedData.albums.filter(item => 
         item.name.toLowerCase().includes(term) || 
         item.artist.toLowerCase().includes(term)
-      );
+      ).sort(compareRows);
     }
   };
 
@@ -169,13 +261,101 @@ const FullContent: React.FC<FullContentProps> = ({ rawData }) => {
     );
   };
 
+  const renderIndexCell = (row: EntityRow, index: number) => (
+    <div className="col-span-1 text-gray-400 flex items-center space-x-2">
+      {onAliasesChange && (
+        <input
+          type="checkbox"
+          checked={selectedIds.includes(row.id)}
+          onChange={() => toggleSelected(row.id)}
+          className="accent-green-500"
+          title="Select to merge"
+        />
+      )}
+      <span>{(page - 1) * itemsPerPage + index + 1}</span>
+    </div>
+  );
+
+  const renderSortHeader = (key: SortKey, label: string, span: string) => (
+    <button
+      onClick={() => handleSort(key)}
+      className={`${span} font-medium flex items-center justify-end space-x-1 hover:text-white ${sortKey === key ? 'text-white' : ''}`}
+    >
+      <span>{label}</span>
+      {sortKey === key && (sortDescending ? <ArrowDown size={14} /> : <ArrowUp size={14} />)}
+    </button>
+  );
+
+  const renderMetricCells = (row: EntityRow) => (
+    <>
+      <div className="col-span-2 text-right">
+        {row.count.toLocaleString()} plays
+      </div>
+      <div className="col-span-1 text-right text-gray-300">
+        {row.skipRate !== null ? `${Math.round(row.skipRate)}%` : '-'}
+      </div>
+      <div className="col-span-1 text-right text-gray-300">
+        {row.completionRate !== null ? `${Math.round(row.completionRate)}%` : '-'}
+      </div>
+    </>
+  );
+
+  const renderMetricHeaders = () => (
+    <>
+      {renderSortHeader('count', 'Play Count', 'col-span-2')}
+      {renderSortHeader('skipRate', 'Skipped', 'col-span-1')}
+      {renderSortHeader('completionRate', 'Finished', 'col-span-1')}
+    </>
+  );
+
+  const renderVariantsToggle = (row: EntityRow) => row.variants > 1 && (
+    <button
+      onClick={() => setExpandedId(expandedId === row.id ? null : row.id)}
+      className="ml-2 text-xs font-normal text-gray-400 hover:text-white"
+    >
+      {row.variants} spellings
+    </button>
+  );
+
+  const renderVariants = (row: EntityRow) => {
+    if (expandedId !== row.id || !entityNames) return null;
+
+    return (
+      <div className="bg-gray-800 px-12 py-3 border-b border-gray-600 text-sm space-y-1">
+        {entityNames.getVariants(row.id).map(variant => (
+          <div key={variant.name} className="flex items-center justify-between">
+            <span className="truncate">{variant.name}</span>
+            <div className="flex items-center space-x-3">
+              <span className="text-gray-400">{variant.plays.toLocaleString()} plays</span>
+              {onAliasesChange && canSplitVariant(row.id, variant) && (
+                <button
+                  onClick={() => onAliasesChange(splitEntityVariant(aliases, row.id, variant))}
+                  className="flex items-center space-x-1 text-xs text-yellow-300 hover:text-yellow-200"
+                  title="Count this spelling as its own entry"
+                >
+                  <Scissors size={14} />
+                  <span>Split</span>
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   return (
     <div>
-      <h2 className="text-2xl font-bold mb-6">Full Content Explorer</h2>
+      <h2 className="text-2xl font-bold mb-2">Full Content Explorer</h2>
+      <p className="text-gray-400 text-sm mb-6">
+        Spellings that differ only in case, accents or a remaster, live or "feat." suffix are counted together.
+        {onAliasesChange && ' Select entries to merge them, or open their spellings to split one back out.'}
+        {' Skipped and Finished are shares of every playback start, including ones too short to count as a play.'}
+      </p>
       
       <div className="mb-6 flex flex-wrap gap-4">
         <button
-          onClick={() => { setActiveTab('artists'); setPage(1); }}
+          onClick={() => switchTab('artists')}
           className={`flex items-center space-x-2 px-4 py-2 rounded-lg ${
             activeTab === 'artists' ? 'bg-purple-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
           }`}
@@ -184,7 +364,7 @@ const FullContent: React.FC<FullContentProps> = ({ rawData }) => {
           <span>Artists ({sortedData.artists.length})</span>
         </button>
         <button
-          onClick={() => { setActiveTab('tracks'); setPage(1); }}
+          onClick={() => switchTab('tracks')}
           className={`flex items-center space-x-2 px-4 py-2 rounded-lg ${
             activeTab === 'tracks' ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
           }`}
@@ -193,7 +373,7 @@ const FullContent: React.FC<FullContentProps> = ({ rawData }) => {
           <span>Tracks ({sortedData.tracks.length})</span>
         </button>
         <button
-          onClick={() => { setActiveTab('albums'); setPage(1); }}
+          onClick={() => switchTab('albums')}
           className={`flex items-center space-x-2 px-4 py-2 rounded-lg ${
             activeTab === 'albums' ? 'bg-green-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
           }`}
@@ -224,31 +404,52 @@ const FullContent: React.FC<FullContentProps> = ({ rawData }) => {
         </div>
       </div>
       
+      {onAliasesChange && selectedIds.length > 0 && (
+        <div className="mb-4 flex items-center justify-between bg-gray-700 rounded-lg px-4 py-3">
+          <span className="text-sm text-gray-300">
+            {selectedIds.length} selected{selectedIds.length < 2 && ' (select at least two to merge)'}
+          </span>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setSelectedIds([])}
+              className="bg-gray-600 hover:bg-gray-500 text-white text-sm px-3 py-1 rounded-lg transition-colors"
+            >
+              Clear
+            </button>
+            <button
+              onClick={handleMergeSelected}
+              disabled={selectedIds.length < 2}
+              className="flex items-center space-x-1 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white text-sm px-3 py-1 rounded-lg transition-colors"
+            >
+              <GitMerge size={16} />
+              <span>Merge</span>
+            </button>
+          </div>
+        </div>
+      )}
+
       <div className="bg-gray-700 rounded-lg overflow-hidden shadow-lg">
         {activeTab === 'artists' && (
           <div>
             <div className="grid grid-cols-12 bg-gray-800 text-gray-300 py-3 px-4 border-b border-gray-600">
               <div className="col-span-1 font-medium">#</div>
-              <div className="col-span-8 font-medium">Artist</div>
-              <div className="col-span-3 font-medium text-right">Play Count</div>
+              <div className="col-span-7 font-medium">Artist</div>
+              {renderMetricHeaders()}
             </div>
             <div className="max-h-[60vh] overflow-y-auto">
               {paginatedData().length > 0 ? (
                 paginatedData().map((artist, index) => (
-                  <div 
-                    key={index} 
-                    className="grid grid-cols-12 py-3 px-4 border-b border-gray-600 hover:bg-gray-600 transition-colors"
-                  >
-                    <div className="col-span-1 text-gray-400">
-                      {(page - 1) * itemsPerPage + index + 1}
+                  <React.Fragment key={artist.id}>
+                    <div className="grid grid-cols-12 py-3 px-4 border-b border-gray-600 hover:bg-gray-600 transition-colors">
+                      {renderIndexCell(artist, index)}
+                      <div className="col-span-7 font-medium truncate">
+                        {artist.name || 'Unknown Artist'}
+                        {renderVariantsToggle(artist)}
+                      </div>
+                      {renderMetricCells(artist)}
                     </div>
-                    <div className="col-span-8 font-medium truncate">
-                      {artist.name || 'Unknown Artist'}
-                    </div>
-                    <div className="col-span-3 text-right">
-                      {artist.count.toLocaleString()} plays
-                    </div>
-                  </div>
+                    {renderVariants(artist)}
+                  </React.Fragment>
                 ))
               ) : (
                 <div className="py-8 text-center text-gray-400">
@@ -263,30 +464,27 @@ const FullContent: React.FC<FullContentProps> = ({ rawData }) => {
           <div>
             <div className="grid grid-cols-12 bg-gray-800 text-gray-300 py-3 px-4 border-b border-gray-600">
               <div className="col-span-1 font-medium">#</div>
-              <div className="col-span-5 font-medium">Track</div>
+              <div className="col-span-4 font-medium">Track</div>
               <div className="col-span-3 font-medium">Artist</div>
-              <div className="col-span-3 font-medium text-right">Play Count</div>
+              {renderMetricHeaders()}
             </div>
             <div className="max-h-[60vh] overflow-y-auto">
               {paginatedData().length > 0 ? (
                 paginatedData().map((track, index) => (
-                  <div 
-                    key={index} 
-                    className="grid grid-cols-12 py-3 px-4 border-b border-gray-600 hover:bg-gray-600 transition-colors"
-                  >
-                    <div className="col-span-1 text-gray-400">
-                      {(page - 1) * itemsPerPage + index + 1}
-                    </div>
-                    <div className="col-span-5 font-medium truncate">
-                      {track.name || 'Unknown Track'}
-                    </div>
-                    <div className="col-span-3 text-gray-300 truncate">
-                      {(track as { name: string; artist: string; count: number }).artist || 'Unknown Artist'}
+                  <React.Fragment key={track.id}>
+                    <div className="grid grid-cols-12 py-3 px-4 border-b border-gray-600 hover:bg-gray-600 transition-colors">
+                      {renderIndexCell(track, index)}
+                      <div className="col-span-4 font-medium truncate">
+                        {track.name || 'Unknown Track'}
+                        {renderVariantsToggle(track)}
+                      </div>
+                      <div className="col-span-3 text-gray-300 truncate">
+                        {track.artist || 'Unknown Artist'}
+                      </div>
+                      {renderMetricCells(track)}
                     </div>
-                    <div className="col-span-3 text-right">
-                      {track.count.toLocaleString()} plays
-                    </div>
-                  </div>
+                    {renderVariants(track)}
+                  </React.Fragment>
                 ))
               ) : (
                 <div className="py-8 text-center text-gray-400">
@@ -301,30 +499,27 @@ const FullContent: React.FC<FullContentProps> = ({ rawData }) => {
           <div>
             <div className="grid grid-cols-12 bg-gray-800 text-gray-300 py-3 px-4 border-b border-gray-600">
               <div className="col-span-1 font-medium">#</div>
-              <div className="col-span-5 font-medium">Album</div>
+              <div className="col-span-4 font-medium">Album</div>
               <div className="col-span-3 font-medium">Artist</div>
-              <div className="col-span-3 font-medium text-right">Play Count</div>
+              {renderMetricHeaders()}
             </div>
             <div className="max-h-[60vh] overflow-y-auto">
               {paginatedData().length > 0 ? (
                 paginatedData().map((album, index) => (
-                  <div 
-                    key={index} 
-                    className="grid grid-cols-12 py-3 px-4 border-b border-gray-600 hover:bg-gray-600 transition-colors"
-                  >
-                    <div className="col-span-1 text-gray-400">
-                      {(page - 1) * itemsPerPage + index + 1}
-                    </div>
-                    <div className="col-span-5 font-medium truncate">
-                      {album.name || 'Unknown Album'}
-                    </div>
-                    <div className="col-span-3 text-gray-300 truncate">
-                      {(album as { name: string; artist: string; count: number }).artist || 'Unknown Artist'}
-                    </div>
-                    <div className="col-span-3 text-right">
-                      {album.count.toLocaleString()} plays
+                  <React.Fragment key={album.id}>
+                    <div className="grid grid-cols-12 py-3 px-4 border-b border-gray-600 hover:bg-gray-600 transition-colors">
+                      {renderIndexCell(album, index)}
+                      <div className="col-span-4 font-medium truncate">
+                        {album.name || 'Unknown Album'}
+                        {renderVariantsToggle(album)}
+                      </div>
+                      <div className="col-span-3 text-gray-300 truncate">
+                        {album.artist || 'Unknown Artist'}
+                      </div>
+                      {renderMetricCells(album)}
                     </div>
-                  </div>
+                    {renderVariants(album)}
+                  </React.Fragment>
                 ))
               ) : (
                 <div className="py-8 text-center text-gray-400">
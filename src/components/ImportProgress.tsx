@@ -0,0 +1,209 @@
+import React from 'react';
+import { FileText, CheckCircle, AlertCircle, Loader, MinusCircle, Clock, X, XCircle, RefreshCw } from 'lucide-react';
+import { ImportFileProgress } from '../services/streamingDataImporter';
+import { MergeReport } from '../analytics';
+
+interface ImportProgressProps {
+  progress: ImportFileProgress[];
+  mergeReport?: MergeReport | null;
+  profileName?: string;
+  isComplete: boolean;
+  onDismiss?: () => void;
+  onCancel?: () => void;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${bytes} B`;
+};
+
+// Replacements listed in the summary; the rest are only counted
+const MAX_LISTED_REPLACEMENTS = 50;
+
+const ImportProgress: React.FC<ImportProgressProps> = ({ progress, mergeReport, profileName, isComplete, onDismiss, onCancel }) => {
+  const importable = progress.filter(item => item.status !== 'skipped');
+  const finished = importable.filter(item => item.status === 'done' || item.status === 'error' || item.status === 'cancelled');
+  const skipped = progress.filter(item => item.status === 'skipped');
+  const wasCancelled = progress.some(item => item.status === 'cancelled');
+  const totalAdded = progress.reduce((sum, item) => sum + item.entriesAdded, 0);
+  const totalDuplicates = progress.reduce((sum, item) => sum + item.duplicatesRemoved, 0);
+  const totalQuarantined = progress.reduce((sum, item) => sum + item.recordsQuarantined, 0);
+  const totalRecords = progress.reduce((sum, item) => sum + item.recordsRead, 0);
+  const replacements = mergeReport?.replaced || [];
+
+  // Progress is measured in bytes so one huge file doesn't stall the bar
+  const totalBytes = importable.reduce((sum, item) => sum + item.totalBytes, 0);
+  const bytesRead = importable.reduce((sum, item) => sum + item.bytesRead, 0);
+  const percentComplete = totalBytes > 0
+    ? (bytesRead / totalBytes) * 100
+    : importable.length > 0 ? (finished.length / importable.length) * 100 : 0;
+
+  const getStatusIcon = (status: ImportFileProgress['status']) => {
+    switch (status) {
+      case 'done':
+        return <CheckCircle className="h-5 w-5 text-green-400" />;
+      case 'error':
+        return <AlertCircle className="h-5 w-5 text-red-400" />;
+      case 'processing':
+        return <Loader className="h-5 w-5 text-blue-400 animate-spin" />;
+      case 'skipped':
+        return <MinusCircle className="h-5 w-5 text-gray-500" />;
+      case 'cancelled':
+        return <XCircle className="h-5 w-5 text-gray-400" />;
+      default:
+        return <Clock className="h-5 w-5 text-gray-400" />;
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-6 shadow-lg mb-6">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-bold">
+            {isComplete ? (wasCancelled ? 'Import Cancelled' : 'Import Summary') : 'Importing Streaming History'}
+          </h2>
+          <p className="text-gray-400 text-sm mt-1">
+            {isComplete
+              ? wasCancelled
+                ? 'No data was changed.'
+                : `${totalAdded.toLocaleString()} new entries added${profileName ? ` to "${profileName}"` : ''}, ${totalDuplicates.toLocaleString()} duplicates removed` +
+                  (replacements.length > 0 ? `, ${replacements.length.toLocaleString()} approximate plays replaced` : '') +
+                  (totalQuarantined > 0 ? `, ${totalQuarantined.toLocaleString()} records quarantined (see the Quarantine tab)` : '')
+              : `Processing file ${Math.min(finished.length + 1, importable.length)} of ${importable.length} • ${totalRecords.toLocaleString()} records read`}
+          </p>
+        </div>
+        {!isComplete && onCancel && (
+          <button
+            onClick={onCancel}
+            className="bg-gray-700 hover:bg-gray-600 text-white text-sm py-1 px-3 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+        {isComplete && onDismiss && (
+          <button
+            onClick={onDismiss}
+            className="text-gray-400 hover:text-white transition-colors"
+            title="Dismiss"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        )}
+      </div>
+
+      {!isComplete && (
+        <div className="w-full bg-gray-700 rounded-full h-2 mb-4">
+          <div
+            className="bg-green-500 h-2 rounded-full transition-all duration-300"
+            style={{ width: `${percentComplete}%` }}
+          ></div>
+        </div>
+      )}
+
+      <div className="bg-gray-700 rounded-lg overflow-hidden">
+        <div className="grid grid-cols-12 bg-gray-900 text-gray-300 text-sm py-2 px-4">
+          <div className="col-span-5 font-medium">File</div>
+          <div className="col-span-2 font-medium text-right">Read</div>
+          <div className="col-span-2 font-medium text-right">Kept</div>
+          <div className="col-span-1 font-medium text-right">Dupes</div>
+          <div className="col-span-2 font-medium text-right">Added</div>
+        </div>
+        <div className="max-h-80 overflow-y-auto">
+          {importable.map(item => (
+            <div key={item.id} className="grid grid-cols-12 items-center py-2 px-4 border-t border-gray-600 text-sm">
+              <div className="col-span-5 flex items-center space-x-2 min-w-0">
+                {getStatusIcon(item.status)}
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{item.name}</p>
+                  {item.error ? (
+                    <p className="text-xs text-red-300 truncate">{item.error}</p>
+                  ) : item.status === 'processing' && item.totalBytes > 0 ? (
+                    <p className="text-xs text-blue-300 truncate">
+                      {formatBytes(item.bytesRead)} of {formatBytes(item.totalBytes)}
+                    </p>
+                  ) : (
+                    <p className="text-xs text-gray-400 truncate">
+                      {item.archiveName && `from ${item.archiveName}`}
+                      {item.archiveName && item.format === 'account' && ' • '}
+                      {item.format === 'account' && (
+                        <span className="text-yellow-300" title="Skip, shuffle, offline and platform details are not included in this export">
+                          Account data (basic detail)
+                        </span>
+                      )}
+                      {(item.archiveName || item.format === 'account') && item.previouslyImportedAt && ' • '}
+                      {item.previouslyImportedAt && (
+                        <span className="text-blue-300">
+                          Imported before on {new Date(item.previouslyImportedAt).toLocaleDateString()}
+                        </span>
+                      )}
+                    </p>
+                  )}
+                </div>
+              </div>
+              <div className="col-span-2 text-right text-gray-300">{item.recordsRead.toLocaleString()}</div>
+              <div
+                className="col-span-2 text-right text-gray-300"
+                title={item.recordsQuarantined > 0 ? `${item.recordsQuarantined.toLocaleString()} quarantined` : undefined}
+              >
+                {item.recordsKept.toLocaleString()}
+                {item.recordsQuarantined > 0 && <span className="text-yellow-300"> (-{item.recordsQuarantined.toLocaleString()})</span>}
+              </div>
+              <div className="col-span-1 text-right text-gray-400">{item.duplicatesRemoved.toLocaleString()}</div>
+              <div
+                className="col-span-2 text-right font-medium text-green-400"
+                title={item.entriesReplaced > 0 ? `${item.entriesReplaced.toLocaleString()} of these replaced less detailed rows of the same play` : undefined}
+              >
+                {item.status === 'done' ? `+${item.entriesAdded.toLocaleString()}` : '—'}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {isComplete && replacements.length > 0 && (
+        <details className="mt-4 text-sm text-gray-400">
+          <summary className="cursor-pointer flex items-center space-x-2">
+            <RefreshCw className="h-4 w-4 inline" />
+            <span>
+              Replaced {replacements.length.toLocaleString()} approximate play{replacements.length === 1 ? '' : 's'} with exported history
+            </span>
+          </summary>
+          <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto pl-6">
+            {replacements.slice(0, MAX_LISTED_REPLACEMENTS).map(({ removed, replacement }, index) => (
+              <li key={index} className="truncate">
+                {replacement.master_metadata_track_name || replacement.episode_name || 'Unknown'}
+                {replacement.master_metadata_album_artist_name && ` — ${replacement.master_metadata_album_artist_name}`}
+                <span className="text-gray-500">
+                  {' '}• {removed.platform === 'api_sync' ? 'API sync' : 'account data'} row from {new Date(removed.ts).toLocaleString()}
+                  {' '}→ {Math.round(replacement.ms_played / 1000)}s played, ended {new Date(replacement.ts).toLocaleString()}
+                </span>
+              </li>
+            ))}
+            {replacements.length > MAX_LISTED_REPLACEMENTS && (
+              <li className="text-gray-500">…and {(replacements.length - MAX_LISTED_REPLACEMENTS).toLocaleString()} more</li>
+            )}
+          </ul>
+        </details>
+      )}
+
+      {skipped.length > 0 && (
+        <details className="mt-4 text-sm text-gray-400">
+          <summary className="cursor-pointer flex items-center space-x-2">
+            <FileText className="h-4 w-4 inline" />
+            <span>Skipped {skipped.length} file{skipped.length === 1 ? '' : 's'} that {skipped.length === 1 ? 'is' : 'are'} not streaming history</span>
+          </summary>
+          <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto pl-6">
+            {skipped.map(item => (
+              <li key={item.id} className="truncate">
+                {item.archiveName ? `${item.archiveName} / ` : ''}{item.name}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+};
+
+export default ImportProgress;
@@ -1,4 +1,5 @@
 import React from 'react';
+import { WifiOff } from 'lucide-react';
 import { Bar } from 'react-chartjs-2';
 import { 
   Chart as ChartJS, 
@@ -9,6 +10,7 @@ import {
   Tooltip, 
   Legend 
 } from 'chart.js';
+import { OfflineCorrectionStats } from '../analytics';
 
 // Register ChartJS components
 ChartJS.register(
@@ -28,9 +30,15 @@ interface ListeningPatternsProps {
     daily_distribution: Record<string, number>;
     monthly_distribution: Record<string, number>;
   };
+  offlineCorrection?: OfflineCorrectionStats;
+  onOfflineCorrectionChange?: (enabled: boolean) => void;
 }
 
-const ListeningPatterns: React.FC<ListeningPatternsProps> = ({ patterns }) => {
+const ListeningPatterns: React.FC<ListeningPatternsProps> = ({
+  patterns,
+  offlineCorrection,
+  onOfflineCorrectionChange
+}) => {
   // Provide safe defaults
   const safePatterns = {
     ...patterns,
@@ -139,7 +147,36 @@ const ListeningPatterns: React.FC<ListeningPatternsProps> = ({ patterns }) => {
   return (
     <div>
       <h2 className="text-2xl font-bold mb-6">Your Listening Patterns</h2>
-      
+
+      {offlineCorrection && offlineCorrection.offline_entries > 0 && (
+        <div className="bg-gray-700 rounded-lg p-4 shadow-lg mb-8">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center">
+              <WifiOff className="h-6 w-6 text-yellow-400 mr-3" />
+              <div>
+                <h3 className="font-bold">Offline Plays</h3>
+                <p className="text-sm text-gray-400">
+                  {offlineCorrection.offline_entries.toLocaleString()} plays were made offline and logged when your device synced.{' '}
+                  {offlineCorrection.corrected.toLocaleString()} {offlineCorrection.enabled ? 'were' : 'can be'} moved to when they were played
+                  {offlineCorrection.implausible > 0 && `; ${offlineCorrection.implausible.toLocaleString()} have an implausible device time and keep their sync time`}.
+                </p>
+              </div>
+            </div>
+            {onOfflineCorrectionChange && (
+              <label className="flex items-center space-x-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={offlineCorrection.enabled}
+                  onChange={(e) => onOfflineCorrectionChange(e.target.checked)}
+                  className="accent-green-500"
+                />
+                <span>Use device play times</span>
+              </label>
+            )}
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
         <div className="bg-gray-700 rounded-lg p-6 shadow-lg">
           <h3 className="text-xl font-bold mb-4">Hourly Distribution</h3>
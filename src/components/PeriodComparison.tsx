@@ -0,0 +1,344 @@
+import React, { useState, useMemo } from 'react';
+import { GitCompare, ArrowUp, ArrowDown, Minus } from 'lucide-react';
+import { Bar } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend
+} from 'chart.js';
+import {
+  StreamingEntry,
+  AnalysisOptions,
+  DateRange,
+  StatDelta,
+  RankingChange,
+  PeriodComparison as PeriodComparisonData,
+  getYearRange,
+  analyzeSpotifyData,
+  normalizeStreamingData,
+  comparePeriods
+} from '../analytics';
+
+// Register ChartJS components
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface PeriodComparisonProps {
+  // The whole history, not limited by the dashboard's date range
+  historyData: StreamingEntry[];
+  options: AnalysisOptions;
+  // Years of the history, oldest first
+  years: number[];
+}
+
+const FIRST_COLOR = '156, 163, 175';
+const SECOND_COLOR = '34, 197, 94';
+
+const TOTAL_LABELS: Record<keyof PeriodComparisonData['total_stats'], string> = {
+  total_listening_hours: 'Listening Hours',
+  total_tracks_played: 'Tracks Played',
+  unique_artists: 'Unique Artists',
+  unique_albums: 'Unique Albums',
+  unique_tracks: 'Unique Tracks',
+  average_track_length_seconds: 'Average Play (seconds)'
+};
+
+const BEHAVIOR_LABELS: Record<keyof PeriodComparisonData['behavior_stats'], string> = {
+  skip_rate: 'Skip Rate',
+  offline_rate: 'Offline Listening',
+  shuffle_rate: 'Shuffle Mode'
+};
+
+const RANKING_LABELS: Record<keyof PeriodComparisonData['top_content'], string> = {
+  top_artists: 'Top Artists',
+  top_tracks: 'Top Tracks',
+  top_albums: 'Top Albums'
+};
+
+const HOUR_LABELS = Array.from({ length: 24 }, (_, hour) => `${hour}:00`);
+const DAY_ORDER = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+const chartOptions = {
+  responsive: true,
+  maintainAspectRatio: false,
+  plugins: {
+    legend: {
+      position: 'top' as const,
+      labels: {
+        color: 'rgba(255, 255, 255, 0.7)',
+      },
+    },
+    tooltip: {
+      backgroundColor: 'rgba(0, 0, 0, 0.8)',
+      titleColor: '#fff',
+      bodyColor: '#fff',
+    },
+  },
+  scales: {
+    y: {
+      beginAtZero: true,
+      grid: {
+        color: 'rgba(255, 255, 255, 0.1)',
+      },
+      ticks: {
+        color: 'rgba(255, 255, 255, 0.7)',
+        callback: (value: string | number) => `${value}%`,
+      },
+    },
+    x: {
+      grid: {
+        display: false,
+      },
+      ticks: {
+        color: 'rgba(255, 255, 255, 0.7)',
+      },
+    },
+  },
+};
+
+const formatRange = (range: DateRange) => {
+  if (range.preset === 'year' && range.start) return range.start.slice(0, 4);
+  return `${range.start || '…'} to ${range.end || '…'}`;
+};
+
+// Periods rarely have the same length, so distributions are compared as shares of their plays
+const toShares = (counts: number[]) => {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  return counts.map(count => total > 0 ? Number(((count / total) * 100).toFixed(1)) : 0);
+};
+
+const formatChange = (delta: StatDelta, unit = '') => {
+  const sign = delta.change > 0 ? '+' : '';
+  const percent = delta.change_percent !== null && !unit ? ` (${sign}${delta.change_percent}%)` : '';
+  return `${sign}${delta.change.toLocaleString()}${unit}${percent}`;
+};
+
+const changeColor = (change: number) => change > 0 ? 'text-green-400' : change < 0 ? 'text-red-400' : 'text-gray-400';
+
+interface PeriodPickerProps {
+  label: string;
+  range: DateRange;
+  years: number[];
+  onChange: (range: DateRange) => void;
+}
+
+const PeriodPicker: React.FC<PeriodPickerProps> = ({ label, range, years, onChange }) => {
+  const isCustom = range.preset === 'custom';
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 flex-1 min-w-[16rem]">
+      <p className="text-sm text-gray-400 mb-2">{label}</p>
+      <select
+        value={isCustom ? 'custom' : range.start?.slice(0, 4) || ''}
+        onChange={(e) => onChange(e.target.value === 'custom'
+          ? { preset: 'custom', start: range.start, end: range.end }
+          : getYearRange(Number(e.target.value)))}
+        className="bg-gray-700 text-white rounded-md px-3 py-1 w-full"
+      >
+        {years.map(year => (
+          <option key={year} value={year}>{year}</option>
+        ))}
+        <option value="custom">Custom dates</option>
+      </select>
+      {isCustom && (
+        <div className="flex items-center gap-2 mt-2">
+          <input
+            type="date"
+            value={range.start || ''}
+            onChange={(e) => onChange({ ...range, start: e.target.value })}
+            className="bg-gray-700 text-white text-sm rounded-md px-2 py-1 flex-1"
+          />
+          <span className="text-gray-400 text-sm">to</span>
+          <input
+            type="date"
+            value={range.end || ''}
+            onChange={(e) => onChange({ ...range, end: e.target.value })}
+            className="bg-gray-700 text-white text-sm rounded-md px-2 py-1 flex-1"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const RankIndicator: React.FC<{ change: RankingChange }> = ({ change }) => {
+  if (change.status === 'new') {
+    return <span className="text-xs font-bold text-green-400 w-12 text-right">NEW</span>;
+  }
+  if (change.status === 'dropped') {
+    return <span className="text-xs text-gray-500 w-12 text-right">OUT</span>;
+  }
+  const moved = Math.abs((change.previous_rank as number) - (change.rank as number));
+  return (
+    <span className={`text-xs w-12 flex items-center justify-end ${changeColor(change.status === 'up' ? 1 : change.status === 'down' ? -1 : 0)}`}>
+      {change.status === 'up' && <ArrowUp className="h-3 w-3 mr-1" />}
+      {change.status === 'down' && <ArrowDown className="h-3 w-3 mr-1" />}
+      {change.status === 'same' ? <Minus className="h-3 w-3" /> : moved}
+    </span>
+  );
+};
+
+const PeriodComparison: React.FC<PeriodComparisonProps> = ({ historyData, options, years }) => {
+  const [first, setFirst] = useState<DateRange>(() => getYearRange(years[Math.max(0, years.length - 2)] ?? new Date().getFullYear()));
+  const [second, setSecond] = useState<DateRange>(() => getYearRange(years[years.length - 1] ?? new Date().getFullYear()));
+
+  const isComplete = (range: DateRange) => !!range.start && !!range.end && range.start <= range.end;
+
+  const periods = useMemo(() => {
+    if (historyData.length === 0 || !isComplete(first) || !isComplete(second)) return null;
+    const entries = normalizeStreamingData(historyData);
+    const firstStats = analyzeSpotifyData(entries, { ...options, dateRange: first });
+    const secondStats = analyzeSpotifyData(entries, { ...options, dateRange: second });
+    return { firstStats, secondStats, comparison: comparePeriods(firstStats, secondStats) };
+  }, [historyData, options, first, second]);
+
+  if (historyData.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <GitCompare className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+        <p className="text-gray-400">Upload your streaming history to compare periods.</p>
+      </div>
+    );
+  }
+
+  const firstLabel = formatRange(first);
+  const secondLabel = formatRange(second);
+
+  const overlay = (labels: string[], firstCounts: number[], secondCounts: number[]) => ({
+    labels,
+    datasets: [
+      {
+        label: firstLabel,
+        data: toShares(firstCounts),
+        backgroundColor: `rgba(${FIRST_COLOR}, 0.6)`,
+        borderColor: `rgba(${FIRST_COLOR}, 1)`,
+        borderWidth: 1,
+      },
+      {
+        label: secondLabel,
+        data: toShares(secondCounts),
+        backgroundColor: `rgba(${SECOND_COLOR}, 0.6)`,
+        borderColor: `rgba(${SECOND_COLOR}, 1)`,
+        borderWidth: 1,
+      },
+    ],
+  });
+
+  const firstPatterns = periods?.firstStats.stats.listening_patterns;
+  const secondPatterns = periods?.secondStats.stats.listening_patterns;
+
+  return (
+    <div>
+      <h2 className="text-2xl font-bold mb-6">Compare Periods</h2>
+
+      <div className="flex flex-wrap items-center gap-4 mb-8">
+        <PeriodPicker label="First period" range={first} years={years} onChange={setFirst} />
+        <GitCompare className="h-6 w-6 text-gray-400" />
+        <PeriodPicker label="Second period" range={second} years={years} onChange={setSecond} />
+      </div>
+
+      {!periods || !firstPatterns || !secondPatterns ? (
+        <p className="text-gray-400 text-center py-8">Pick a start and an end date for both periods.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
+            {(Object.keys(TOTAL_LABELS) as (keyof typeof TOTAL_LABELS)[]).map(key => {
+              const delta = periods.comparison.total_stats[key];
+              return (
+                <div key={key} className="bg-gray-700 rounded-lg p-6 shadow-lg">
+                  <h3 className="font-bold mb-2">{TOTAL_LABELS[key]}</h3>
+                  <p className="text-2xl font-bold">
+                    <span className="text-gray-400">{delta.first.toLocaleString()}</span>
+                    <span className="text-gray-500 mx-2">→</span>
+                    {delta.second.toLocaleString()}
+                  </p>
+                  <p className={`text-sm ${changeColor(delta.change)}`}>{formatChange(delta)}</p>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+            <div className="bg-gray-700 rounded-lg p-6 shadow-lg">
+              <h3 className="text-xl font-bold mb-4">Hourly Distribution</h3>
+              <div className="h-72">
+                <Bar
+                  data={overlay(
+                    HOUR_LABELS,
+                    HOUR_LABELS.map((_, hour) => firstPatterns.hourly_distribution[hour] || 0),
+                    HOUR_LABELS.map((_, hour) => secondPatterns.hourly_distribution[hour] || 0)
+                  )}
+                  options={chartOptions}
+                />
+              </div>
+            </div>
+            <div className="bg-gray-700 rounded-lg p-6 shadow-lg">
+              <h3 className="text-xl font-bold mb-4">Daily Distribution</h3>
+              <div className="h-72">
+                <Bar
+                  data={overlay(
+                    DAY_ORDER,
+                    DAY_ORDER.map(day => firstPatterns.daily_distribution[day] || 0),
+                    DAY_ORDER.map(day => secondPatterns.daily_distribution[day] || 0)
+                  )}
+                  options={chartOptions}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-gray-700 rounded-lg p-6 shadow-lg mb-8">
+            <h3 className="text-xl font-bold mb-4">Behavior</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              {(Object.keys(BEHAVIOR_LABELS) as (keyof typeof BEHAVIOR_LABELS)[]).map(key => {
+                const delta = periods.comparison.behavior_stats[key];
+                return (
+                  <div key={key}>
+                    <p className="text-gray-300">{BEHAVIOR_LABELS[key]}</p>
+                    <p className="text-lg font-bold">
+                      {delta.first.toFixed(1)}% <span className="text-gray-500">→</span> {delta.second.toFixed(1)}%
+                    </p>
+                    <p className={`text-sm ${changeColor(delta.change)}`}>{formatChange(delta, ' points')}</p>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {(Object.keys(RANKING_LABELS) as (keyof typeof RANKING_LABELS)[]).map(key => (
+              <div key={key} className="bg-gray-700 rounded-lg p-6 shadow-lg">
+                <h3 className="text-xl font-bold mb-4">{RANKING_LABELS[key]}</h3>
+                <ul className="space-y-2 text-sm">
+                  {periods.comparison.top_content[key].map(change => (
+                    <li
+                      key={change.name}
+                      className={`flex items-center ${change.status === 'dropped' ? 'text-gray-500 line-through' : ''}`}
+                    >
+                      <span className="w-6 text-gray-400">{change.rank ?? '-'}</span>
+                      <span className="flex-1 truncate" title={change.name}>{change.name}</span>
+                      <span className="text-gray-400 ml-2">{change.plays ?? change.previous_plays}</span>
+                      <RankIndicator change={change} />
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PeriodComparison;
@@ -0,0 +1,171 @@
+import React, { useState, useMemo } from 'react';
+import { Sliders, RotateCcw, Check } from 'lucide-react';
+import {
+  PlayCountingPolicy,
+  PlayCandidate,
+  DEFAULT_PLAY_COUNTING_POLICY,
+  REASON_END_OPTIONS,
+  summarizePlayCounting
+} from '../analytics';
+
+interface PlayCountingSettingsProps {
+  rawData: PlayCandidate[];
+  policy: PlayCountingPolicy;
+  onApply: (policy: PlayCountingPolicy) => void;
+}
+
+const formatChange = (current: number, preview: number, suffix = '') => {
+  const difference = Number((preview - current).toFixed(2));
+  if (difference === 0) return <span className="text-gray-400">no change</span>;
+  return (
+    <span className={difference > 0 ? 'text-green-400' : 'text-red-400'}>
+      {difference > 0 ? '+' : ''}{difference.toLocaleString()}{suffix}
+    </span>
+  );
+};
+
+const PlayCountingSettings: React.FC<PlayCountingSettingsProps> = ({ rawData, policy, onApply }) => {
+  const [draft, setDraft] = useState<PlayCountingPolicy>(policy);
+
+  const currentSummary = useMemo(() => summarizePlayCounting(rawData, policy), [rawData, policy]);
+  const previewSummary = useMemo(() => summarizePlayCounting(rawData, draft), [rawData, draft]);
+  const hasChanges = JSON.stringify(draft) !== JSON.stringify(policy);
+
+  const toggleReason = (reason: string) => {
+    setDraft(previous => ({
+      ...previous,
+      completedReasons: previous.completedReasons.includes(reason)
+        ? previous.completedReasons.filter(value => value !== reason)
+        : [...previous.completedReasons, reason]
+    }));
+  };
+
+  return (
+    <div className="bg-gray-700 rounded-lg p-6">
+      <div className="flex items-center mb-2">
+        <Sliders className="h-6 w-6 text-green-400 mr-3" />
+        <h3 className="text-xl font-bold">Play Counting</h3>
+      </div>
+      <p className="text-gray-400 text-sm mb-6">
+        Decide which rows of your history count as a play. Every statistic uses this policy, so play counts,
+        top lists and listening hours agree across tabs.
+      </p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="space-y-6">
+          <div>
+            <label className="block font-medium mb-1">
+              Minimum play time: {(draft.minMsPlayed / 1000).toLocaleString()} seconds
+            </label>
+            <input
+              type="range"
+              min={0}
+              max={120000}
+              step={5000}
+              value={draft.minMsPlayed}
+              onChange={(e) => setDraft({ ...draft, minMsPlayed: Number(e.target.value) })}
+              className="w-full accent-green-500"
+            />
+            <p className="text-xs text-gray-400">Spotify counts a stream after 30 seconds.</p>
+          </div>
+
+          <div>
+            <label className="block font-medium mb-1">
+              Minimum share of the track: {Math.round(draft.minTrackFraction * 100)}%
+            </label>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={draft.minTrackFraction}
+              onChange={(e) => setDraft({ ...draft, minTrackFraction: Number(e.target.value) })}
+              className="w-full accent-green-500"
+            />
+            <p className="text-xs text-gray-400">
+              Track lengths are inferred from plays that ran to the end. 0% turns this check off.
+            </p>
+          </div>
+
+          <div>
+            <p className="font-medium mb-2">Always count as a completed play when playback ended by</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {REASON_END_OPTIONS.map(option => (
+                <label key={option.value} className="flex items-center space-x-2 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={draft.completedReasons.includes(option.value)}
+                    onChange={() => toggleReason(option.value)}
+                    className="accent-green-500"
+                  />
+                  <span>{option.label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={draft.countShortPlayTime}
+              onChange={(e) => setDraft({ ...draft, countShortPlayTime: e.target.checked })}
+              className="accent-green-500"
+            />
+            <span>Count time from rows that are not a play toward listening hours</span>
+          </label>
+        </div>
+
+        <div>
+          <h4 className="font-semibold mb-3">Preview</h4>
+          <div className="bg-gray-800 rounded-lg overflow-hidden text-sm">
+            <div className="grid grid-cols-4 bg-gray-900 text-gray-300 py-2 px-4">
+              <div className="font-medium"></div>
+              <div className="font-medium text-right">Current</div>
+              <div className="font-medium text-right">New</div>
+              <div className="font-medium text-right">Change</div>
+            </div>
+            <div className="grid grid-cols-4 py-2 px-4 border-t border-gray-700">
+              <div>Plays</div>
+              <div className="text-right">{currentSummary.plays.toLocaleString()}</div>
+              <div className="text-right">{previewSummary.plays.toLocaleString()}</div>
+              <div className="text-right">{formatChange(currentSummary.plays, previewSummary.plays)}</div>
+            </div>
+            <div className="grid grid-cols-4 py-2 px-4 border-t border-gray-700">
+              <div>Not a play</div>
+              <div className="text-right">{currentSummary.excludedRows.toLocaleString()}</div>
+              <div className="text-right">{previewSummary.excludedRows.toLocaleString()}</div>
+              <div className="text-right">{formatChange(currentSummary.excludedRows, previewSummary.excludedRows)}</div>
+            </div>
+            <div className="grid grid-cols-4 py-2 px-4 border-t border-gray-700">
+              <div>Listening hours</div>
+              <div className="text-right">{currentSummary.listeningHours.toLocaleString()}</div>
+              <div className="text-right">{previewSummary.listeningHours.toLocaleString()}</div>
+              <div className="text-right">{formatChange(currentSummary.listeningHours, previewSummary.listeningHours, 'h')}</div>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">Out of {currentSummary.rows.toLocaleString()} rows in the current view.</p>
+
+          <div className="flex justify-end space-x-2 mt-6">
+            <button
+              onClick={() => setDraft(DEFAULT_PLAY_COUNTING_POLICY)}
+              className="flex items-center space-x-1 bg-gray-600 hover:bg-gray-500 text-white px-4 py-2 rounded-lg transition-colors"
+            >
+              <RotateCcw className="h-4 w-4" />
+              <span>Defaults</span>
+            </button>
+            <button
+              onClick={() => onApply(draft)}
+              disabled={!hasChanges}
+              className="flex items-center space-x-1 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-colors"
+            >
+              <Check className="h-4 w-4" />
+              <span>Apply</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlayCountingSettings;
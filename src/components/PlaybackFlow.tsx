@@ -0,0 +1,218 @@
+import React from 'react';
+import { Workflow, MousePointerClick, SkipForward, Repeat, HelpCircle } from 'lucide-react';
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+} from 'chart.js';
+import {
+  PlaybackFlowStats,
+  StartCategory,
+  START_CATEGORIES,
+  REASON_START_LABELS,
+  REASON_END_OPTIONS
+} from '../analytics';
+
+// Register ChartJS components
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface PlaybackFlowProps {
+  playbackFlow?: PlaybackFlowStats;
+}
+
+// Rows and columns shown in the reason matrix
+const MATRIX_SIZE = 8;
+
+const CATEGORY_STYLES: Record<StartCategory, { icon: React.ReactNode; color: string; bar: string }> = {
+  intentional: { icon: <MousePointerClick className="h-6 w-6 text-green-400" />, color: '34, 197, 94', bar: 'bg-green-500' },
+  navigation: { icon: <SkipForward className="h-6 w-6 text-yellow-400" />, color: '234, 179, 8', bar: 'bg-yellow-500' },
+  continuation: { icon: <Repeat className="h-6 w-6 text-blue-400" />, color: '59, 130, 246', bar: 'bg-blue-500' },
+  other: { icon: <HelpCircle className="h-6 w-6 text-gray-400" />, color: '156, 163, 175', bar: 'bg-gray-500' }
+};
+
+const END_REASON_LABELS: Record<string, string> = Object.fromEntries(
+  REASON_END_OPTIONS.map(option => [option.value, option.label])
+);
+
+const chartOptions = {
+  responsive: true,
+  maintainAspectRatio: false,
+  plugins: {
+    legend: {
+      position: 'top' as const,
+      labels: {
+        color: 'rgba(255, 255, 255, 0.7)',
+      },
+    },
+    tooltip: {
+      backgroundColor: 'rgba(0, 0, 0, 0.8)',
+      titleColor: '#fff',
+      bodyColor: '#fff',
+    },
+  },
+  scales: {
+    y: {
+      beginAtZero: true,
+      max: 100,
+      grid: {
+        color: 'rgba(255, 255, 255, 0.1)',
+      },
+      ticks: {
+        color: 'rgba(255, 255, 255, 0.7)',
+      },
+    },
+    x: {
+      grid: {
+        display: false,
+      },
+      ticks: {
+        color: 'rgba(255, 255, 255, 0.7)',
+      },
+    },
+  },
+};
+
+const PlaybackFlow: React.FC<PlaybackFlowProps> = ({ playbackFlow }) => {
+  if (!playbackFlow || playbackFlow.total_starts === 0) {
+    return (
+      <div className="text-center py-8">
+        <Workflow className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+        <p className="text-gray-400">No playback start reasons found in this data.</p>
+        <p className="text-gray-500 text-sm mt-2">
+          Start and end reasons are part of the extended streaming history, not the account data export.
+        </p>
+      </div>
+    );
+  }
+
+  const total = playbackFlow.total_starts;
+  const share = (count: number) => total > 0 ? (count / total) * 100 : 0;
+
+  const startReasons = playbackFlow.start_reasons.slice(0, MATRIX_SIZE);
+  const endReasons = playbackFlow.end_reasons.slice(0, MATRIX_SIZE);
+  const maxCell = Math.max(1, ...startReasons.flatMap(start =>
+    endReasons.map(end => playbackFlow.matrix[start]?.[end] || 0)
+  ));
+
+  const trendData = {
+    labels: playbackFlow.monthly.months,
+    datasets: START_CATEGORIES.map(category => ({
+      label: category.label,
+      data: playbackFlow.monthly.shares[category.id],
+      borderColor: `rgba(${CATEGORY_STYLES[category.id].color}, 1)`,
+      backgroundColor: `rgba(${CATEGORY_STYLES[category.id].color}, 0.2)`,
+      tension: 0.4,
+      pointRadius: 2,
+    })),
+  };
+
+  const platforms = Object.entries(playbackFlow.by_platform);
+
+  return (
+    <div>
+      <h2 className="text-2xl font-bold mb-2">Playback Flow</h2>
+      <p className="text-gray-400 mb-6">
+        {share(playbackFlow.categories.intentional).toFixed(1)}% of your playback starts were picked by you;{' '}
+        {share(playbackFlow.categories.continuation).toFixed(1)}% simply followed the previous track.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+        {START_CATEGORIES.map(category => (
+          <div key={category.id} className="bg-gray-700 rounded-lg p-6 shadow-lg">
+            <div className="flex items-center mb-2">
+              {CATEGORY_STYLES[category.id].icon}
+              <h3 className="font-bold ml-3">{category.label}</h3>
+            </div>
+            <p className="text-2xl font-bold">{share(playbackFlow.categories[category.id]).toFixed(1)}%</p>
+            <p className="text-sm text-gray-400">{playbackFlow.categories[category.id].toLocaleString()} starts</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-gray-700 rounded-lg p-6 shadow-lg mb-8 overflow-x-auto">
+        <h3 className="text-xl font-bold mb-4">How Playback Starts and Ends</h3>
+        <table className="w-full text-sm">
+          <thead>
+            <tr>
+              <th className="text-left text-gray-400 font-medium p-2">Started by \ Ended by</th>
+              {endReasons.map(end => (
+                <th key={end} className="text-right text-gray-300 font-medium p-2">{END_REASON_LABELS[end] || end}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {startReasons.map(start => (
+              <tr key={start} className="border-t border-gray-600">
+                <td className="text-gray-300 p-2">{REASON_START_LABELS[start] || start}</td>
+                {endReasons.map(end => {
+                  const count = playbackFlow.matrix[start]?.[end] || 0;
+                  return (
+                    <td
+                      key={end}
+                      className="text-right p-2"
+                      style={{ backgroundColor: `rgba(34, 197, 94, ${(count / maxCell) * 0.6})` }}
+                      title={`${share(count).toFixed(1)}% of all starts`}
+                    >
+                      {count > 0 ? count.toLocaleString() : ''}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {playbackFlow.monthly.months.length > 1 && (
+        <div className="bg-gray-700 rounded-lg p-6 shadow-lg mb-8">
+          <h3 className="text-xl font-bold mb-4">Over Time</h3>
+          <div className="h-72">
+            <Line data={trendData} options={chartOptions} />
+          </div>
+        </div>
+      )}
+
+      {platforms.length > 0 && (
+        <div className="bg-gray-700 rounded-lg p-6 shadow-lg">
+          <h3 className="text-xl font-bold mb-4">By Platform</h3>
+          <ul className="space-y-3">
+            {platforms.map(([platform, shares]) => (
+              <li key={platform}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="font-medium">{platform}</span>
+                  <span className="text-gray-400">{shares.intentional.toFixed(1)}% picked by you</span>
+                </div>
+                <div className="flex w-full h-3 rounded-full overflow-hidden bg-gray-600">
+                  {START_CATEGORIES.map(category => (
+                    <div
+                      key={category.id}
+                      className={CATEGORY_STYLES[category.id].bar}
+                      style={{ width: `${shares[category.id]}%` }}
+                      title={`${category.label}: ${shares[category.id].toFixed(1)}%`}
+                    ></div>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlaybackFlow;
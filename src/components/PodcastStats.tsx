@@ -0,0 +1,224 @@
+import React from 'react';
+import { Podcast, Clock, CheckCircle, XCircle, BookOpen } from 'lucide-react';
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+} from 'chart.js';
+
+// Register ChartJS components
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface PodcastStatsProps {
+  podcastStats?: {
+    total_hours: number;
+    total_plays: number;
+    unique_shows: number;
+    unique_episodes: number;
+    episodes_finished: number;
+    episodes_abandoned: number;
+    top_shows: Record<string, number>;
+    monthly_show_hours: {
+      months: string[];
+      shows: Record<string, number[]>;
+    };
+    audiobook_hours: number;
+  };
+}
+
+const SHOW_COLORS = [
+  'rgba(236, 72, 153, 1)',
+  'rgba(59, 130, 246, 1)',
+  'rgba(234, 179, 8, 1)',
+  'rgba(20, 184, 166, 1)',
+  'rgba(168, 85, 247, 1)',
+];
+
+const PodcastStats: React.FC<PodcastStatsProps> = ({ podcastStats }) => {
+  if (!podcastStats || (podcastStats.total_plays === 0 && podcastStats.audiobook_hours === 0)) {
+    return (
+      <div className="text-center py-8">
+        <Podcast className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+        <p className="text-gray-400">No podcast or audiobook listening found in this data.</p>
+        <p className="text-gray-500 text-sm mt-2">
+          Podcast episodes appear in the extended streaming history with an episode and show name.
+        </p>
+      </div>
+    );
+  }
+
+  const showsArray = Object.entries(podcastStats.top_shows).map(([name, hours]) => ({ name, hours }));
+  const maxShowHours = Math.max(...showsArray.map(show => show.hours), 0);
+  const knownOutcomes = podcastStats.episodes_finished + podcastStats.episodes_abandoned;
+  const finishRate = knownOutcomes > 0 ? (podcastStats.episodes_finished / knownOutcomes) * 100 : 0;
+
+  const chartData = {
+    labels: podcastStats.monthly_show_hours.months.map(month =>
+      new Date(month + '-01').toLocaleDateString('en-US', { year: 'numeric', month: 'short' })
+    ),
+    datasets: Object.entries(podcastStats.monthly_show_hours.shows).map(([show, hours], index) => ({
+      label: show,
+      data: hours,
+      borderColor: SHOW_COLORS[index % SHOW_COLORS.length],
+      backgroundColor: SHOW_COLORS[index % SHOW_COLORS.length],
+      tension: 0.3,
+      pointRadius: 2,
+    })),
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'top' as const,
+        labels: {
+          color: 'rgba(255, 255, 255, 0.7)',
+        },
+      },
+      tooltip: {
+        backgroundColor: 'rgba(0, 0, 0, 0.8)',
+        titleColor: '#fff',
+        bodyColor: '#fff',
+      },
+    },
+    scales: {
+      y: {
+        beginAtZero: true,
+        title: {
+          display: true,
+          text: 'Hours',
+          color: 'rgba(255, 255, 255, 0.7)',
+        },
+        grid: {
+          color: 'rgba(255, 255, 255, 0.1)',
+        },
+        ticks: {
+          color: 'rgba(255, 255, 255, 0.7)',
+        },
+      },
+      x: {
+        grid: {
+          display: false,
+        },
+        ticks: {
+          color: 'rgba(255, 255, 255, 0.7)',
+        },
+      },
+    },
+  };
+
+  return (
+    <div>
+      <h2 className="text-2xl font-bold mb-6">Your Podcast Listening</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+        <div className="bg-gray-700 rounded-lg p-6 shadow-lg">
+          <div className="flex items-center mb-3">
+            <Clock className="h-6 w-6 text-pink-400 mr-3" />
+            <h3 className="font-semibold">Podcast Time</h3>
+          </div>
+          <p className="text-3xl font-bold text-pink-400">{podcastStats.total_hours.toLocaleString()}h</p>
+          <p className="text-sm text-gray-400">{podcastStats.total_plays.toLocaleString()} plays</p>
+        </div>
+
+        <div className="bg-gray-700 rounded-lg p-6 shadow-lg">
+          <div className="flex items-center mb-3">
+            <Podcast className="h-6 w-6 text-blue-400 mr-3" />
+            <h3 className="font-semibold">Shows</h3>
+          </div>
+          <p className="text-3xl font-bold text-blue-400">{podcastStats.unique_shows.toLocaleString()}</p>
+          <p className="text-sm text-gray-400">{podcastStats.unique_episodes.toLocaleString()} episodes</p>
+        </div>
+
+        <div className="bg-gray-700 rounded-lg p-6 shadow-lg">
+          <div className="flex items-center mb-3">
+            <CheckCircle className="h-6 w-6 text-green-400 mr-3" />
+            <h3 className="font-semibold">Finished</h3>
+          </div>
+          <p className="text-3xl font-bold text-green-400">{podcastStats.episodes_finished.toLocaleString()}</p>
+          <p className="text-sm text-gray-400">{finishRate.toFixed(1)}% of episodes with a known outcome</p>
+        </div>
+
+        <div className="bg-gray-700 rounded-lg p-6 shadow-lg">
+          <div className="flex items-center mb-3">
+            <XCircle className="h-6 w-6 text-red-400 mr-3" />
+            <h3 className="font-semibold">Abandoned</h3>
+          </div>
+          <p className="text-3xl font-bold text-red-400">{podcastStats.episodes_abandoned.toLocaleString()}</p>
+          <p className="text-sm text-gray-400">never played to the end</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mb-8">
+        <div className="bg-gray-700 rounded-lg overflow-hidden shadow-lg">
+          <div className="bg-pink-600 px-6 py-4 flex items-center">
+            <Podcast className="h-6 w-6 mr-2" />
+            <h3 className="text-lg font-bold">Top Shows</h3>
+          </div>
+          <div className="p-6">
+            <ul className="space-y-4">
+              {showsArray.map((show, index) => (
+                <li key={index}>
+                  <div className="flex justify-between mb-1">
+                    <span className="font-medium truncate pr-2">{show.name}</span>
+                    <span className="text-gray-400 text-sm whitespace-nowrap">{show.hours} hours</span>
+                  </div>
+                  <div className="w-full bg-gray-600 rounded-full h-2">
+                    <div
+                      className="bg-pink-500 h-2 rounded-full"
+                      style={{ width: `${maxShowHours > 0 ? (show.hours / maxShowHours) * 100 : 0}%` }}
+                    ></div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+
+        <div className="bg-gray-700 rounded-lg p-6 shadow-lg lg:col-span-2">
+          <h3 className="text-xl font-bold mb-4">Hours per Show Over Time</h3>
+          <div className="h-80">
+            <Line data={chartData} options={chartOptions} />
+          </div>
+        </div>
+      </div>
+
+      {podcastStats.audiobook_hours > 0 && (
+        <div className="bg-gray-700 rounded-lg p-6 mb-8 flex items-center">
+          <BookOpen className="h-8 w-8 text-yellow-400 mr-4" />
+          <div>
+            <h3 className="font-bold">Audiobooks</h3>
+            <p className="text-gray-300">
+              You also spent {podcastStats.audiobook_hours.toLocaleString()} hours listening to audiobooks.
+            </p>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-gray-700 rounded-lg p-6">
+        <h3 className="text-xl font-bold mb-4">About Your Podcast Listening</h3>
+        <p className="text-gray-300">
+          Episodes count as finished when at least one play ran to the end. Episodes from the basic account data
+          export don't record how playback ended, so they are left out of the finished and abandoned counts.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default PodcastStats;
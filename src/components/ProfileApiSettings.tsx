@@ -2,6 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { Key, RefreshCw, AlertCircle, CheckCircle, ExternalLink } from 'lucide-react';
 import { testSpotifyCredentials, getAllRecentTracks, convertRecentTracksToStreamingData, getUserOAuthUrl, getUserAccessToken } from '../services/userSpotifyApiService';
 import { updateProfile, getProfile } from '../services/indexedDBProfileService';
+import { createImportBatch } from '../services/importBatchService';
+import { normalizeStreamingData, mergeStreamingDataWithReport } from '../analytics';
 
 interface ProfileApiSettingsProps {
   profileId: string;
@@ -189,27 +191,24 @@ const ProfileApiSettings: React.FC<ProfileApiSettingsProps> = ({ profileId, onDa
 
       // Get existing profile data
       const existingProfile = await getProfile(profileId);
-      let combinedData = newStreamingData;
-
-      if (existingProfile?.streamingData) {
-        // Merge with existing data, avoiding duplicates
-        const existingData = Array.isArray(existingProfile.streamingData) 
-          ? existingProfile.streamingData 
-          : (existingProfile.streamingData as { rawData?: unknown[] })?.rawData || [];
-
-        // Create a set of existing timestamps to avoid duplicates
-        const existingTimestamps = new Set(existingData.map((item: { ts: string }) => item.ts));
-        
-        // Filter out tracks that already exist
-        const uniqueNewData = newStreamingData.filter(item => !existingTimestamps.has(item.ts));
-        
-        // Combine data (new data first, then existing)
-        combinedData = [...uniqueNewData, ...existingData];
-      }
+      const batch = createImportBatch('Spotify API sync', 'api_sync');
+      const taggedStreamingData = newStreamingData.map(item => ({ ...item, import_batch_ids: [batch.id] }));
+      const existingData: unknown[] = Array.isArray(existingProfile?.streamingData)
+        ? existingProfile.streamingData
+        : (existingProfile?.streamingData as { rawData?: unknown[] } | null)?.rawData || [];
+
+      // Plays already in the history (from an export or an earlier sync) are matched by URI and time,
+      // since the API reports the full track length rather than the time actually played
+      const { data: combinedData, report } = mergeStreamingDataWithReport(
+        normalizeStreamingData(existingData),
+        taggedStreamingData
+      );
+      const entriesAdded = report.added;
 
       // Update profile with combined data
       await updateProfile(profileId, {
         streamingData: combinedData,
+        importBatches: [...(existingProfile?.importBatches || []), { ...batch, entriesAdded }],
         spotifyApiCredentials: {
           clientId: existingProfile?.spotifyApiCredentials?.clientId || '',
           clientSecret: existingProfile?.spotifyApiCredentials?.clientSecret || '',
@@ -222,7 +221,7 @@ const ProfileApiSettings: React.FC<ProfileApiSettingsProps> = ({ profileId, onDa
       });
 
       setLastSync(new Date().toISOString());
-      setSuccess(`Successfully synced ${newStreamingData.length} tracks from your recent Spotify activity!`);
+      setSuccess(`Synced ${newStreamingData.length} tracks from your recent Spotify activity: ${entriesAdded} new, ${report.duplicates} already in your history.`);
       
       // Notify parent component to refresh data
       onDataUpdated();
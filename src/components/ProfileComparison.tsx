@@ -0,0 +1,334 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Users, Heart, Music, User } from 'lucide-react';
+import { Bar } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend
+} from 'chart.js';
+import {
+  StreamingEntry,
+  SpotifyStats,
+  PlayCountingPolicy,
+  TimezoneSettings,
+  SharedEntity,
+  ProfileFavorite,
+  MIN_BLEND_PLAYS,
+  normalizeStreamingData,
+  compareProfiles
+} from '../analytics';
+import { getProfile, ProfileSummary } from '../services/indexedDBProfileService';
+
+// Register ChartJS components
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface ProfileComparisonProps {
+  currentProfileId: string | null;
+  profiles: ProfileSummary[];
+  // The current profile's whole history and settings
+  historyData: StreamingEntry[];
+  playCountingPolicy?: PlayCountingPolicy;
+  timezone?: TimezoneSettings;
+}
+
+interface LoadedProfile {
+  id: string;
+  name: string;
+  entries: StreamingEntry[];
+  policy?: PlayCountingPolicy;
+  timezone?: TimezoneSettings;
+}
+
+const FIRST_COLOR = '34, 197, 94';
+const SECOND_COLOR = '59, 130, 246';
+
+const HOUR_LABELS = Array.from({ length: 24 }, (_, hour) => `${hour}:00`);
+
+const chartOptions = {
+  responsive: true,
+  maintainAspectRatio: false,
+  plugins: {
+    legend: {
+      position: 'top' as const,
+      labels: {
+        color: 'rgba(255, 255, 255, 0.7)',
+      },
+    },
+    tooltip: {
+      backgroundColor: 'rgba(0, 0, 0, 0.8)',
+      titleColor: '#fff',
+      bodyColor: '#fff',
+    },
+  },
+  scales: {
+    y: {
+      beginAtZero: true,
+      grid: {
+        color: 'rgba(255, 255, 255, 0.1)',
+      },
+      ticks: {
+        color: 'rgba(255, 255, 255, 0.7)',
+        callback: (value: string | number) => `${value}%`,
+      },
+    },
+    x: {
+      grid: {
+        display: false,
+      },
+      ticks: {
+        color: 'rgba(255, 255, 255, 0.7)',
+      },
+    },
+  },
+};
+
+// Profiles store either processed stats with their raw data, or the raw entries themselves
+const getStoredEntries = (streamingData: unknown): StreamingEntry[] => {
+  if (Array.isArray(streamingData)) return streamingData;
+  return (streamingData as SpotifyStats | undefined)?.rawData || [];
+};
+
+const SharedList: React.FC<{ title: string; entities: SharedEntity[]; names: [string, string] }> = ({ title, entities, names }) => (
+  <div className="bg-gray-700 rounded-lg p-6 shadow-lg">
+    <h3 className="text-xl font-bold mb-4">{title}</h3>
+    {entities.length === 0 ? (
+      <p className="text-sm text-gray-400">Nothing in common yet.</p>
+    ) : (
+      <ul className="space-y-2 text-sm">
+        {entities.map(entity => (
+          <li key={entity.id} className="flex items-center">
+            <div className="flex-1 min-w-0">
+              <p className="truncate">{entity.name}</p>
+              {entity.artist && <p className="text-xs text-gray-400 truncate">{entity.artist}</p>}
+            </div>
+            <span className="text-green-400 ml-2" title={names[0]}>{entity.first_plays}</span>
+            <span className="text-gray-500 mx-1">/</span>
+            <span className="text-blue-400" title={names[1]}>{entity.second_plays}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+const FavoriteList: React.FC<{ title: string; favorites: ProfileFavorite[] }> = ({ title, favorites }) => (
+  <div>
+    <h4 className="font-bold mb-2 text-gray-300">{title}</h4>
+    {favorites.length === 0 ? (
+      <p className="text-sm text-gray-500">None</p>
+    ) : (
+      <ol className="text-sm space-y-1">
+        {favorites.map((favorite, index) => (
+          <li key={favorite.id} className="flex justify-between">
+            <span className="truncate">
+              {index + 1}. {favorite.name}
+              {favorite.artist && <span className="text-gray-400"> · {favorite.artist}</span>}
+            </span>
+            <span className="text-gray-400 ml-2">{favorite.plays}</span>
+          </li>
+        ))}
+      </ol>
+    )}
+  </div>
+);
+
+const ProfileComparison: React.FC<ProfileComparisonProps> = ({
+  currentProfileId,
+  profiles,
+  historyData,
+  playCountingPolicy,
+  timezone
+}) => {
+  const [otherId, setOtherId] = useState('');
+  const [other, setOther] = useState<LoadedProfile | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const otherProfiles = profiles.filter(profile => profile.id !== currentProfileId);
+  const currentName = profiles.find(profile => profile.id === currentProfileId)?.name || 'This profile';
+
+  useEffect(() => {
+    if (!otherId) {
+      setOther(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    getProfile(otherId)
+      .then(profile => {
+        if (cancelled) return;
+        if (!profile) throw new Error('Profile not found');
+        setOther({
+          id: profile.id,
+          name: profile.name,
+          entries: normalizeStreamingData(getStoredEntries(profile.streamingData)),
+          policy: profile.playCountingPolicy,
+          timezone: profile.timezoneSettings
+        });
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load the profile');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [otherId]);
+
+  const comparison = useMemo(() => {
+    if (!other || historyData.length === 0 || other.entries.length === 0) return null;
+    return compareProfiles(
+      { entries: normalizeStreamingData(historyData), policy: playCountingPolicy, timezone },
+      { entries: other.entries, policy: other.policy, timezone: other.timezone }
+    );
+  }, [historyData, playCountingPolicy, timezone, other]);
+
+  if (otherProfiles.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <Users className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+        <p className="text-gray-400">Create another profile to compare your taste with it.</p>
+      </div>
+    );
+  }
+
+  const names: [string, string] = [currentName, other?.name || ''];
+
+  const hourlyChartData = comparison && {
+    labels: HOUR_LABELS,
+    datasets: [
+      {
+        label: names[0],
+        data: comparison.hourly_share.first,
+        backgroundColor: `rgba(${FIRST_COLOR}, 0.6)`,
+        borderColor: `rgba(${FIRST_COLOR}, 1)`,
+        borderWidth: 1,
+      },
+      {
+        label: names[1],
+        data: comparison.hourly_share.second,
+        backgroundColor: `rgba(${SECOND_COLOR}, 0.6)`,
+        borderColor: `rgba(${SECOND_COLOR}, 1)`,
+        borderWidth: 1,
+      },
+    ],
+  };
+
+  return (
+    <div>
+      <h2 className="text-2xl font-bold mb-6">Compare Profiles</h2>
+
+      <div className="flex flex-wrap items-center gap-3 mb-8">
+        <span className="font-medium">{currentName}</span>
+        <span className="text-gray-400">vs</span>
+        <select
+          value={otherId}
+          onChange={(e) => setOtherId(e.target.value)}
+          className="bg-gray-700 text-white rounded-md px-3 py-1"
+        >
+          <option value="">Choose a profile</option>
+          {otherProfiles.map(profile => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {loading && <p className="text-gray-400">Loading profile...</p>}
+      {error && <p className="text-red-400">{error}</p>}
+      {!loading && other && !comparison && (
+        <p className="text-gray-400">Both profiles need uploaded streaming history to be compared.</p>
+      )}
+
+      {!loading && comparison && hourlyChartData && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+            <div className="bg-gray-700 rounded-lg p-6 shadow-lg">
+              <div className="flex items-center mb-2">
+                <User className="h-6 w-6 text-purple-400 mr-3" />
+                <h3 className="font-bold">Artist Overlap</h3>
+              </div>
+              <p className="text-2xl font-bold">{comparison.artist_overlap.weighted}%</p>
+              <p className="text-sm text-gray-400">
+                Weighted by plays; {comparison.artist_overlap.jaccard}% of all artists are shared
+              </p>
+            </div>
+            <div className="bg-gray-700 rounded-lg p-6 shadow-lg">
+              <div className="flex items-center mb-2">
+                <Music className="h-6 w-6 text-teal-400 mr-3" />
+                <h3 className="font-bold">Track Overlap</h3>
+              </div>
+              <p className="text-2xl font-bold">{comparison.track_overlap.weighted}%</p>
+              <p className="text-sm text-gray-400">
+                Weighted by plays; {comparison.track_overlap.jaccard}% of all tracks are shared
+              </p>
+            </div>
+            <div className="bg-gray-700 rounded-lg p-6 shadow-lg">
+              <div className="flex items-center mb-2">
+                <Users className="h-6 w-6 text-green-400 mr-3" />
+                <h3 className="font-bold">Shared Artists</h3>
+              </div>
+              <p className="text-2xl font-bold">{comparison.shared_artist_count.toLocaleString()}</p>
+              <p className="text-sm text-gray-400">{comparison.shared_track_count.toLocaleString()} shared tracks</p>
+            </div>
+            <div className="bg-gray-700 rounded-lg p-6 shadow-lg">
+              <div className="flex items-center mb-2">
+                <Heart className="h-6 w-6 text-pink-400 mr-3" />
+                <h3 className="font-bold">Blend</h3>
+              </div>
+              <p className="text-2xl font-bold">{comparison.blend.length}</p>
+              <p className="text-sm text-gray-400">Tracks you both played at least {MIN_BLEND_PLAYS} times</p>
+            </div>
+          </div>
+
+          <div className="bg-gray-700 rounded-lg p-6 shadow-lg mb-8">
+            <h3 className="text-xl font-bold mb-4">When You Listen</h3>
+            <div className="h-72">
+              <Bar data={hourlyChartData} options={chartOptions} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+            <SharedList title="Your Blend" entities={comparison.blend} names={names} />
+            <SharedList title="Shared Artists" entities={comparison.shared_artists} names={names} />
+            <SharedList title="Shared Tracks" entities={comparison.shared_tracks} names={names} />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {[
+              { name: names[0], favorites: comparison.first_unique, color: 'text-green-400' },
+              { name: names[1], favorites: comparison.second_unique, color: 'text-blue-400' }
+            ].map(side => (
+              <div key={side.name} className="bg-gray-700 rounded-lg p-6 shadow-lg">
+                <h3 className="text-xl font-bold mb-4">
+                  Only <span className={side.color}>{side.name}</span> Listens To
+                </h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FavoriteList title="Artists" favorites={side.favorites.artists} />
+                  <FavoriteList title="Tracks" favorites={side.favorites.tracks} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ProfileComparison;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { User, Plus, Trash2, Download, Upload, Settings, Music, Calendar, HardDrive } from 'lucide-react';
+import { User, Plus, Trash2, Download, Upload, Settings, Music, Calendar, HardDrive, History, FileJson, Archive, RefreshCw } from 'lucide-react';
 import { 
   getProfileSummaries, 
   createProfile, 
@@ -10,27 +10,41 @@ import {
   importProfile,
   getStorageStats,
   updateProfile,
+  getImportBatches,
+  removeImportBatch,
   ProfileSummary 
 , StorageStats } from '../services/indexedDBProfileService';
-import { analyzeStreamingData, StreamingEntry } from '../services/streamingDataAnalyzer';
+import { ImportBatch } from '../services/importBatchService';
+import { analyzeStreamingData } from '../services/streamingDataAnalyzer';
+import { StreamingEntry } from '../analytics';
 
 interface ProfileSelectorProps {
   onProfileSelected: (profileId: string | null) => void;
   currentProfileId: string | null;
+  // Called after a profile's data changed here, e.g. when an import was removed
+  onProfileDataChanged?: (profileId: string) => void;
 }
 
-const ProfileSelector: React.FC<ProfileSelectorProps> = ({ onProfileSelected, currentProfileId }) => {
+const ProfileSelector: React.FC<ProfileSelectorProps> = ({ onProfileSelected, currentProfileId, onProfileDataChanged }) => {
   const [profiles, setProfiles] = useState<ProfileSummary[]>([]);
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [newProfileName, setNewProfileName] = useState('');
   const [showStorageStats, setShowStorageStats] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [importBatches, setImportBatches] = useState<Record<string, ImportBatch[]>>({});
+  const [expandedProfileId, setExpandedProfileId] = useState<string | null>(null);
 
   const loadProfiles = React.useCallback(async () => {
     try {
       const allProfiles = await getProfileSummaries();
       setProfiles(allProfiles);
+
+      const batches: Record<string, ImportBatch[]> = {};
+      for (const profile of allProfiles) {
+        batches[profile.id] = await getImportBatches(profile.id);
+      }
+      setImportBatches(batches);
     } catch (error) {
       console.error('Error loading profiles:', error);
     }
@@ -139,6 +153,36 @@ const ProfileSelector: React.FC<ProfileSelectorProps> = ({ onProfileSelected, cu
     }
   };
 
+  const handleRemoveImport = async (profileId: string, batch: ImportBatch) => {
+    if (!confirm(`Remove the ${batch.entriesAdded.toLocaleString()} entries added by "${batch.name}"? Entries from other imports are kept.`)) {
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      await removeImportBatch(profileId, batch.id);
+      await loadProfiles();
+      onProfileDataChanged?.(profileId);
+    } catch (error) {
+      console.error('Error removing import:', error);
+      setError('Failed to remove import');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getBatchIcon = (sourceType: ImportBatch['sourceType']) => {
+    switch (sourceType) {
+      case 'archive':
+        return <Archive className="h-4 w-4 text-gray-400" />;
+      case 'api_sync':
+        return <RefreshCw className="h-4 w-4 text-blue-400" />;
+      default:
+        return <FileJson className="h-4 w-4 text-gray-400" />;
+    }
+  };
+
   const handleExportProfile = async (profileId: string, profileName: string) => {
     try {
       const profileData = await exportProfile(profileId);
@@ -344,6 +388,15 @@ const ProfileSelector: React.FC<ProfileSelectorProps> = ({ onProfileSelected, cu
                       <Music className="h-4 w-4 mr-1" />
                       {profile.totalTracks ? `${profile.totalTracks.toLocaleString()} tracks` : 'No data'}
                     </div>
+                    {(importBatches[profile.id]?.length || 0) > 0 && (
+                      <button
+                        onClick={() => setExpandedProfileId(expandedProfileId === profile.id ? null : profile.id)}
+                        className="flex items-center hover:text-white transition-colors"
+                      >
+                        <History className="h-4 w-4 mr-1" />
+                        {importBatches[profile.id].length} import{importBatches[profile.id].length === 1 ? '' : 's'}
+                      </button>
+                    )}
                   </div>
                 </div>
                 <div className="flex items-center space-x-2">
@@ -371,6 +424,39 @@ const ProfileSelector: React.FC<ProfileSelectorProps> = ({ onProfileSelected, cu
                   </button>
                 </div>
               </div>
+
+              {expandedProfileId === profile.id && (
+                <div className="mt-4 border-t border-gray-600 pt-3">
+                  <h4 className="text-sm font-semibold text-gray-300 mb-2">Import History</h4>
+                  <ul className="space-y-2">
+                    {importBatches[profile.id].map(batch => (
+                      <li key={batch.id} className="flex items-center justify-between bg-gray-800 rounded-md px-3 py-2 text-sm">
+                        <div className="flex items-center space-x-3 min-w-0">
+                          {getBatchIcon(batch.sourceType)}
+                          <div className="min-w-0">
+                            <p className="font-medium truncate">{batch.name}</p>
+                            <p className="text-xs text-gray-400 truncate">
+                              {new Date(batch.importedAt).toLocaleString()} • +{batch.entriesAdded.toLocaleString()} entries
+                              {batch.hash && <span title={batch.hash}> • {batch.hash.slice(0, 8)}</span>}
+                            </p>
+                          </div>
+                        </div>
+                        <button
+                          onClick={() => handleRemoveImport(profile.id, batch)}
+                          disabled={loading}
+                          className="p-1 text-gray-400 hover:text-red-400 disabled:opacity-50 transition-colors"
+                          title="Remove this import"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-gray-500 mt-2">
+                    Removing an import only takes out the entries it added. Data imported before imports were tracked can only be cleared as a whole.
+                  </p>
+                </div>
+              )}
             </div>
           ))}
         </div>
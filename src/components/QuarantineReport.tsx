@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import { ShieldAlert, ShieldCheck, ChevronDown, ChevronRight, RotateCcw, Trash2, Edit3, Check, X } from 'lucide-react';
+import {
+  QuarantinedRecord,
+  QuarantineReason,
+  ValidationIssue,
+  validateStreamingEntry,
+  canReadmitAsIs,
+  groupQuarantineByReason
+} from '../services/streamingDataValidator';
+
+interface QuarantineReportProps {
+  records: QuarantinedRecord[];
+  onReadmit: (items: { id: string; record: unknown }[]) => void;
+  onDiscard: (ids: string[]) => void;
+  onUpdate: (item: QuarantinedRecord) => void;
+}
+
+const REASON_LABELS: Record<QuarantineReason, { title: string; description: string }> = {
+  not_an_object: { title: 'Not a record', description: 'The entry is not a JSON object.' },
+  missing_field: { title: 'Missing field', description: 'A required field is missing or empty.' },
+  invalid_type: { title: 'Wrong field type', description: 'A field has a different type than the export format declares.' },
+  invalid_timestamp: { title: 'Invalid timestamp', description: 'The timestamp is not an ISO 8601 date and time.' },
+  negative_value: { title: 'Negative play time', description: 'ms_played is negative or not a finite number.' },
+  invalid_uri: { title: 'Invalid Spotify URI', description: 'A track, episode or audiobook URI is not in the Spotify format.' },
+};
+
+// Rendering thousands of JSON previews at once makes the tab sluggish
+const RECORDS_PER_GROUP = 50;
+
+const QuarantineReport: React.FC<QuarantineReportProps> = ({ records, onReadmit, onDiscard, onUpdate }) => {
+  const [expandedReason, setExpandedReason] = useState<QuarantineReason | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [editIssues, setEditIssues] = useState<ValidationIssue[]>([]);
+  const [editError, setEditError] = useState<string | null>(null);
+
+  if (records.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <ShieldCheck className="h-16 w-16 text-green-400 mx-auto mb-4" />
+        <p className="text-gray-300">No records are in quarantine.</p>
+        <p className="text-gray-500 text-sm mt-2">
+          Every imported record matched the streaming history schema.
+        </p>
+      </div>
+    );
+  }
+
+  const groups = groupQuarantineByReason(records);
+
+  const startEditing = (item: QuarantinedRecord) => {
+    setEditingId(item.id);
+    setEditText(JSON.stringify(item.record, null, 2));
+    setEditIssues(item.issues);
+    setEditError(null);
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setEditIssues([]);
+    setEditError(null);
+  };
+
+  const saveFix = (item: QuarantinedRecord) => {
+    let fixedRecord: unknown;
+    try {
+      fixedRecord = JSON.parse(editText);
+    } catch {
+      setEditError('This is not valid JSON.');
+      return;
+    }
+
+    const issues = validateStreamingEntry(fixedRecord);
+    if (issues.length === 0) {
+      onReadmit([{ id: item.id, record: fixedRecord }]);
+      cancelEditing();
+      return;
+    }
+
+    // Keep the edit so the user can carry on fixing it later
+    setEditIssues(issues);
+    setEditError(null);
+    onUpdate({ ...item, record: fixedRecord, issues, reason: issues[0].reason });
+  };
+
+  return (
+    <div>
+      <h2 className="text-2xl font-bold mb-2">Quarantined Records</h2>
+      <p className="text-gray-400 mb-6">
+        {records.length.toLocaleString()} imported record{records.length === 1 ? '' : 's'} didn't match the streaming
+        history schema and {records.length === 1 ? 'is' : 'are'} left out of every statistic. Fix them, re-admit them
+        as they are, or discard them.
+      </p>
+
+      <div className="space-y-4">
+        {(Object.entries(groups) as [QuarantineReason, QuarantinedRecord[]][]).map(([reason, items]) => {
+          const isExpanded = expandedReason === reason;
+          const readmittable = items.filter(item => canReadmitAsIs(item.issues));
+
+          return (
+            <div key={reason} className="bg-gray-700 rounded-lg overflow-hidden">
+              <div className="flex items-center justify-between px-4 py-3">
+                <button
+                  onClick={() => setExpandedReason(isExpanded ? null : reason)}
+                  className="flex items-center space-x-3 text-left"
+                >
+                  {isExpanded ? <ChevronDown className="h-5 w-5" /> : <ChevronRight className="h-5 w-5" />}
+                  <ShieldAlert className="h-5 w-5 text-yellow-400" />
+                  <div>
+                    <p className="font-semibold">
+                      {REASON_LABELS[reason].title}
+                      <span className="ml-2 text-sm text-gray-400">{items.length.toLocaleString()}</span>
+                    </p>
+                    <p className="text-sm text-gray-400">{REASON_LABELS[reason].description}</p>
+                  </div>
+                </button>
+                <div className="flex items-center space-x-2">
+                  {readmittable.length > 0 && (
+                    <button
+                      onClick={() => onReadmit(readmittable.map(item => ({ id: item.id, record: item.record })))}
+                      className="flex items-center space-x-1 bg-green-600 hover:bg-green-700 text-white text-sm px-3 py-1 rounded-lg transition-colors"
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                      <span>Re-admit {readmittable.length === items.length ? 'all' : readmittable.length.toLocaleString()}</span>
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onDiscard(items.map(item => item.id))}
+                    className="flex items-center space-x-1 bg-gray-600 hover:bg-red-600 text-white text-sm px-3 py-1 rounded-lg transition-colors"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    <span>Discard all</span>
+                  </button>
+                </div>
+              </div>
+
+              {isExpanded && (
+                <div className="border-t border-gray-600 divide-y divide-gray-600">
+                  {items.slice(0, RECORDS_PER_GROUP).map(item => (
+                    <div key={item.id} className="px-4 py-3 text-sm">
+                      <div className="flex items-start justify-between mb-2">
+                        <div className="min-w-0">
+                          <ul className="text-red-300 space-y-1">
+                            {(editingId === item.id ? editIssues : item.issues).map((issue, index) => (
+                              <li key={index}>{issue.message}</li>
+                            ))}
+                          </ul>
+                          {item.source && <p className="text-xs text-gray-500 mt-1">from {item.source}</p>}
+                        </div>
+                        {editingId !== item.id && (
+                          <div className="flex items-center space-x-2 ml-4 shrink-0">
+                            <button
+                              onClick={() => startEditing(item)}
+                              className="text-gray-300 hover:text-white"
+                              title="Inspect and fix"
+                            >
+                              <Edit3 className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => onReadmit([{ id: item.id, record: item.record }])}
+                              disabled={!canReadmitAsIs(item.issues)}
+                              className="text-green-400 hover:text-green-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+                              title={canReadmitAsIs(item.issues)
+                                ? 'Re-admit as it is'
+                                : 'The timestamp or play time has to be fixed before this record can be re-admitted'}
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => onDiscard([item.id])}
+                              className="text-gray-300 hover:text-red-400"
+                              title="Discard"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </div>
+                        )}
+                      </div>
+
+                      {editingId === item.id ? (
+                        <div>
+                          <textarea
+                            value={editText}
+                            onChange={(e) => setEditText(e.target.value)}
+                            rows={12}
+                            spellCheck={false}
+                            className="w-full bg-gray-900 text-gray-200 font-mono text-xs p-3 rounded-lg border border-gray-600 focus:border-green-500 focus:outline-none"
+                          />
+                          {editError && <p className="text-red-300 mt-1">{editError}</p>}
+                          <div className="flex justify-end space-x-2 mt-2">
+                            <button
+                              onClick={cancelEditing}
+                              className="flex items-center space-x-1 bg-gray-600 hover:bg-gray-500 text-white px-3 py-1 rounded-lg transition-colors"
+                            >
+                              <X className="h-4 w-4" />
+                              <span>Cancel</span>
+                            </button>
+                            <button
+                              onClick={() => saveFix(item)}
+                              className="flex items-center space-x-1 bg-green-600 hover:bg-green-700 text-white px-3 py-1 rounded-lg transition-colors"
+                            >
+                              <Check className="h-4 w-4" />
+                              <span>Validate and re-admit</span>
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        <pre className="bg-gray-900 text-gray-400 text-xs p-3 rounded-lg overflow-x-auto max-h-32">
+                          {JSON.stringify(item.record, null, 2)}
+                        </pre>
+                      )}
+                    </div>
+                  ))}
+                  {items.length > RECORDS_PER_GROUP && (
+                    <p className="px-4 py-3 text-sm text-gray-400">
+                      Showing the first {RECORDS_PER_GROUP} of {items.length.toLocaleString()} records.
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default QuarantineReport;
@@ -0,0 +1,339 @@
+import React, { useState, useMemo } from 'react';
+import { Bar } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend
+} from 'chart.js';
+import { Clock, Layers, ListMusic, Trophy, ChevronDown, ChevronRight, SkipForward } from 'lucide-react';
+import {
+  StreamingEntry,
+  SessionStats,
+  PlayCountingPolicy,
+  DEFAULT_PLAY_COUNTING_POLICY,
+  TimezoneSettings,
+  LocalTime,
+  ListeningSession,
+  DEFAULT_SESSION_GAP_MINUTES,
+  SESSION_GAP_OPTIONS,
+  createPlayClassifier,
+  createLocalTimeResolver,
+  detectSessions,
+  correctOfflineTimestamps
+} from '../analytics';
+
+// Register ChartJS components
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface SessionsViewProps {
+  rawData: StreamingEntry[];
+  sessionStats?: SessionStats;
+  playCountingPolicy?: PlayCountingPolicy;
+  timezone?: TimezoneSettings;
+  gapMinutes?: number;
+  onGapChange?: (gapMinutes: number) => void;
+  correctOfflinePlays?: boolean;
+}
+
+// Sessions shown before "Show more"
+const PAGE_SIZE = 20;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatClock = (time: LocalTime) => `${pad(time.hour)}:${pad(time.minute)}`;
+
+const formatDuration = (minutes: number) => {
+  if (minutes < 60) {
+    return `${Math.round(minutes)}m`;
+  }
+  return `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}m`;
+};
+
+const getEntryTitle = (entry: StreamingEntry) => {
+  return entry.master_metadata_track_name || entry.episode_name || entry.audiobook_chapter_title || 'Unknown';
+};
+
+const getEntryCreator = (entry: StreamingEntry) => {
+  return entry.master_metadata_album_artist_name || entry.episode_show_name || entry.audiobook_title || '';
+};
+
+const chartOptions = {
+  responsive: true,
+  maintainAspectRatio: false,
+  plugins: {
+    legend: {
+      display: false,
+    },
+    tooltip: {
+      backgroundColor: 'rgba(0, 0, 0, 0.8)',
+      titleColor: '#fff',
+      bodyColor: '#fff',
+    },
+  },
+  scales: {
+    y: {
+      beginAtZero: true,
+      grid: {
+        color: 'rgba(255, 255, 255, 0.1)',
+      },
+      ticks: {
+        color: 'rgba(255, 255, 255, 0.7)',
+      },
+    },
+    x: {
+      grid: {
+        display: false,
+      },
+      ticks: {
+        color: 'rgba(255, 255, 255, 0.7)',
+      },
+    },
+  },
+};
+
+const SessionsView: React.FC<SessionsViewProps> = ({
+  rawData,
+  sessionStats,
+  playCountingPolicy = DEFAULT_PLAY_COUNTING_POLICY,
+  timezone,
+  gapMinutes = DEFAULT_SESSION_GAP_MINUTES,
+  onGapChange,
+  correctOfflinePlays = true
+}) => {
+  const [selectedDate, setSelectedDate] = useState('');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { sessions, isPlay, localTime } = useMemo(() => {
+    const isPlay = createPlayClassifier(rawData, playCountingPolicy);
+    const localTime = createLocalTimeResolver(timezone);
+    const entries = correctOfflineTimestamps(rawData, correctOfflinePlays).entries;
+    return {
+      sessions: detectSessions(entries, { gapMinutes, isPlay, localTime }),
+      isPlay,
+      localTime
+    };
+  }, [rawData, playCountingPolicy, timezone, gapMinutes, correctOfflinePlays]);
+
+  // Newest first; a date shows every session that started on it
+  const listedSessions = useMemo(() => {
+    const matching = selectedDate
+      ? sessions.filter(session => session.startLocal.date === selectedDate)
+      : sessions;
+    return [...matching].reverse();
+  }, [sessions, selectedDate]);
+
+  if (rawData.length === 0) {
+    return (
+      <div>
+        <h2 className="text-2xl font-bold mb-6">Listening Sessions</h2>
+        <p className="text-gray-400">Upload your streaming history to see your listening sessions.</p>
+      </div>
+    );
+  }
+
+  const lengthDistribution = sessionStats?.length_distribution || {};
+  const lengthChartData = {
+    labels: Object.keys(lengthDistribution),
+    datasets: [
+      {
+        label: 'Sessions',
+        data: Object.values(lengthDistribution),
+        backgroundColor: 'rgba(255, 206, 86, 0.6)',
+        borderColor: 'rgba(255, 206, 86, 1)',
+        borderWidth: 1,
+      },
+    ],
+  };
+
+  const sessionsByHour = sessionStats?.sessions_by_hour || {};
+  const hourChartData = {
+    labels: Array.from({ length: 24 }, (_, hour) => `${hour}:00`),
+    datasets: [
+      {
+        label: 'Sessions started',
+        data: Array.from({ length: 24 }, (_, hour) => sessionsByHour[hour] || 0),
+        backgroundColor: 'rgba(75, 192, 192, 0.6)',
+        borderColor: 'rgba(75, 192, 192, 1)',
+        borderWidth: 1,
+      },
+    ],
+  };
+
+  const longest = sessionStats?.longest_session;
+  const summaryCards = [
+    {
+      title: 'Sessions',
+      value: (sessionStats?.total_sessions ?? sessions.length).toLocaleString(),
+      detail: `Separated by pauses over ${gapMinutes} minutes`,
+      icon: <Layers className="h-6 w-6 text-yellow-400" />
+    },
+    {
+      title: 'Session Length',
+      value: formatDuration(sessionStats?.average_session_minutes ?? 0),
+      detail: `Median ${formatDuration(sessionStats?.median_session_minutes ?? 0)}`,
+      icon: <Clock className="h-6 w-6 text-purple-400" />
+    },
+    {
+      title: 'Tracks per Session',
+      value: (sessionStats?.average_tracks_per_session ?? 0).toFixed(1),
+      detail: 'Average plays per session',
+      icon: <ListMusic className="h-6 w-6 text-blue-400" />
+    },
+    {
+      title: 'Longest Session',
+      value: longest ? formatDuration(longest.minutes) : '-',
+      detail: longest ? `${localTime(longest.start).date}, ${longest.tracks.toLocaleString()} plays` : 'No sessions yet',
+      icon: <Trophy className="h-6 w-6 text-green-400" />
+    }
+  ];
+
+  const renderSession = (session: ListeningSession) => {
+    const isExpanded = expandedId === session.id;
+    return (
+      <li key={session.id} className="bg-gray-800 rounded-lg">
+        <button
+          onClick={() => setExpandedId(isExpanded ? null : session.id)}
+          className="w-full flex items-center justify-between px-4 py-3 text-left hover:bg-gray-600 rounded-lg transition-colors"
+        >
+          <div className="flex items-center">
+            {isExpanded ? <ChevronDown className="h-4 w-4 mr-2 text-gray-400" /> : <ChevronRight className="h-4 w-4 mr-2 text-gray-400" />}
+            <span className="font-medium">{session.startLocal.date}</span>
+            <span className="text-gray-300 ml-3">
+              {formatClock(session.startLocal)} - {formatClock(session.endLocal)}
+            </span>
+          </div>
+          <div className="text-sm text-gray-400 space-x-4">
+            <span>{formatDuration(session.durationMinutes)}</span>
+            <span>{session.plays.toLocaleString()} plays</span>
+          </div>
+        </button>
+
+        {isExpanded && (
+          <ol className="px-4 pb-3 space-y-1 text-sm">
+            {session.entries.map((entry, index) => (
+              <li key={`${entry.ts}-${index}`} className="flex items-center justify-between border-t border-gray-700 pt-1">
+                <div className="flex items-center min-w-0">
+                  <span className="text-gray-500 w-12 flex-shrink-0">{formatClock(localTime(entry.ts))}</span>
+                  <span className={`truncate ${isPlay(entry) ? 'text-white' : 'text-gray-500'}`}>{getEntryTitle(entry)}</span>
+                  <span className="text-gray-400 ml-2 truncate">{getEntryCreator(entry)}</span>
+                </div>
+                <div className="flex items-center text-gray-400 flex-shrink-0 ml-4">
+                  {entry.skipped && <SkipForward className="h-3 w-3 mr-1" aria-label="Skipped" />}
+                  <span>{formatDuration((entry.ms_played || 0) / (1000 * 60))}</span>
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h2 className="text-2xl font-bold">Listening Sessions</h2>
+        {onGapChange && (
+          <label className="flex items-center space-x-2 text-sm text-gray-300">
+            <span>New session after a pause of</span>
+            <select
+              value={gapMinutes}
+              onChange={(e) => onGapChange(Number(e.target.value))}
+              className="bg-gray-700 border border-gray-600 rounded px-2 py-1"
+            >
+              {SESSION_GAP_OPTIONS.map(option => (
+                <option key={option} value={option}>{option} minutes</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+        {summaryCards.map(card => (
+          <div key={card.title} className="bg-gray-700 rounded-lg p-6 shadow-lg">
+            <div className="flex items-center mb-2">
+              {card.icon}
+              <h3 className="font-bold ml-3">{card.title}</h3>
+            </div>
+            <p className="text-2xl font-bold">{card.value}</p>
+            <p className="text-sm text-gray-400">{card.detail}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+        <div className="bg-gray-700 rounded-lg p-6 shadow-lg">
+          <h3 className="text-xl font-bold mb-4">Session Length</h3>
+          <div className="h-64">
+            <Bar data={lengthChartData} options={chartOptions} />
+          </div>
+        </div>
+        <div className="bg-gray-700 rounded-lg p-6 shadow-lg">
+          <h3 className="text-xl font-bold mb-4">Sessions by Time of Day</h3>
+          <div className="h-64">
+            <Bar data={hourChartData} options={chartOptions} />
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-gray-700 rounded-lg p-6 shadow-lg">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <h3 className="text-xl font-bold">
+            {selectedDate ? `Sessions on ${selectedDate}` : 'Recent Sessions'}
+          </h3>
+          <div className="flex items-center space-x-2 text-sm">
+            <input
+              type="date"
+              value={selectedDate}
+              onChange={(e) => {
+                setSelectedDate(e.target.value);
+                setVisibleCount(PAGE_SIZE);
+              }}
+              className="bg-gray-800 border border-gray-600 rounded px-2 py-1"
+            />
+            {selectedDate && (
+              <button
+                onClick={() => setSelectedDate('')}
+                className="text-gray-400 hover:text-white transition-colors"
+              >
+                Show all
+              </button>
+            )}
+          </div>
+        </div>
+
+        {listedSessions.length === 0 ? (
+          <p className="text-gray-400">No sessions started on this day.</p>
+        ) : (
+          <ul className="space-y-2">
+            {listedSessions.slice(0, visibleCount).map(renderSession)}
+          </ul>
+        )}
+
+        {listedSessions.length > visibleCount && (
+          <button
+            onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+            className="mt-4 bg-gray-600 hover:bg-gray-500 text-white px-4 py-2 rounded-lg transition-colors"
+          >
+            Show more ({(listedSessions.length - visibleCount).toLocaleString()} left)
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionsView;
@@ -1,5 +1,6 @@
 import React from 'react';
-import { Clock, Music, User, Disc, Calendar } from 'lucide-react';
+import { Clock, Music, User, Disc, Calendar, Flame, Trophy, Star, PlayCircle } from 'lucide-react';
+import { StreakStats, Streak, Milestone, MilestoneKind } from '../analytics';
 
 interface StatsOverviewProps {
   data: {
@@ -17,13 +18,31 @@ interface StatsOverviewProps {
       average_tracks_per_session: number;
       total_sessions: number;
     };
+    streaks?: StreakStats;
+    milestones?: Milestone[];
   };
 }
 
+// Entity streaks listed per column
+const STREAKS_SHOWN = 5;
+
+const MILESTONE_ICONS: Record<MilestoneKind, React.ReactNode> = {
+  first_play: <PlayCircle className="h-4 w-4 text-green-400" />,
+  plays: <Music className="h-4 w-4 text-blue-400" />,
+  hours: <Clock className="h-4 w-4 text-purple-400" />,
+  artist: <Star className="h-4 w-4 text-yellow-400" />
+};
+
+const formatStreakRange = (streak: Streak) => {
+  return streak.start === streak.end ? streak.start : `${streak.start} to ${streak.end}`;
+};
+
 const StatsOverview: React.FC<StatsOverviewProps> = ({ data }) => {
   // Handle data structure compatibility - support both direct stats and nested stats
   const total_stats = data?.total_stats;
   const session_stats = data?.session_stats;
+  const streaks = data?.streaks;
+  const milestones = data?.milestones || [];
   
   // If no data available, show loading or empty state
   if (!total_stats || !session_stats) {
@@ -103,6 +122,77 @@ const StatsOverview: React.FC<StatsOverviewProps> = ({ data }) => {
           </div>
         ))}
       </div>
+
+      {streaks && (
+        <div className="mt-8 bg-gray-700 rounded-lg p-6">
+          <div className="flex items-center mb-4">
+            <Flame className="h-6 w-6 text-orange-400 mr-3" />
+            <h3 className="text-xl font-bold">Listening Streaks</h3>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+            <div className="bg-gray-800 rounded-lg p-4">
+              <p className="text-gray-400 text-sm">Longest streak</p>
+              <p className="text-3xl font-bold">{(streaks.longest?.days || 0).toLocaleString()} days</p>
+              {streaks.longest && <p className="text-gray-400 text-sm">{formatStreakRange(streaks.longest)}</p>}
+            </div>
+            <div className="bg-gray-800 rounded-lg p-4">
+              <p className="text-gray-400 text-sm">Current streak</p>
+              <p className="text-3xl font-bold">{(streaks.current?.days || 0).toLocaleString()} days</p>
+              {streaks.current && <p className="text-gray-400 text-sm">Up to {streaks.current.end}, the last day of your history</p>}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {[
+              { title: 'Artist streaks', items: streaks.top_artist_streaks },
+              { title: 'Track streaks', items: streaks.top_track_streaks }
+            ].map(column => (
+              <div key={column.title}>
+                <h4 className="font-semibold mb-2">{column.title}</h4>
+                {column.items.length === 0 ? (
+                  <p className="text-gray-400 text-sm">No streaks of two days or more yet.</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {column.items.slice(0, STREAKS_SHOWN).map(streak => (
+                      <li key={streak.id} className="flex justify-between items-center bg-gray-800 rounded-lg px-4 py-2">
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">{streak.name}</p>
+                          <p className="text-gray-400 text-xs truncate">
+                            {streak.artist ? `${streak.artist} · ` : ''}{formatStreakRange(streak)}
+                          </p>
+                        </div>
+                        <span className="text-orange-400 font-bold ml-4 flex-shrink-0">{streak.days} days</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {milestones.length > 0 && (
+        <div className="mt-8 bg-gray-700 rounded-lg p-6">
+          <div className="flex items-center mb-4">
+            <Trophy className="h-6 w-6 text-yellow-400 mr-3" />
+            <h3 className="text-xl font-bold">Milestones</h3>
+          </div>
+          <ol className="relative border-l border-gray-600 ml-2">
+            {milestones.map((milestone, index) => (
+              <li key={`${milestone.kind}-${milestone.ts}-${index}`} className="mb-4 ml-6">
+                <span className="absolute -left-3 flex items-center justify-center w-6 h-6 bg-gray-800 rounded-full">
+                  {MILESTONE_ICONS[milestone.kind]}
+                </span>
+                <p className="text-xs text-gray-400">{milestone.date}</p>
+                <p className="font-medium">{milestone.title}</p>
+                {milestone.detail && <p className="text-sm text-gray-400">{milestone.detail}</p>}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
       
       <div className="mt-8 bg-gray-700 rounded-lg p-6">
         <h3 className="text-xl font-bold mb-4">What These Numbers Mean</h3>
@@ -1,43 +1,54 @@
 import React, { useMemo } from 'react';
 import { Calendar, Clock, TrendingUp, Activity } from 'lucide-react';
-
-interface StreamingEntry {
-  ts: string;
-  ms_played: number;
-  master_metadata_track_name: string;
-  master_metadata_album_artist_name: string;
-}
+import {
+  StreamingEntry,
+  TimezoneSettings,
+  PlayCountingPolicy,
+  DEFAULT_PLAY_COUNTING_POLICY,
+  EntityAliases,
+  createPlayClassifier,
+  createLocalTimeResolver,
+  correctOfflineTimestamps,
+  groupListeningDays
+} from '../analytics';
+import CalendarHeatmap from './CalendarHeatmap';
 
 interface TimelineStatsProps {
   data: StreamingEntry[];
+  timezone?: TimezoneSettings;
+  playCountingPolicy?: PlayCountingPolicy;
+  aliases?: EntityAliases;
+  correctOfflinePlays?: boolean;
 }
 
-const TimelineStats: React.FC<TimelineStatsProps> = ({ data }) => {
-  const timelineData = useMemo(() => {
-    // Group data by date
-    const dateGroups: Record<string, StreamingEntry[]> = {};
-    
-    data.forEach(track => {
-      const date = new Date(track.ts).toISOString().split('T')[0];
-      if (!dateGroups[date]) {
-        dateGroups[date] = [];
-      }
-      dateGroups[date].push(track);
-    });
+const TimelineStats: React.FC<TimelineStatsProps> = ({
+  data,
+  timezone,
+  playCountingPolicy = DEFAULT_PLAY_COUNTING_POLICY,
+  aliases,
+  correctOfflinePlays = true
+}) => {
+  // Every daily figure uses the corrected play times and the profile's play-counting policy
+  const { days, isPlay, localTime } = useMemo(() => {
+    const entries = correctOfflineTimestamps(data, correctOfflinePlays).entries;
+    const localTime = createLocalTimeResolver(timezone);
+    return {
+      days: groupListeningDays(entries, { policy: playCountingPolicy, aliases, localTime }),
+      isPlay: createPlayClassifier(entries, playCountingPolicy),
+      localTime
+    };
+  }, [data, playCountingPolicy, aliases, timezone, correctOfflinePlays]);
 
-    // Calculate daily stats
-    const dailyStats = Object.entries(dateGroups)
-      .map(([date, tracks]) => ({
-        date,
-        tracks: tracks.length,
-        totalMinutes: tracks.reduce((sum, track) => sum + (track.ms_played || 0), 0) / (1000 * 60),
-        uniqueArtists: new Set(tracks.map(t => t.master_metadata_album_artist_name).filter(Boolean)).size,
-        uniqueTracks: new Set(tracks.map(t => t.master_metadata_track_name).filter(Boolean)).size
+  const timelineData = useMemo(() => {
+    return Array.from(days.values())
+      .map(day => ({
+        date: day.date,
+        tracks: day.plays,
+        totalMinutes: day.minutes,
+        uniqueArtists: day.uniqueArtists
       }))
       .sort((a, b) => a.date.localeCompare(b.date));
-
-    return dailyStats;
-  }, [data]);
+  }, [days]);
 
   const monthlyData = useMemo(() => {
     const monthGroups: Record<string, {
@@ -152,6 +163,9 @@ const TimelineStats: React.FC<TimelineStatsProps> = ({ data }) => {
         </div>
       </div>
 
+      {/* Calendar Heatmap */}
+      <CalendarHeatmap days={days} isPlay={isPlay} localTime={localTime} />
+
       {/* Recent Activity */}
       <div className="bg-gray-700 p-6 rounded-lg shadow-md">
         <h3 className="text-xl font-semibold mb-4 flex items-center">
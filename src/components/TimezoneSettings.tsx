@@ -0,0 +1,180 @@
+import React, { useState, useMemo } from 'react';
+import { Globe, Plus, Trash2, RotateCcw, Check } from 'lucide-react';
+import {
+  TimezoneSettings as TimezoneSettingsValue,
+  createTimezoneOverride,
+  getSupportedTimeZones,
+  getSystemTimeZone,
+  isValidTimeZone
+} from '../analytics';
+
+interface TimezoneSettingsProps {
+  settings: TimezoneSettingsValue;
+  onApply: (settings: TimezoneSettingsValue) => void;
+}
+
+const TIMEZONE_LIST_ID = 'timezone-options';
+
+const TimezoneSettings: React.FC<TimezoneSettingsProps> = ({ settings, onApply }) => {
+  const [draft, setDraft] = useState<TimezoneSettingsValue>(settings);
+  const [newOverride, setNewOverride] = useState({ start: '', end: '', timeZone: '', label: '' });
+
+  const timeZones = useMemo(() => getSupportedTimeZones(), []);
+  const hasChanges = JSON.stringify(draft) !== JSON.stringify(settings);
+
+  const invalidZones = [draft.timeZone, ...draft.overrides.map(override => override.timeZone)]
+    .filter(timeZone => !isValidTimeZone(timeZone));
+  const canAddOverride = newOverride.start !== ''
+    && newOverride.end !== ''
+    && newOverride.start <= newOverride.end
+    && isValidTimeZone(newOverride.timeZone);
+
+  const addOverride = () => {
+    if (!canAddOverride) return;
+    const override = createTimezoneOverride(
+      newOverride.start,
+      newOverride.end,
+      newOverride.timeZone,
+      newOverride.label.trim() || undefined
+    );
+    setDraft(previous => ({ ...previous, overrides: [...previous.overrides, override] }));
+    setNewOverride({ start: '', end: '', timeZone: '', label: '' });
+  };
+
+  const removeOverride = (id: string) => {
+    setDraft(previous => ({ ...previous, overrides: previous.overrides.filter(override => override.id !== id) }));
+  };
+
+  return (
+    <div className="bg-gray-700 rounded-lg p-6">
+      <div className="flex items-center mb-2">
+        <Globe className="h-6 w-6 text-green-400 mr-3" />
+        <h3 className="text-xl font-bold">Timezone</h3>
+      </div>
+      <p className="text-gray-400 text-sm mb-6">
+        Spotify records every play in UTC. Hours, weekdays and dates are shown in the timezone you were in at the time:
+        your home timezone, or an override for periods spent elsewhere.
+      </p>
+
+      <datalist id={TIMEZONE_LIST_ID}>
+        {timeZones.map(timeZone => <option key={timeZone} value={timeZone} />)}
+      </datalist>
+
+      <div className="space-y-6">
+        <div>
+          <label className="block font-medium mb-1">Home timezone</label>
+          <input
+            type="text"
+            list={TIMEZONE_LIST_ID}
+            value={draft.timeZone}
+            onChange={(e) => setDraft({ ...draft, timeZone: e.target.value })}
+            className={`w-full sm:w-80 bg-gray-800 border rounded px-3 py-2 ${
+              isValidTimeZone(draft.timeZone) ? 'border-gray-600' : 'border-red-500'
+            }`}
+          />
+          <p className="text-xs text-gray-400 mt-1">This computer is set to {getSystemTimeZone()}.</p>
+        </div>
+
+        <div>
+          <p className="font-medium mb-2">Periods in another timezone</p>
+          {draft.overrides.length === 0 ? (
+            <p className="text-sm text-gray-400 mb-3">No overrides. Every play uses the home timezone.</p>
+          ) : (
+            <div className="bg-gray-800 rounded-lg overflow-hidden text-sm mb-3">
+              {draft.overrides.map(override => (
+                <div key={override.id} className="flex items-center justify-between py-2 px-4 border-b border-gray-700 last:border-b-0">
+                  <div>
+                    <span className="font-medium">{override.start} – {override.end}</span>
+                    <span className="text-gray-300 ml-3">{override.timeZone}</span>
+                    {override.label && <span className="text-gray-400 ml-3">{override.label}</span>}
+                  </div>
+                  <button
+                    onClick={() => removeOverride(override.id)}
+                    className="text-gray-400 hover:text-red-400 transition-colors"
+                    title="Remove override"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-end gap-2">
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">From</label>
+              <input
+                type="date"
+                value={newOverride.start}
+                onChange={(e) => setNewOverride({ ...newOverride, start: e.target.value })}
+                className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">To</label>
+              <input
+                type="date"
+                value={newOverride.end}
+                onChange={(e) => setNewOverride({ ...newOverride, end: e.target.value })}
+                className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Timezone</label>
+              <input
+                type="text"
+                list={TIMEZONE_LIST_ID}
+                value={newOverride.timeZone}
+                onChange={(e) => setNewOverride({ ...newOverride, timeZone: e.target.value })}
+                placeholder="Europe/Lisbon"
+                className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Label</label>
+              <input
+                type="text"
+                value={newOverride.label}
+                onChange={(e) => setNewOverride({ ...newOverride, label: e.target.value })}
+                placeholder="Optional"
+                className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm"
+              />
+            </div>
+            <button
+              onClick={addOverride}
+              disabled={!canAddOverride}
+              className="flex items-center space-x-1 bg-gray-600 hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed text-white px-3 py-1 rounded-lg text-sm transition-colors"
+            >
+              <Plus className="h-4 w-4" />
+              <span>Add</span>
+            </button>
+          </div>
+        </div>
+
+        {invalidZones.length > 0 && (
+          <p className="text-sm text-red-400">Unknown timezone: {invalidZones.join(', ')}</p>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <button
+            onClick={() => setDraft({ ...draft, timeZone: getSystemTimeZone() })}
+            className="flex items-center space-x-1 bg-gray-600 hover:bg-gray-500 text-white px-4 py-2 rounded-lg transition-colors"
+          >
+            <RotateCcw className="h-4 w-4" />
+            <span>Use this computer's timezone</span>
+          </button>
+          <button
+            onClick={() => onApply(draft)}
+            disabled={!hasChanges || invalidZones.length > 0}
+            className="flex items-center space-x-1 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-colors"
+          >
+            <Check className="h-4 w-4" />
+            <span>Apply</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TimezoneSettings;
@@ -0,0 +1,237 @@
+import React from 'react';
+import { Plane, Home, Globe, MapPin, Clock } from 'lucide-react';
+import { Bar } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend
+} from 'chart.js';
+import {
+  TravelStats,
+  Trip,
+  TimezoneSettings,
+  COUNTRY_TIME_ZONES,
+  MIN_TRIP_PLAYS,
+  createTimezoneOverride,
+  getCountryName
+} from '../analytics';
+
+// Register ChartJS components
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface TravelViewProps {
+  travel?: TravelStats;
+  timezone?: TimezoneSettings;
+  onTimezoneChange?: (settings: TimezoneSettings) => void;
+}
+
+const COUNTRY_COLORS = [
+  '34, 197, 94',
+  '59, 130, 246',
+  '234, 179, 8',
+  '236, 72, 153',
+  '153, 102, 255',
+  '255, 159, 64',
+  '156, 163, 175'
+];
+
+const chartOptions = {
+  responsive: true,
+  maintainAspectRatio: false,
+  plugins: {
+    legend: {
+      position: 'top' as const,
+      labels: {
+        color: 'rgba(255, 255, 255, 0.7)',
+      },
+    },
+    tooltip: {
+      backgroundColor: 'rgba(0, 0, 0, 0.8)',
+      titleColor: '#fff',
+      bodyColor: '#fff',
+    },
+  },
+  scales: {
+    y: {
+      stacked: true,
+      beginAtZero: true,
+      grid: {
+        color: 'rgba(255, 255, 255, 0.1)',
+      },
+      ticks: {
+        color: 'rgba(255, 255, 255, 0.7)',
+      },
+    },
+    x: {
+      stacked: true,
+      grid: {
+        display: false,
+      },
+      ticks: {
+        color: 'rgba(255, 255, 255, 0.7)',
+      },
+    },
+  },
+};
+
+const TravelView: React.FC<TravelViewProps> = ({ travel, timezone, onTimezoneChange }) => {
+  if (!travel || travel.countries.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <Globe className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+        <p className="text-gray-400">No connection countries found in this data.</p>
+        <p className="text-gray-500 text-sm mt-2">
+          Countries are part of the extended streaming history, not the account data export.
+        </p>
+      </div>
+    );
+  }
+
+  const home = travel.countries.find(country => country.country === travel.home_country);
+  const homeZone = timezone?.timeZone;
+
+  const hasOverride = (trip: Trip) => !!timezone?.overrides.some(override => override.start === trip.start && override.end === trip.end);
+
+  const applyTripTimezone = (trip: Trip) => {
+    const zone = COUNTRY_TIME_ZONES[trip.country];
+    if (!timezone || !onTimezoneChange || !zone) return;
+    onTimezoneChange({
+      ...timezone,
+      overrides: [...timezone.overrides, createTimezoneOverride(trip.start, trip.end, zone, `Trip to ${trip.name}`)]
+    });
+  };
+
+  const chartData = {
+    labels: travel.monthly.months,
+    datasets: Object.entries(travel.monthly.hours).map(([country, hours], index) => ({
+      label: country === 'other' ? 'Other' : getCountryName(country),
+      data: hours,
+      backgroundColor: `rgba(${COUNTRY_COLORS[index % COUNTRY_COLORS.length]}, 0.7)`,
+    })),
+  };
+
+  return (
+    <div>
+      <h2 className="text-2xl font-bold mb-6">Your Listening Travels</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <div className="bg-gray-700 rounded-lg p-6 shadow-lg">
+          <div className="flex items-center mb-2">
+            <Home className="h-6 w-6 text-green-400 mr-3" />
+            <h3 className="font-bold">Home</h3>
+          </div>
+          <p className="text-2xl font-bold">{home ? home.name : '-'}</p>
+          <p className="text-sm text-gray-400">{home ? `${home.hours.toLocaleString()} hours of listening` : ''}</p>
+        </div>
+        <div className="bg-gray-700 rounded-lg p-6 shadow-lg">
+          <div className="flex items-center mb-2">
+            <Globe className="h-6 w-6 text-blue-400 mr-3" />
+            <h3 className="font-bold">Countries</h3>
+          </div>
+          <p className="text-2xl font-bold">{travel.countries.length}</p>
+          <p className="text-sm text-gray-400">Listened from</p>
+        </div>
+        <div className="bg-gray-700 rounded-lg p-6 shadow-lg">
+          <div className="flex items-center mb-2">
+            <Plane className="h-6 w-6 text-yellow-400 mr-3" />
+            <h3 className="font-bold">Trips</h3>
+          </div>
+          <p className="text-2xl font-bold">{travel.trips.length}</p>
+          <p className="text-sm text-gray-400">Runs of at least {MIN_TRIP_PLAYS} plays away from home</p>
+        </div>
+      </div>
+
+      {travel.monthly.months.length > 1 && (
+        <div className="bg-gray-700 rounded-lg p-6 shadow-lg mb-8">
+          <h3 className="text-xl font-bold mb-4">Hours by Country</h3>
+          <div className="h-80">
+            <Bar data={chartData} options={chartOptions} />
+          </div>
+        </div>
+      )}
+
+      {travel.trips.length > 0 && (
+        <div className="bg-gray-700 rounded-lg p-6 shadow-lg mb-8">
+          <h3 className="text-xl font-bold mb-2">Trips</h3>
+          {onTimezoneChange && (
+            <p className="text-gray-400 text-sm mb-4">
+              Use a trip's timezone to count its hours and days in local time. You can adjust it in Settings.
+            </p>
+          )}
+          <ul className="divide-y divide-gray-600">
+            {[...travel.trips].reverse().map(trip => {
+              const zone = COUNTRY_TIME_ZONES[trip.country];
+              return (
+                <li key={`${trip.country}-${trip.start}`} className="py-3 flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center">
+                    <MapPin className="h-5 w-5 text-pink-400 mr-3" />
+                    <div>
+                      <p className="font-medium">{trip.name}</p>
+                      <p className="text-sm text-gray-400">
+                        {trip.start === trip.end ? trip.start : `${trip.start} to ${trip.end}`} · {trip.days} {trip.days === 1 ? 'day' : 'days'} · {trip.plays} plays · {trip.hours} hours
+                      </p>
+                    </div>
+                  </div>
+                  {onTimezoneChange && zone && zone !== homeZone && (
+                    hasOverride(trip) ? (
+                      <span className="text-sm text-gray-400 flex items-center">
+                        <Clock className="h-4 w-4 mr-1" />
+                        Timezone set
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => applyTripTimezone(trip)}
+                        className="px-3 py-1 text-sm rounded-md bg-gray-600 hover:bg-gray-500"
+                      >
+                        Use {zone}
+                      </button>
+                    )
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-gray-700 rounded-lg p-6 shadow-lg">
+        <h3 className="text-xl font-bold mb-4">Top Artists by Country</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {travel.countries.map(country => (
+            <div key={country.country} className="bg-gray-800 rounded-lg p-4">
+              <div className="flex justify-between items-baseline mb-2">
+                <h4 className="font-bold">{country.name}</h4>
+                <span className="text-sm text-gray-400">{country.hours.toLocaleString()} hours · {country.active_days} days</span>
+              </div>
+              {country.top_artists.length === 0 ? (
+                <p className="text-sm text-gray-500">No music played here.</p>
+              ) : (
+                <ol className="text-sm space-y-1">
+                  {country.top_artists.map((artist, index) => (
+                    <li key={artist.id} className="flex justify-between">
+                      <span className="truncate">{index + 1}. {artist.name}</span>
+                      <span className="text-gray-400 ml-2">{artist.plays} plays</span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TravelView;
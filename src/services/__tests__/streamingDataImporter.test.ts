@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from 'vitest';
+import { detectStreamingDataFormat, normalizeStreamingData } from '../../analytics';
+import { importStreamingFiles } from '../streamingDataImporter';
+import { EXTENDED_HISTORY, createEntry } from '../../analytics/__fixtures__';
+
+// Files in these tests describe what the parser reports: the batches it sends, then an error if it fails
+interface FakeSource {
+  batches: unknown[][];
+  error?: string;
+}
+
+vi.mock('../streamingParserClient', async importOriginal => ({
+  ...(await importOriginal<typeof import('../streamingParserClient')>()),
+  parseStreamingHistoryInWorker: async (source: Blob, { onBatch }: { onBatch: (entries: never[], format: string) => void }) => {
+    const { batches, error }: FakeSource = JSON.parse(await source.text());
+    for (const batch of batches) {
+      onBatch(normalizeStreamingData(batch) as never[], detectStreamingDataFormat(batch));
+    }
+    if (error) throw new Error(error);
+    return { records: batches.flat().length, format: detectStreamingDataFormat(batches.flat()) };
+  }
+}));
+
+const createFile = (name: string, source: FakeSource) => new File([JSON.stringify(source)], name, { type: 'application/json' });
+
+describe('importStreamingFiles', () => {
+  it('keeps nothing from a file that fails partway through', async () => {
+    const synced = createEntry({ ts: '2024-03-04T11:57:00Z', platform: 'api_sync', ms_played: 200000 });
+    const failing = createFile('Streaming_History_Audio_2024.json', {
+      batches: [[createEntry({ ts: '2024-03-04T12:00:00Z', ms_played: 195000 }), { ts: 'not a date' }]],
+      error: 'Unexpected end of JSON input'
+    });
+    const complete = createFile('Streaming_History_Audio_2023.json', { batches: [EXTENDED_HISTORY] });
+
+    const result = await importStreamingFiles([failing, complete], [synced]);
+
+    expect(result.progress.map(item => item.status)).toEqual(['error', 'done']);
+    expect(result.data).toHaveLength(EXTENDED_HISTORY.length + 1);
+    expect(result.data).toContainEqual(synced);
+    expect(result.quarantine).toEqual([]);
+    expect(result.mergeReport.replaced).toEqual([]);
+  });
+
+  it('only records batches for files that imported, and tags their rows with them', async () => {
+    const failing = createFile('broken.json', { batches: [[createEntry({ ts: '2024-03-04T12:00:00Z' }), null]], error: 'Worker crashed' });
+    const complete = createFile('Streaming_History_Audio_2023.json', { batches: [EXTENDED_HISTORY] });
+
+    const { data, batches, quarantine } = await importStreamingFiles([failing, complete], []);
+
+    expect(batches).toMatchObject([{ name: 'Streaming_History_Audio_2023.json', entriesAdded: EXTENDED_HISTORY.length }]);
+    expect(data.every(entry => entry.import_batch_ids?.join() === batches[0].id)).toBe(true);
+    expect(quarantine).toEqual([]);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Keep track of where each streaming history entry came from
+ * Every upload or API sync is recorded as an import batch, and entries reference every
+ * batch that contained them so a single import can be undone later.
+ */
+export type ImportSourceType = 'file' | 'archive' | 'api_sync';
+
+export interface ImportBatch {
+  id: string;
+  // File name of the upload, or a label for API syncs
+  name: string;
+  // Fingerprint of the uploaded file (not set for API syncs)
+  hash?: string;
+  importedAt: string;
+  sourceType: ImportSourceType;
+  entriesAdded: number;
+}
+
+// Large exports are fingerprinted from their edges instead of being read a second time
+const HASH_SAMPLE_BYTES = 1024 * 1024;
+
+let batchCounter = 0;
+
+/**
+ * Create a new, still empty import batch
+ */
+export const createImportBatch = (name: string, sourceType: ImportSourceType, hash?: string): ImportBatch => {
+  batchCounter++;
+  return {
+    id: `batch-${Date.now().toString(36)}-${batchCounter}`,
+    name,
+    hash,
+    importedAt: new Date().toISOString(),
+    sourceType,
+    entriesAdded: 0
+  };
+};
+
+/**
+ * Fingerprint a file with SHA-256 over its size and its first and last megabyte
+ * @returns The hex digest
+ */
+export const computeFileHash = async (file: Blob): Promise<string> => {
+  const parts: BlobPart[] = [String(file.size), file.slice(0, HASH_SAMPLE_BYTES)];
+  if (file.size > HASH_SAMPLE_BYTES) {
+    parts.push(file.slice(Math.max(HASH_SAMPLE_BYTES, file.size - HASH_SAMPLE_BYTES)));
+  }
+
+  const buffer = await new Blob(parts).arrayBuffer();
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * Find an earlier import of the same file
+ */
+export const findBatchByHash = (batches: ImportBatch[], hash: string): ImportBatch | undefined => {
+  return batches.find(batch => batch.hash === hash);
+};
@@ -1,3 +1,7 @@
+import { QuarantinedRecord } from './streamingDataValidator';
+import { ImportBatch } from './importBatchService';
+import { PlayCountingPolicy, EntityAliases, TimezoneSettings, DateRange, StreamingEntry, getImportBatchIds } from '../analytics';
+
 // Robust UUID generator using crypto API (with fallback)
 const generateId = (): string => {
   // Use crypto.randomUUID if available (modern browsers)
@@ -15,9 +19,11 @@ const generateId = (): string => {
 
 // Database configuration
 const DB_NAME = 'SpotifyTimelineDB';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 const PROFILES_STORE = 'profiles';
 const PROFILE_DATA_STORE = 'profileData';
+// Import batch logs, kept apart from the streaming data so listing them stays cheap
+const IMPORT_BATCHES_STORE = 'importBatches';
 
 // Interfaces
 export interface ProfileSummary {
@@ -45,8 +51,29 @@ export interface ProfileData {
     refreshToken?: string;
     tokenExpiry?: string;
   };
+  // Imported records that failed schema validation
+  quarantine?: QuarantinedRecord[];
+  // Log of the uploads and API syncs that added data, oldest first
+  importBatches?: ImportBatch[];
+  // Which rows count as a play; the default policy applies when unset
+  playCountingPolicy?: PlayCountingPolicy;
+  // Artist, track and album merges and splits on top of the built-in name rules
+  entityAliases?: EntityAliases;
+  // Home timezone and dated overrides; the system timezone applies when unset
+  timezoneSettings?: TimezoneSettings;
+  // Longest pause within one listening session; the default applies when unset
+  sessionGapMinutes?: number;
+  // Whether offline plays are moved to their device play time; on when unset
+  correctOfflinePlays?: boolean;
+  // Date range every dashboard tab is limited to; all time when unset
+  dateRange?: DateRange;
 }
 
+// Fields kept in the profile data store next to the streaming data
+type StoredProfileData = Pick<ProfileData, 'streamingData' | 'quarantine' | 'playCountingPolicy' | 'entityAliases' | 'timezoneSettings' | 'sessionGapMinutes' | 'correctOfflinePlays' | 'dateRange'>;
+
+const STORED_DATA_FIELDS: (keyof StoredProfileData)[] = ['streamingData', 'quarantine', 'playCountingPolicy', 'entityAliases', 'timezoneSettings', 'sessionGapMinutes', 'correctOfflinePlays', 'dateRange'];
+
 // IndexedDB wrapper class
 class IndexedDBManager {
   private db: IDBDatabase | null = null;
@@ -75,6 +102,25 @@ class IndexedDBManager {
         if (!db.objectStoreNames.contains(PROFILE_DATA_STORE)) {
           db.createObjectStore(PROFILE_DATA_STORE, { keyPath: 'id' });
         }
+
+        // Create import batches store, moving the logs out of the profile data records
+        if (!db.objectStoreNames.contains(IMPORT_BATCHES_STORE)) {
+          const batchesStore = db.createObjectStore(IMPORT_BATCHES_STORE, { keyPath: 'id' });
+          const transaction = (event.target as IDBOpenDBRequest).transaction!;
+          const cursorRequest = transaction.objectStore(PROFILE_DATA_STORE).openCursor();
+
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+
+            const { importBatches, ...data } = cursor.value;
+            if (importBatches) {
+              batchesStore.put({ id: data.id, batches: importBatches });
+              cursor.update(data);
+            }
+            cursor.continue();
+          };
+        }
       };
     });
   }
@@ -96,7 +142,7 @@ class IndexedDBManager {
     if (!this.db) await this.init();
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([PROFILES_STORE, PROFILE_DATA_STORE], 'readonly');
+      const transaction = this.db!.transaction([PROFILES_STORE, PROFILE_DATA_STORE, IMPORT_BATCHES_STORE], 'readonly');
       
       // Get profile metadata
       const profileStore = transaction.objectStore(PROFILES_STORE);
@@ -109,19 +155,28 @@ class IndexedDBManager {
           return;
         }
 
-        // Get profile data
+        // Get profile data and import batches
         const dataStore = transaction.objectStore(PROFILE_DATA_STORE);
         const dataRequest = dataStore.get(id);
+        const batchesRequest = transaction.objectStore(IMPORT_BATCHES_STORE).get(id);
 
-        dataRequest.onsuccess = () => {
+        transaction.oncomplete = () => {
           const data = dataRequest.result;
           resolve({
             ...profile,
-            streamingData: data?.streamingData || null
+            streamingData: data?.streamingData || null,
+            quarantine: data?.quarantine || [],
+            importBatches: batchesRequest.result?.batches || [],
+            playCountingPolicy: data?.playCountingPolicy,
+            entityAliases: data?.entityAliases,
+            timezoneSettings: data?.timezoneSettings,
+            sessionGapMinutes: data?.sessionGapMinutes,
+            correctOfflinePlays: data?.correctOfflinePlays,
+            dateRange: data?.dateRange
           });
         };
 
-        dataRequest.onerror = () => reject(dataRequest.error);
+        transaction.onerror = () => reject(transaction.error);
       };
 
       profileRequest.onerror = () => reject(profileRequest.error);
@@ -141,13 +196,44 @@ class IndexedDBManager {
     });
   }
 
-  async saveProfileData(id: string, streamingData: unknown): Promise<void> {
+  async saveProfileData(id: string, fields: Partial<StoredProfileData>): Promise<void> {
     if (!this.db) await this.init();
 
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction([PROFILE_DATA_STORE], 'readwrite');
       const store = transaction.objectStore(PROFILE_DATA_STORE);
-      const request = store.put({ id, streamingData });
+      const getRequest = store.get(id);
+
+      // Merge with the stored record so updating one field keeps the others
+      getRequest.onsuccess = () => {
+        const request = store.put({ ...getRequest.result, ...fields, id });
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      };
+      getRequest.onerror = () => reject(getRequest.error);
+    });
+  }
+
+  async getImportBatches(id: string): Promise<ImportBatch[]> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([IMPORT_BATCHES_STORE], 'readonly');
+      const store = transaction.objectStore(IMPORT_BATCHES_STORE);
+      const request = store.get(id);
+
+      request.onsuccess = () => resolve(request.result?.batches || []);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async saveImportBatches(id: string, batches: ImportBatch[]): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([IMPORT_BATCHES_STORE], 'readwrite');
+      const store = transaction.objectStore(IMPORT_BATCHES_STORE);
+      const request = store.put({ id, batches });
 
       request.onsuccess = () => resolve();
       request.onerror = () => reject(request.error);
@@ -158,14 +244,16 @@ class IndexedDBManager {
     if (!this.db) await this.init();
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([PROFILES_STORE, PROFILE_DATA_STORE], 'readwrite');
+      const transaction = this.db!.transaction([PROFILES_STORE, PROFILE_DATA_STORE, IMPORT_BATCHES_STORE], 'readwrite');
       
-      // Delete from both stores
+      // Delete from every store
       const profileStore = transaction.objectStore(PROFILES_STORE);
       const dataStore = transaction.objectStore(PROFILE_DATA_STORE);
+      const batchesStore = transaction.objectStore(IMPORT_BATCHES_STORE);
       
       profileStore.delete(id);
       dataStore.delete(id);
+      batchesStore.delete(id);
 
       transaction.oncomplete = () => resolve();
       transaction.onerror = () => reject(transaction.error);
@@ -225,8 +313,8 @@ const calculateProfileStats = (streamingData: unknown): { totalTracks: number; t
     } else if (typeof streamingData === 'object' && streamingData !== null) {
       const data = streamingData as { rawData?: unknown[]; stats?: { total_stats?: { total_tracks_played?: number; total_listening_hours?: number } } };
       if (data.rawData) {
-        // Processed data with rawData
-        totalTracks = data.rawData.length;
+        // Processed data with rawData (plays follow the profile's play-counting policy)
+        totalTracks = data.stats?.total_stats?.total_tracks_played ?? data.rawData.length;
         totalListeningHours = data.stats?.total_stats?.total_listening_hours || 0;
       } else if (data.stats) {
         // Processed data without rawData
@@ -319,10 +407,20 @@ export const updateProfile = async (profileId: string, updates: Partial<ProfileD
 
     const updatedProfile = { ...profile, ...updates };
     
-    // Save streaming data separately for better performance
+    // Save streaming data (and the fields stored with it) separately for better performance
+    const dataUpdates = Object.fromEntries(
+      STORED_DATA_FIELDS
+        .filter(field => updates[field] !== undefined)
+        .map(field => [field, updates[field]])
+    ) as Partial<StoredProfileData>;
+    if (Object.keys(dataUpdates).length > 0) {
+      await dbManager.saveProfileData(profileId, dataUpdates);
+    }
+    if (updates.importBatches !== undefined) {
+      await dbManager.saveImportBatches(profileId, updates.importBatches);
+    }
+
     if (updates.streamingData !== undefined) {
-      await dbManager.saveProfileData(profileId, updates.streamingData);
-      
       // Update profile summary with new stats
       const stats = calculateProfileStats(updates.streamingData);
       profiles[profileIndex] = {
@@ -344,6 +442,57 @@ export const updateProfile = async (profileId: string, updates: Partial<ProfileD
   }
 };
 
+/**
+ * The import batch log of a profile, read without loading its streaming data
+ */
+export const getImportBatches = async (profileId: string): Promise<ImportBatch[]> => {
+  try {
+    return await dbManager.getImportBatches(profileId);
+  } catch (error) {
+    console.error('Error getting import batches:', error);
+    return [];
+  }
+};
+
+/**
+ * Undo a single import: drop the entries and quarantined records it added and forget the batch
+ * Entries another import also contained are kept. The remaining entries are stored unprocessed
+ * so the stats are recomputed on the next load.
+ * @returns The number of entries removed
+ */
+export const removeImportBatch = async (profileId: string, batchId: string): Promise<number> => {
+  const profile = await dbManager.getProfile(profileId);
+  if (!profile) {
+    throw new Error('Profile not found');
+  }
+
+  const streamingData = profile.streamingData;
+  const entries = (Array.isArray(streamingData)
+    ? streamingData
+    : (streamingData as { rawData?: unknown[] } | null)?.rawData || []) as StreamingEntry[];
+  const remaining: StreamingEntry[] = [];
+  for (const entry of entries) {
+    const batchIds = getImportBatchIds(entry);
+    if (!batchIds.includes(batchId)) {
+      remaining.push(entry);
+      continue;
+    }
+
+    const otherBatchIds = batchIds.filter(id => id !== batchId);
+    if (otherBatchIds.length > 0) {
+      remaining.push({ ...entry, import_batch_ids: otherBatchIds });
+    }
+  }
+
+  await updateProfile(profileId, {
+    streamingData: remaining.length > 0 ? remaining : null,
+    quarantine: (profile.quarantine || []).filter(item => item.batchId !== batchId),
+    importBatches: (profile.importBatches || []).filter(batch => batch.id !== batchId)
+  });
+
+  return entries.length - remaining.length;
+};
+
 export const deleteProfile = async (profileId: string): Promise<boolean> => {
   try {
     await dbManager.deleteProfile(profileId);
@@ -416,7 +565,17 @@ export const importProfile = async (jsonString: string): Promise<ProfileData | n
 
     await dbManager.saveProfile(profileSummary);
     if (importedProfile.streamingData) {
-      await dbManager.saveProfileData(importedProfile.id, importedProfile.streamingData);
+      await dbManager.saveProfileData(importedProfile.id, {
+        streamingData: importedProfile.streamingData,
+        quarantine: importedProfile.quarantine || [],
+        playCountingPolicy: importedProfile.playCountingPolicy,
+        entityAliases: importedProfile.entityAliases,
+        timezoneSettings: importedProfile.timezoneSettings,
+        sessionGapMinutes: importedProfile.sessionGapMinutes,
+        correctOfflinePlays: importedProfile.correctOfflinePlays,
+        dateRange: importedProfile.dateRange
+      });
+      await dbManager.saveImportBatches(importedProfile.id, importedProfile.importBatches || []);
     }
 
     return importedProfile;
@@ -1,73 +1,67 @@
+import { isValidStreamingEntry } from './streamingDataValidator';
+import {
+  StreamingEntry,
+  AccountStreamingEntry,
+  ProcessedStreamingEntry,
+  PlayCountingPolicy,
+  DEFAULT_PLAY_COUNTING_POLICY,
+  createPlayClassifier,
+  normalizeStreamingData,
+  hasPlaybackDetails,
+  getContentKind,
+  TimezoneSettings,
+  createLocalTimeResolver
+} from '../analytics';
+
 /**
- * Analyze and process Spotify streaming data
+ * Validate, filter and enrich raw streaming data
+ * Only rows that pass the schema and count as a play under the policy are kept.
  */
-export interface StreamingEntry {
-  ts: string;
-  ms_played: number;
-  master_metadata_track_name: string;
-  master_metadata_album_artist_name: string;
-  master_metadata_album_album_name?: string;
-  platform?: string;
-  shuffle?: boolean;
-  skipped?: boolean;
-  offline?: boolean;
-  offline_timestamp?: string | number | boolean | null;
-}
-
-export interface ProcessedStreamingEntry extends StreamingEntry {
-  date: string;
-  hour: number;
-  dayOfWeek: number;
-  duration_minutes: number;
-}
-
-export const analyzeStreamingData = async (rawData: StreamingEntry[]): Promise<ProcessedStreamingEntry[]> => {
-  console.log(`Analyzing ${rawData.length} streaming entries...`);
-  
+export const analyzeStreamingData = async (
+  inputData: StreamingEntry[] | AccountStreamingEntry[],
+  policy: PlayCountingPolicy = DEFAULT_PLAY_COUNTING_POLICY,
+  timezone?: TimezoneSettings
+): Promise<ProcessedStreamingEntry[]> => {
   // Basic validation
-  if (!Array.isArray(rawData) || rawData.length === 0) {
+  if (!Array.isArray(inputData) || inputData.length === 0) {
     throw new Error('Invalid or empty data provided');
   }
   
-  // Check for required fields
-  const firstItem = rawData[0];
-  const requiredFields = ['ts', 'ms_played'];
+  // Convert account data exports to the extended format
+  const rawData = normalizeStreamingData(inputData);
+  console.log(`Analyzing ${rawData.length} streaming entries...`);
   
-  for (const field of requiredFields) {
-    if (!(field in firstItem)) {
-      throw new Error(`Missing required field: ${field}. This doesn't appear to be valid Spotify streaming data.`);
-    }
+  // Validate every record against the streaming history schema
+  const validData = rawData.filter(isValidStreamingEntry);
+  if (validData.length === 0) {
+    throw new Error("No valid streaming history records found. This doesn't appear to be valid Spotify streaming data.");
   }
   
+  // Keep only the rows that count as a play under the policy
+  const isPlay = createPlayClassifier(validData, policy);
+  
+  // Dates, hours and weekdays are in the listener's local time
+  const localTime = createLocalTimeResolver(timezone);
+  
   // Process and clean the data
-  const processedData = rawData
-    .filter(item => {
-      // Filter out invalid entries
-      if (!item.ts || typeof item.ms_played !== 'number') {
-        return false;
-      }
-      
-      // Filter out very short plays (less than 30 seconds)
-      if (item.ms_played < 30000) {
-        return false;
-      }
-      
-      return true;
-    })
+  const processedData = validData
+    .filter(isPlay)
     .map(item => {
+      const local = localTime(item.ts);
       // Standardize and enhance each entry
       return {
         ...item,
         // Ensure timestamp is properly formatted
         ts: typeof item.ts === 'string' ? item.ts : new Date(item.ts).toISOString(),
         // Add derived fields
-        date: new Date(item.ts).toISOString().split('T')[0],
-        hour: new Date(item.ts).getHours(),
-        dayOfWeek: new Date(item.ts).getDay(),
-        // Normalize boolean fields
-        skipped: Boolean(item.skipped),
-        shuffle: Boolean(item.shuffle),
+        date: local.date,
+        hour: local.hour,
+        dayOfWeek: local.dayOfWeek,
+        // Normalize boolean fields (unknown for account data entries)
+        skipped: hasPlaybackDetails(item) ? Boolean(item.skipped) : undefined,
+        shuffle: hasPlaybackDetails(item) ? Boolean(item.shuffle) : undefined,
         offline_timestamp: item.offline_timestamp,
+        content_kind: getContentKind(item),
         // Clean up track/artist names
         master_metadata_track_name: item.master_metadata_track_name?.trim() || '',
         master_metadata_album_artist_name: item.master_metadata_album_artist_name?.trim() || '',
@@ -82,35 +76,3 @@ export const analyzeStreamingData = async (rawData: StreamingEntry[]): Promise<P
   
   return processedData;
 };
-
-/**
- * Remove duplicate entries from streaming data
- */
-export const removeDuplicates = (data: StreamingEntry[]): StreamingEntry[] => {
-  const seen = new Set<string>();
-  
-  return data.filter(item => {
-    // Create a unique key for each entry
-    const key = `${item.ts}-${item.master_metadata_track_name}-${item.ms_played}-${item.master_metadata_album_artist_name}`;
-    
-    if (seen.has(key)) {
-      return false;
-    }
-    
-    seen.add(key);
-    return true;
-  });
-};
-
-/**
- * Merge multiple data arrays and remove duplicates
- */
-export const mergeStreamingData = (existingData: StreamingEntry[], newData: StreamingEntry[]): StreamingEntry[] => {
-  const combined = [...existingData, ...newData];
-  const deduplicated = removeDuplicates(combined);
-  
-  console.log(`Merged ${existingData.length} + ${newData.length} = ${combined.length} entries`);
-  console.log(`After deduplication: ${deduplicated.length} entries`);
-  
-  return deduplicated.sort((a, b) => new Date(a.ts).getTime() - new Date(b.ts).getTime());
-};
@@ -0,0 +1,297 @@
+import {
+  StreamingEntry,
+  StreamingDataFormat,
+  StreamingDedupIndex,
+  MergeReport
+} from '../analytics';
+import { parseStreamingHistoryInWorker, ParseCancelledError } from './streamingParserClient';
+import { validateStreamingEntry, createQuarantinedRecord, QuarantinedRecord } from './streamingDataValidator';
+import { ImportBatch, createImportBatch, computeFileHash, findBatchByHash } from './importBatchService';
+import { isZipFile, readZipEntries, readZipEntryData, ZipEntryData } from '../utils/zipUtils';
+
+/**
+ * Read Spotify streaming history from uploaded files and export archives
+ */
+export type ImportFileStatus = 'pending' | 'processing' | 'done' | 'skipped' | 'error' | 'cancelled';
+
+export interface ImportFileProgress {
+  id: string;
+  name: string;
+  archiveName?: string;
+  format?: StreamingDataFormat;
+  status: ImportFileStatus;
+  recordsRead: number;
+  recordsKept: number;
+  recordsQuarantined: number;
+  duplicatesRemoved: number;
+  entriesAdded: number;
+  // Entries that replaced a less authoritative row of the same play (e.g. an API-synced approximation)
+  entriesReplaced: number;
+  bytesRead: number;
+  totalBytes: number;
+  // Set when the same file was imported into this profile before
+  previouslyImportedAt?: string;
+  error?: string;
+}
+
+export interface ImportOptions {
+  // Called with a snapshot of every file's progress whenever it changes
+  onProgress?: (progress: ImportFileProgress[]) => void;
+  // Aborting stops the import; nothing from it is kept
+  signal?: AbortSignal;
+  // Batches already recorded for the profile, used to flag files that were imported before
+  existingBatches?: ImportBatch[];
+}
+
+export interface ImportResult {
+  data: StreamingEntry[];
+  progress: ImportFileProgress[];
+  // Records that failed schema validation
+  quarantine: QuarantinedRecord[];
+  // One batch per uploaded file that imported successfully
+  batches: ImportBatch[];
+  // What the merge into the existing data added and replaced
+  mergeReport: MergeReport;
+}
+
+interface ImportQueueItem {
+  progress: ImportFileProgress;
+  batch?: ImportBatch;
+  readSource?: () => Promise<ZipEntryData>;
+}
+
+// Extended streaming history files, e.g. "Streaming_History_Audio_2019-2021_3.json",
+// and account data files, e.g. "StreamingHistory_music_0.json", "StreamingHistory_podcast_0.json"
+// (or "StreamingHistory0.json" in older exports)
+const STREAMING_HISTORY_PATTERN = /(^|\/)(Streaming_History_Audio_[^/]*|StreamingHistory(_music_|_podcast_)?\d+)\.json$/i;
+
+// Snapshots sent while a file is being parsed are throttled to keep React renders cheap
+const PROGRESS_INTERVAL_MS = 100;
+
+const getBaseName = (path: string): string => {
+  const parts = path.split('/');
+  return parts[parts.length - 1];
+};
+
+const createProgress = (id: string, name: string, archiveName?: string): ImportFileProgress => ({
+  id,
+  name,
+  archiveName,
+  status: 'pending',
+  recordsRead: 0,
+  recordsKept: 0,
+  recordsQuarantined: 0,
+  duplicatesRemoved: 0,
+  entriesReplaced: 0,
+  entriesAdded: 0,
+  bytesRead: 0,
+  totalBytes: 0
+});
+
+/**
+ * Check whether a file name (or archive path) is a streaming history file
+ */
+export const isStreamingHistoryFileName = (name: string): boolean => {
+  return STREAMING_HISTORY_PATTERN.test(name);
+};
+
+/**
+ * Check whether a file can be imported (a JSON file or a ZIP archive)
+ */
+export const isSupportedImportFile = (file: File): boolean => {
+  return file.name.toLowerCase().endsWith('.json') || isZipFile(file);
+};
+
+/**
+ * Expand the uploaded files into a queue, unpacking ZIP archives into their streaming history files
+ */
+const buildImportQueue = async (files: File[], existingBatches: ImportBatch[]): Promise<ImportQueueItem[]> => {
+  const queue: ImportQueueItem[] = [];
+
+  for (const [fileIndex, file] of files.entries()) {
+    if (!isSupportedImportFile(file)) {
+      const progress = createProgress(`${fileIndex}`, file.name);
+      queue.push({ progress: { ...progress, status: 'skipped', error: 'Not a JSON file' } });
+      continue;
+    }
+
+    // Every uploaded file is one batch, including all the streaming history inside an archive
+    const hash = await computeFileHash(file);
+    const batch = createImportBatch(file.name, isZipFile(file) ? 'archive' : 'file', hash);
+    const previouslyImportedAt = findBatchByHash(existingBatches, hash)?.importedAt;
+
+    if (!isZipFile(file)) {
+      const progress = createProgress(`${fileIndex}`, file.name);
+      queue.push({
+        progress: { ...progress, totalBytes: file.size, previouslyImportedAt },
+        batch,
+        readSource: async () => ({ data: file })
+      });
+      continue;
+    }
+
+    let zipEntries;
+    try {
+      zipEntries = await readZipEntries(file);
+    } catch (error) {
+      const progress = createProgress(`${fileIndex}`, file.name);
+      queue.push({
+        progress: { ...progress, status: 'error', error: error instanceof Error ? error.message : 'Failed to read archive' }
+      });
+      continue;
+    }
+
+    // Sort so that files are merged in chronological order (names embed the year range)
+    const sortedEntries = zipEntries
+      .filter(entry => !entry.isDirectory && !entry.name.startsWith('__MACOSX/'))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    sortedEntries.forEach((entry, entryIndex) => {
+      const progress = createProgress(`${fileIndex}-${entryIndex}`, getBaseName(entry.name), file.name);
+      if (isStreamingHistoryFileName(entry.name)) {
+        queue.push({
+          progress: { ...progress, totalBytes: entry.compressedSize, previouslyImportedAt },
+          batch,
+          readSource: () => readZipEntryData(file, entry)
+        });
+      } else {
+        queue.push({ progress: { ...progress, status: 'skipped', error: 'Not streaming history' } });
+      }
+    });
+  }
+
+  return queue;
+};
+
+/**
+ * Import a batch of files one after another, merging them into the existing data
+ * Files are stream-parsed in a Web Worker, and each file is merged only once it has been read completely.
+ * @param files - JSON files and/or Spotify data ZIP archives
+ * @param existingData - Entries already stored in the active profile
+ * @param options - Progress callback and an AbortSignal to cancel the import
+ * @returns The merged data and the final per-file progress
+ */
+export const importStreamingFiles = async (
+  files: File[],
+  existingData: StreamingEntry[],
+  options: ImportOptions = {}
+): Promise<ImportResult> => {
+  const { onProgress, signal, existingBatches = [] } = options;
+  const queue = await buildImportQueue(files, existingBatches);
+  const report = () => onProgress?.(queue.map(item => ({ ...item.progress })));
+  report();
+
+  // Every entry kept so far, so duplicates are dropped file by file
+  const dedupIndex = new StreamingDedupIndex(existingData);
+  const quarantine: QuarantinedRecord[] = [];
+
+  for (const item of queue) {
+    if (!item.readSource) {
+      continue;
+    }
+
+    if (signal?.aborted) {
+      item.progress.status = 'cancelled';
+      continue;
+    }
+
+    item.progress.status = 'processing';
+    report();
+
+    let lastReport = 0;
+    // A file's rows are only merged once it has been read completely,
+    // so a file that fails partway through leaves nothing behind
+    const staged: StreamingEntry[] = [];
+    const stagedQuarantine: QuarantinedRecord[] = [];
+
+    try {
+      const { data, compression } = await item.readSource();
+      const { format } = await parseStreamingHistoryInWorker(data, {
+        compression,
+        signal,
+        onBatch: (entries, batchFormat) => {
+          if (batchFormat === 'unknown') {
+            throw new Error(`${item.progress.name} is not in a recognized Spotify streaming history format.`);
+          }
+          item.progress.format = batchFormat;
+
+          for (const entry of entries) {
+            item.progress.recordsRead++;
+
+            // Rows that don't match the schema are set aside for review instead of being analyzed
+            const issues = validateStreamingEntry(entry);
+            if (issues.length > 0) {
+              item.progress.recordsQuarantined++;
+              stagedQuarantine.push(createQuarantinedRecord(entry, issues, item.progress.name, item.batch?.id));
+              continue;
+            }
+            item.progress.recordsKept++;
+            staged.push(item.batch ? { ...entry, import_batch_ids: [item.batch.id] } : entry);
+          }
+        },
+        onProgress: ({ bytesRead }) => {
+          item.progress.bytesRead = bytesRead;
+          const now = Date.now();
+          if (now - lastReport >= PROGRESS_INTERVAL_MS) {
+            lastReport = now;
+            report();
+          }
+        }
+      });
+
+      // Duplicates within the file itself and against everything imported before it
+      for (const entry of staged) {
+        const outcome = dedupIndex.add(entry);
+        if (outcome === 'duplicate') {
+          item.progress.duplicatesRemoved++;
+          continue;
+        }
+
+        item.progress.entriesAdded++;
+        if (outcome === 'replaced') {
+          item.progress.entriesReplaced++;
+        }
+      }
+      quarantine.push(...stagedQuarantine);
+
+      item.progress.format = format;
+      item.progress.bytesRead = item.progress.totalBytes;
+      item.progress.status = 'done';
+    } catch (error) {
+      if (error instanceof ParseCancelledError) {
+        item.progress.status = 'cancelled';
+      } else {
+        item.progress.status = 'error';
+        item.progress.error = error instanceof Error ? error.message : 'Failed to read file';
+      }
+    }
+
+    report();
+  }
+
+  if (signal?.aborted) {
+    report();
+    throw new ParseCancelledError();
+  }
+
+  const progress = queue.map(item => ({ ...item.progress }));
+
+  if (!progress.some(item => item.status === 'done')) {
+    const hasArchive = files.some(isZipFile);
+    throw new Error(hasArchive
+      ? 'No streaming history files (Streaming_History_Audio_*.json or StreamingHistory_music_*.json) could be imported.'
+      : 'None of the selected files could be imported.');
+  }
+
+  // Record a batch for every upload that imported at least one file
+  const batches: ImportBatch[] = [];
+  for (const item of queue) {
+    if (!item.batch || item.progress.status !== 'done') continue;
+    if (!batches.includes(item.batch)) {
+      batches.push(item.batch);
+    }
+    item.batch.entriesAdded += item.progress.entriesAdded;
+  }
+
+  return { data: dedupIndex.getEntries(), progress, quarantine, batches, mergeReport: dedupIndex.getReport() };
+};
@@ -0,0 +1,2 @@
+// Schema validation and quarantine live in the analytics engine
+export * from '../analytics/validation';
@@ -0,0 +1,101 @@
+import { StreamingEntry, StreamingDataFormat } from '../analytics';
+import type { ParseRequest, ParseResponse } from '../workers/streamingParser.worker';
+
+/**
+ * Parse streaming history files in a Web Worker so large exports don't block the window
+ */
+export interface ParseProgress {
+  bytesRead: number;
+  totalBytes: number;
+  records: number;
+}
+
+export interface ParseOptions {
+  // Set for ZIP entries that are still compressed
+  compression?: CompressionFormat;
+  batchSize?: number;
+  signal?: AbortSignal;
+  // May throw to stop parsing; the error rejects the returned promise
+  onBatch: (entries: StreamingEntry[], format: StreamingDataFormat) => void;
+  onProgress?: (progress: ParseProgress) => void;
+}
+
+const DEFAULT_BATCH_SIZE = 2000;
+
+/**
+ * Error thrown when a parse is cancelled through its AbortSignal
+ */
+export class ParseCancelledError extends Error {
+  constructor() {
+    super('Import cancelled.');
+    this.name = 'ParseCancelledError';
+  }
+}
+
+/**
+ * Stream-parse a JSON array of streaming history entries in a Web Worker
+ * @param source - The JSON file, or the raw data of a ZIP entry
+ * @param options - Batch and progress callbacks, and an optional AbortSignal to cancel
+ * @returns The number of records read and the detected export format
+ */
+export const parseStreamingHistoryInWorker = (
+  source: Blob,
+  options: ParseOptions
+): Promise<{ records: number; format: StreamingDataFormat }> => {
+  const { compression, batchSize = DEFAULT_BATCH_SIZE, signal, onBatch, onProgress } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ParseCancelledError());
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/streamingParser.worker.ts', import.meta.url), { type: 'module' });
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      cleanup();
+      reject(new ParseCancelledError());
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<ParseResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'batch':
+          // A batch the caller rejects (e.g. an unrecognized format) stops the parse
+          try {
+            onBatch(message.entries, message.format);
+          } catch (error) {
+            cleanup();
+            reject(error);
+          }
+          break;
+        case 'progress':
+          onProgress?.({ bytesRead: message.bytesRead, totalBytes: message.totalBytes, records: message.records });
+          break;
+        case 'done':
+          cleanup();
+          resolve({ records: message.records, format: message.format });
+          break;
+        case 'error':
+          cleanup();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || 'The file parser stopped unexpectedly.'));
+    };
+
+    const request: ParseRequest = { type: 'parse', source, compression, batchSize };
+    worker.postMessage(request);
+  });
+};
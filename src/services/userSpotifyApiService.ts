@@ -1,6 +1,7 @@
 /**
  * Service for using user-provided Spotify API credentials to fetch recent listening data
  */
+import { StreamingEntry } from '../analytics';
 
 export interface SpotifyApiCredentials {
   clientId: string;
@@ -135,23 +136,10 @@ export const getRecentlyPlayedTracks = async (
 
 /**
  * Convert Spotify API recent tracks to the format expected by our streaming data analyzer
+ * The API only reports which track played and when, so start and end reasons, skips,
+ * shuffle and offline state are left unset rather than guessed.
  */
-export const convertRecentTracksToStreamingData = (tracks: RecentTrack[]): Array<{
-  ts: string;
-  ms_played: number;
-  master_metadata_track_name: string;
-  master_metadata_album_artist_name: string;
-  master_metadata_album_album_name: string;
-  spotify_track_uri: string;
-  reason_start: string;
-  reason_end: string;
-  shuffle: null;
-  skipped: boolean;
-  offline: boolean;
-  offline_timestamp: null;
-  incognito_mode: boolean;
-  platform: string;
-}> => {
+export const convertRecentTracksToStreamingData = (tracks: RecentTrack[]): StreamingEntry[] => {
   return tracks.map(item => ({
     ts: item.played_at,
     ms_played: item.track.duration_ms, // Assume full track was played (limitation of API)
@@ -159,13 +147,11 @@ export const convertRecentTracksToStreamingData = (tracks: RecentTrack[]): Array
     master_metadata_album_artist_name: item.track.artists[0]?.name || 'Unknown Artist',
     master_metadata_album_album_name: item.track.album.name,
     spotify_track_uri: `spotify:track:${item.track.id}`,
-    reason_start: 'clickrow', // Default value
-    reason_end: 'endplay', // Assume completed
-    shuffle: null, // Not available in API
-    skipped: false, // Assume not skipped (limitation)
-    offline: false, // Assume online
+    shuffle: null,
+    skipped: null,
+    offline: null,
     offline_timestamp: null,
-    incognito_mode: false,
+    content_kind: 'track',
     platform: 'api_sync' // Mark as API-synced data
   }));
 };
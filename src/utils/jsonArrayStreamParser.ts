@@ -0,0 +1,121 @@
+/**
+ * Incremental parser for a top-level JSON array
+ * Text is pushed in chunks of any size and each completed array element is
+ * returned as soon as its closing character has been seen, so only the element
+ * currently being read is kept in memory.
+ */
+
+const OPEN_BRACE = 0x7b; // {
+const CLOSE_BRACE = 0x7d; // }
+const OPEN_BRACKET = 0x5b; // [
+const CLOSE_BRACKET = 0x5d; // ]
+const QUOTE = 0x22; // "
+const BACKSLASH = 0x5c; // \
+const COMMA = 0x2c; // ,
+
+const isWhitespace = (code: number): boolean => {
+  return code === 0x20 || code === 0x0a || code === 0x0d || code === 0x09 || code === 0xfeff;
+};
+
+export class JsonArrayStreamParser {
+  private started = false;
+  private finished = false;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private inElement = false;
+  private pending = '';
+
+  /**
+   * Feed the next chunk of text
+   * @returns The array elements completed by this chunk
+   */
+  push(chunk: string): unknown[] {
+    const elements: unknown[] = [];
+    let elementStart = this.inElement ? 0 : -1;
+
+    for (let i = 0; i < chunk.length; i++) {
+      const code = chunk.charCodeAt(i);
+
+      if (this.finished) {
+        if (!isWhitespace(code)) {
+          throw new Error('Unexpected content after the end of the JSON array.');
+        }
+        continue;
+      }
+
+      if (!this.started) {
+        if (isWhitespace(code)) continue;
+        if (code !== OPEN_BRACKET) {
+          throw new Error('Expected the file to contain a JSON array.');
+        }
+        this.started = true;
+        continue;
+      }
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (code === BACKSLASH) {
+          this.escaped = true;
+        } else if (code === QUOTE) {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (!this.inElement) {
+        // Between elements: skip separators until the next element or the end of the array
+        if (isWhitespace(code) || code === COMMA) continue;
+        if (code === CLOSE_BRACKET) {
+          this.finished = true;
+          continue;
+        }
+        this.inElement = true;
+        elementStart = i;
+      }
+
+      if (code === QUOTE) {
+        this.inString = true;
+      } else if (code === OPEN_BRACE || code === OPEN_BRACKET) {
+        this.depth++;
+      } else if (code === CLOSE_BRACE || code === CLOSE_BRACKET) {
+        if (this.depth === 0) {
+          // The closing bracket of the top-level array ends a primitive element
+          elements.push(this.completeElement(chunk.slice(elementStart, i)));
+          this.finished = true;
+          continue;
+        }
+        this.depth--;
+        if (this.depth === 0) {
+          elements.push(this.completeElement(chunk.slice(elementStart, i + 1)));
+        }
+      } else if (code === COMMA && this.depth === 0) {
+        // A comma at depth 0 ends a primitive element (number, literal)
+        elements.push(this.completeElement(chunk.slice(elementStart, i)));
+      }
+    }
+
+    if (this.inElement) {
+      this.pending += chunk.slice(Math.max(elementStart, 0));
+    }
+
+    return elements;
+  }
+
+  /**
+   * Signal that all text has been pushed
+   */
+  end(): void {
+    if (!this.started || !this.finished) {
+      throw new Error('Unexpected end of file: the JSON array is incomplete.');
+    }
+  }
+
+  private completeElement(tail: string): unknown {
+    const text = this.pending + tail;
+    this.pending = '';
+    this.inElement = false;
+    return JSON.parse(text);
+  }
+}
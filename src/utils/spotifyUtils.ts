@@ -1,19 +1,22 @@
+export type SpotifyUriType = 'track' | 'episode' | 'show' | 'audiobook' | 'chapter';
+
 /**
  * Extract Spotify track ID from URI
  * @param uri - Spotify URI (e.g., "spotify:track:4iJyoBOLtHqaGxP12qzhQI")
+ * @param type - The kind of item the URI should point to (defaults to a track)
  * @returns The track ID or null if invalid
  */
-export const extractSpotifyIdFromUri = (uri: string): string | null => {
+export const extractSpotifyIdFromUri = (uri: string, type: SpotifyUriType = 'track'): string | null => {
   if (!uri || typeof uri !== 'string') {
     return null;
   }
   
   // Handle different URI formats
-  if (uri.startsWith('spotify:track:')) {
-    return uri.replace('spotify:track:', '');
+  if (uri.startsWith(`spotify:${type}:`)) {
+    return uri.replace(`spotify:${type}:`, '');
   }
   
-  if (uri.startsWith('https://open.spotify.com/track/')) {
+  if (uri.startsWith(`https://open.spotify.com/${type}/`)) {
     const parts = uri.split('/');
     const trackPart = parts[parts.length - 1];
     // Remove any query parameters
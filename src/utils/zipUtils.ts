@@ -0,0 +1,157 @@
+/**
+ * Minimal ZIP archive reader built on the browser's DecompressionStream.
+ * Only "stored" and "deflate" entries are supported, which covers the
+ * archives Spotify sends with a data export.
+ */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+export interface ZipEntry {
+  name: string;
+  compressedSize: number;
+  uncompressedSize: number;
+  compressionMethod: number;
+  localHeaderOffset: number;
+  isDirectory: boolean;
+}
+
+const readBytes = async (blob: Blob, start: number, end: number): Promise<DataView> => {
+  const buffer = await blob.slice(start, end).arrayBuffer();
+  return new DataView(buffer);
+};
+
+/**
+ * Check whether a file looks like a ZIP archive based on its name or type
+ */
+export const isZipFile = (file: File): boolean => {
+  return file.name.toLowerCase().endsWith('.zip') ||
+    file.type === 'application/zip' ||
+    file.type === 'application/x-zip-compressed';
+};
+
+/**
+ * List all entries in a ZIP archive by reading its central directory
+ * @param archive - The ZIP file
+ * @returns Entries in the order they appear in the central directory
+ */
+export const readZipEntries = async (archive: Blob): Promise<ZipEntry[]> => {
+  // The end of central directory record sits at the very end, followed by an optional comment
+  const tailStart = Math.max(0, archive.size - (EOCD_MIN_SIZE + MAX_COMMENT_SIZE));
+  const tail = await readBytes(archive, tailStart, archive.size);
+
+  let eocdOffset = -1;
+  for (let i = tail.byteLength - EOCD_MIN_SIZE; i >= 0; i--) {
+    if (tail.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocdOffset = i;
+      break;
+    }
+  }
+
+  if (eocdOffset === -1) {
+    throw new Error('This does not appear to be a valid ZIP archive.');
+  }
+
+  const entryCount = tail.getUint16(eocdOffset + 10, true);
+  const directorySize = tail.getUint32(eocdOffset + 12, true);
+  const directoryOffset = tail.getUint32(eocdOffset + 16, true);
+
+  if (entryCount === 0xffff || directorySize === 0xffffffff || directoryOffset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported. Please extract the archive and upload the JSON files instead.');
+  }
+
+  const directory = await readBytes(archive, directoryOffset, directoryOffset + directorySize);
+  const utf8Decoder = new TextDecoder('utf-8');
+  const entries: ZipEntry[] = [];
+
+  let pointer = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (directory.getUint32(pointer, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('Corrupted ZIP archive: invalid central directory.');
+    }
+
+    const compressionMethod = directory.getUint16(pointer + 10, true);
+    const compressedSize = directory.getUint32(pointer + 20, true);
+    const uncompressedSize = directory.getUint32(pointer + 24, true);
+    const nameLength = directory.getUint16(pointer + 28, true);
+    const extraLength = directory.getUint16(pointer + 30, true);
+    const commentLength = directory.getUint16(pointer + 32, true);
+    const localHeaderOffset = directory.getUint32(pointer + 42, true);
+
+    const nameBytes = new Uint8Array(directory.buffer, directory.byteOffset + pointer + 46, nameLength);
+    const name = utf8Decoder.decode(nameBytes);
+
+    entries.push({
+      name,
+      compressedSize,
+      uncompressedSize,
+      compressionMethod,
+      localHeaderOffset,
+      isDirectory: name.endsWith('/')
+    });
+
+    pointer += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+export interface ZipEntryData {
+  data: Blob;
+  // Set when the data still has to be decompressed with a DecompressionStream
+  compression?: CompressionFormat;
+}
+
+/**
+ * Get the raw (possibly still compressed) data of a single ZIP entry
+ * This lets callers decompress the entry as a stream, e.g. inside a Web Worker.
+ */
+export const readZipEntryData = async (archive: Blob, entry: ZipEntry): Promise<ZipEntryData> => {
+  // The local header repeats the name and has its own extra field length
+  const header = await readBytes(archive, entry.localHeaderOffset, entry.localHeaderOffset + 30);
+  if (header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Corrupted ZIP archive: invalid header for ${entry.name}.`);
+  }
+
+  const nameLength = header.getUint16(26, true);
+  const extraLength = header.getUint16(28, true);
+  const dataStart = entry.localHeaderOffset + 30 + nameLength + extraLength;
+  const data = archive.slice(dataStart, dataStart + entry.compressedSize);
+
+  if (entry.compressionMethod === METHOD_STORED) {
+    return { data };
+  }
+
+  if (entry.compressionMethod === METHOD_DEFLATE) {
+    return { data, compression: 'deflate-raw' };
+  }
+
+  throw new Error(`Unsupported compression method (${entry.compressionMethod}) for ${entry.name}.`);
+};
+
+/**
+ * Get the decompressed contents of a single ZIP entry as a Blob
+ */
+export const readZipEntryBlob = async (archive: Blob, entry: ZipEntry): Promise<Blob> => {
+  const { data, compression } = await readZipEntryData(archive, entry);
+  if (!compression) {
+    return data;
+  }
+
+  const stream = data.stream().pipeThrough(new DecompressionStream(compression));
+  return await new Response(stream).blob();
+};
+
+/**
+ * Get the decompressed contents of a single ZIP entry as text
+ */
+export const readZipEntryText = async (archive: Blob, entry: ZipEntry): Promise<string> => {
+  const blob = await readZipEntryBlob(archive, entry);
+  return await blob.text();
+};
@@ -0,0 +1,91 @@
+import { JsonArrayStreamParser } from '../utils/jsonArrayStreamParser';
+import {
+  StreamingEntry,
+  StreamingDataFormat,
+  detectStreamingDataFormat,
+  normalizeStreamingData
+} from '../analytics';
+
+/**
+ * Web Worker that stream-parses a streaming history JSON file off the main thread
+ * Entries are posted back in batches together with byte and record progress.
+ */
+export interface ParseRequest {
+  type: 'parse';
+  source: Blob;
+  compression?: CompressionFormat;
+  batchSize: number;
+}
+
+export type ParseResponse =
+  | { type: 'batch'; entries: StreamingEntry[]; format: StreamingDataFormat }
+  | { type: 'progress'; bytesRead: number; totalBytes: number; records: number }
+  | { type: 'done'; records: number; format: StreamingDataFormat }
+  | { type: 'error'; message: string };
+
+const post = (message: ParseResponse) => {
+  self.postMessage(message);
+};
+
+const parseSource = async ({ source, compression, batchSize }: ParseRequest) => {
+  const parser = new JsonArrayStreamParser();
+  let bytesRead = 0;
+  let records = 0;
+  let format: StreamingDataFormat = 'unknown';
+  let batch: unknown[] = [];
+
+  const flush = () => {
+    if (batch.length === 0) return;
+    if (format === 'unknown') {
+      format = detectStreamingDataFormat(batch);
+    }
+    post({ type: 'batch', entries: normalizeStreamingData(batch), format });
+    batch = [];
+  };
+
+  // Count the source bytes before any decompression so progress matches the file size
+  const countBytes = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      bytesRead += chunk.byteLength;
+      controller.enqueue(chunk);
+    }
+  });
+
+  let byteStream = source.stream().pipeThrough(countBytes);
+  if (compression) {
+    byteStream = byteStream.pipeThrough(new DecompressionStream(compression));
+  }
+
+  const reader = byteStream.getReader();
+  const decoder = new TextDecoder('utf-8');
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    const text = done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    const elements = parser.push(text);
+    records += elements.length;
+    for (const element of elements) {
+      batch.push(element);
+      if (batch.length >= batchSize) {
+        flush();
+      }
+    }
+
+    post({ type: 'progress', bytesRead, totalBytes: source.size, records });
+
+    if (done) break;
+  }
+
+  parser.end();
+  flush();
+  post({ type: 'done', records, format });
+};
+
+self.onmessage = (event: MessageEvent<ParseRequest>) => {
+  if (event.data?.type !== 'parse') return;
+
+  parseSource(event.data).catch(error => {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Failed to parse file' });
+  });
+};
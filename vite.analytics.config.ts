@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite';
+
+// Bundles the analytics engine as an ES module for the Electron main process
+export default defineConfig({
+  build: {
+    outDir: 'dist-electron',
+    emptyOutDir: true,
+    copyPublicDir: false,
+    target: 'node20',
+    lib: {
+      entry: 'src/analytics/index.ts',
+      formats: ['es'],
+      fileName: () => 'analytics.js'
+    }
+  }
+});